@@ -1,35 +1,259 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   AccountCurrency,
+  CalculationField,
   CalculationInputs,
+  CalculationIssue,
   CalculationResults,
+  CommissionType,
   CurrencyPair,
+  EntryMode,
+  ReverseResults,
+  SolveMode,
+  ExchangeRateProviderId,
+  ExchangeRateTable,
   Leverage,
+  LeverageSchedule,
+  LocalExchangeRateInput,
+  MarketDataProviderId,
+  MarketQuote,
+  PriceBasis,
+  QuoteStatus,
+  LotRoundingPolicy,
   RiskLevel,
   RiskType,
   TradeType,
   HistoryEntry, // Import HistoryEntry
+  TakeProfitTargetInput,
+  ScaleInEntryInput,
+  ScaleInResults,
+  OpenPositionInput,
+  CorrelationImportFormat,
+  CorrelationMatrix,
+  AtrResult,
+  AtrTimeframe,
+  OhlcData,
+  StopLossMode,
+  SizingFormInputs,
+  SizingModel,
+  SizingResult,
+  TradeJournal,
+  JournalFilter,
+  MonteCarloFormInputs,
+  MonteCarloResults,
+  PropFirmRules,
+  PropFirmStatus,
+  DailyLossBasis,
+  DrawdownBasis,
+  AccountProfile,
+  AccountSettings,
+  BrokerLotRules,
+  HistoryFilter,
+  HistoryPage,
 } from './types';
-import { calculateLotSize, fetchMarketPrice } from './services/forexCalculatorService'; // Import fetchMarketPrice
+import {
+  applyLotRules,
+  calculateCorrelationRisk,
+  calculateCurrencyExposure,
+  calculateLotSize,
+  calculatePortfolioRisk,
+  calculateReverse,
+  calculateScaleInPlan,
+  validateScaleInLevels,
+  validateTradeLevels,
+} from './services/forexCalculatorService';
+import { createExchangeRateProvider } from './services/exchangeRateService';
+import { createCorrelationMatrix, importCorrelationCsv, setCorrelation } from './services/correlationService';
+import { createMarketDataProvider, getExecutablePrice } from './services/marketDataService';
+import { calculateAtr, detectTimeframe, importOhlcCsv, mergeCandles } from './services/ohlcService';
+import { calculateSizingRisk, parseTradeResults } from './services/positionSizingService';
+import { calculateJournalStats, calculateTradeOutcome, filterJournalEntries } from './services/journalService';
+import { runMonteCarlo } from './services/monteCarloService';
+import { evaluatePropFirmRules, toRiskLimit } from './services/propFirmService';
+import { createIndexedDbHistoryStore, migrateLocalStorageHistory } from './services/historyService';
+import { usePersistentState } from './hooks/usePersistentState';
 import {
   ACCOUNT_CURRENCIES,
+  getCurrencyDecimals,
   ALL_CURRENCY_PAIRS,
+  COMMISSION_TYPES,
+  CORRELATION_WARNING_THRESHOLD,
+  DEFAULT_CORRELATIONS,
+  CURRENCY_PAIRS,
+  DEFAULT_EXPOSURE_LIMIT_PERCENT,
+  DEFAULT_MARKET_DATA_URL,
+  DEFAULT_RATE_ENDPOINT_URL,
   LEVERAGE_OPTIONS,
+  LOT_ROUNDING_OPTIONS,
+  PRICE_BASIS_OPTIONS,
+  SOLVE_MODES,
+  SOLVE_BUTTON_LABELS,
+  STOP_LOSS_MODES,
+  DEFAULT_ATR_MULTIPLIER,
+  DEFAULT_ATR_PERIOD,
+  SIZING_MODELS,
+  DEFAULT_KELLY_FRACTION,
+  DEFAULT_MONTE_CARLO_INPUTS,
+  PROP_FIRM_PRESETS,
+  DEFAULT_ACCOUNT_SETTINGS,
+  HISTORY_PAGE_SIZE,
+  REGULATED_LEVERAGE_SCHEDULE,
+  MOCK_EXCHANGE_RATES,
+  MOCK_EXCHANGE_RATES_AS_OF,
+  QUOTE_STALE_AFTER_MS,
   RISK_PERCENTAGE_THRESHOLDS,
-  getPairPipMultiplier, // Import the new helper function
+  EMPTY_CURRENCY_PAIR,
+  findCurrencyPair,
+  findCurrencyPairCategory,
+  parseLeverage,
+  createCustomCurrencyPair,
 } from './constants';
 import Dropdown from './components/Dropdown';
 import NumericInput from './components/NumericInput';
 import ThemeToggle from './components/ThemeToggle';
 import RiskIndicator from './components/RiskIndicator';
 import AutocompleteInput from './components/AutocompleteInput';
+import TakeProfitTargetList from './components/TakeProfitTargetList';
+import ScaleInEntryList from './components/ScaleInEntryList';
+import ReverseResultsPanel from './components/ReverseResultsPanel';
+import FieldIssues from './components/FieldIssues';
+import AtrStopLossSettings from './components/AtrStopLossSettings';
+import SizingModelSettings from './components/SizingModelSettings';
+import SizingSummary from './components/SizingSummary';
+import HistoryEntryCard from './components/HistoryEntryCard';
+import JournalStatsPanel from './components/JournalStatsPanel';
+import MonteCarloSettings from './components/MonteCarloSettings';
+import MonteCarloResultsPanel from './components/MonteCarloResultsPanel';
+import PropFirmSettings from './components/PropFirmSettings';
+import AccountProfileSwitcher from './components/AccountProfileSwitcher';
+import AccountProfileManager from './components/AccountProfileManager';
+import HistoryFilters from './components/HistoryFilters';
+import TakeProfitPlanTable from './components/TakeProfitPlanTable';
+import ScaleInResultsPanel from './components/ScaleInResultsPanel';
+import RiskLimitNotice from './components/RiskLimitNotice';
+import Pagination from './components/Pagination';
+import LeverageScheduleEditor from './components/LeverageScheduleEditor';
+import ExchangeRateSettings from './components/ExchangeRateSettings';
+import ExchangeRatesUsed from './components/ExchangeRatesUsed';
+import MarketDataSettings from './components/MarketDataSettings';
+import MarketQuotePanel from './components/MarketQuotePanel';
+import MarginSummary from './components/MarginSummary';
+import OpenPositionList from './components/OpenPositionList';
+import PortfolioRiskPanel from './components/PortfolioRiskPanel';
+import CurrencyExposurePanel from './components/CurrencyExposurePanel';
+import CorrelationSettings from './components/CorrelationSettings';
+import CorrelationRiskPanel from './components/CorrelationRiskPanel';
+
+// Unique key for a form row; the random suffix keeps rows added in the same millisecond apart
+const createRowId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Creates an empty take-profit row for the form
+const createTakeProfitTarget = (closePercent: number | ''): TakeProfitTargetInput => ({
+  id: createRowId(),
+  priceInput: '',
+  pipsInput: '',
+  closePercent,
+  lastEditedField: null,
+});
+
+// Creates a scale-in entry row for the form
+const createScaleInEntry = (price: number | ''): ScaleInEntryInput => ({
+  id: createRowId(),
+  price,
+  weight: 1,
+});
+
+// Creates a row for the user-editable exchange rate table
+const createLocalExchangeRate = (currency: string, rateToUSD: number | '', updatedAt: number): LocalExchangeRateInput => ({
+  id: createRowId(),
+  currency,
+  rateToUSD,
+  updatedAt,
+});
+
+// Creates an open position row, e.g. from a calculated trade
+const createOpenPosition = (
+  currencyPair: CurrencyPair,
+  tradeType: TradeType,
+  lotSize: number | '',
+  entryPrice: number | '',
+  stopLossPrice: number | '',
+): OpenPositionInput => ({
+  id: createRowId(),
+  currencyPair,
+  tradeType,
+  lotSize,
+  entryPrice,
+  stopLossPrice,
+});
+
+// Saved price feed settings
+interface StoredMarketDataSettings {
+  providerId: MarketDataProviderId;
+  url: string;
+}
+
+// Saved exchange rate settings (provider, the user's rate table and endpoint URL)
+interface StoredExchangeRateSettings {
+  providerId: ExchangeRateProviderId;
+  localRates: LocalExchangeRateInput[];
+  endpointUrl: string;
+}
+
+// Saved account profiles and the one in use
+interface StoredAccountProfiles {
+  profiles: AccountProfile[];
+  activeId: string;
+}
+
+// Prop-firm rule profiles and the account status they are checked against, as saved in localStorage
+interface StoredPropFirmSettings {
+  profiles: PropFirmRules[];
+  activeId: string;
+  status: PropFirmStatus;
+}
 
 function App() {
-  const [accountCurrency, setAccountCurrency] = useState<AccountCurrency>('USD');
-  const [accountSize, setAccountSize] = useState<number | ''>(10000);
-  const [leverage, setLeverage] = useState<Leverage>('1:500');
-  const [riskType, setRiskType] = useState<RiskType>('percentage');
-  const [riskValue, setRiskValue] = useState<number | ''>(1); // 1% or 1 unit of currency
+  const [accountProfileSettings, setAccountProfileSettings] = usePersistentState<StoredAccountProfiles>(
+    'forexCalculatorAccountProfiles',
+    { profiles: [], activeId: '' }, // Empty activeId when no profile is active
+    'account profiles',
+  );
+  const { profiles: accountProfiles, activeId: activeAccountProfileId } = accountProfileSettings;
+  // The form starts from the active profile's settings
+  const [initialAccountSettings] = useState<AccountSettings>(
+    () => accountProfiles.find((profile) => profile.id === activeAccountProfileId) ?? DEFAULT_ACCOUNT_SETTINGS,
+  );
+  const [accountCurrency, setAccountCurrency] = useState<AccountCurrency>(initialAccountSettings.accountCurrency);
+  const [accountSize, setAccountSize] = useState<number | ''>(initialAccountSettings.accountSize);
+  const [leverageInput, setLeverageInput] = useState<string>(initialAccountSettings.leverage); // Free-form, e.g. '1:400' or '400'
+  const [useLeverageSchedule, setUseLeverageSchedule] = useState(initialAccountSettings.leverageSchedule !== null);
+  const [leverageScheduleInputs, setLeverageScheduleInputs] = useState<{ [category: string]: string }>(
+    initialAccountSettings.leverageSchedule ?? REGULATED_LEVERAGE_SCHEDULE,
+  );
+  const [riskType, setRiskType] = useState<RiskType>(initialAccountSettings.riskType);
+  // Sizing models derive the risk amount instead of taking it from riskType/riskValue
+  const [sizingForm, setSizingForm] = useState<SizingFormInputs>({
+    model: 'fixed',
+    winRate: '',
+    averageWinR: '',
+    fraction: DEFAULT_KELLY_FRACTION,
+    startingBalance: '',
+    delta: '',
+    riskPerUnit: '',
+    tradeResults: '',
+  });
+  const [riskValue, setRiskValue] = useState<number | ''>(initialAccountSettings.riskValue); // % or units of currency
+  const [lotRounding, setLotRounding] = useState<LotRoundingPolicy>(initialAccountSettings.lotRounding);
+  const [lotRules, setLotRules] = useState<BrokerLotRules>(initialAccountSettings.lotRules ?? DEFAULT_ACCOUNT_SETTINGS.lotRules); // Profiles saved before broker lot rules lack them
+  const [spreadPips, setSpreadPips] = useState<number | ''>(''); // Optional trading costs
+  const [commission, setCommission] = useState<number | ''>(initialAccountSettings.commission);
+  const [commissionType, setCommissionType] = useState<CommissionType>(initialAccountSettings.commissionType);
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>('chart'); // Whether entry is a chart price or the fill price
+  const [equity, setEquity] = useState<number | ''>(''); // Empty uses the account size
+  const [usedMargin, setUsedMargin] = useState<number | ''>('');
+  const [marginCallLevel, setMarginCallLevel] = useState<number | ''>(initialAccountSettings.marginCallLevel); // Broker margin call level, %
+  const [stopOutLevel, setStopOutLevel] = useState<number | ''>(initialAccountSettings.stopOutLevel); // Broker stop-out level, %
   
   // State for manual currency pair input
   const [currencyPairInputSymbol, setCurrencyPairInputSymbol] = useState<string>(ALL_CURRENCY_PAIRS[0].symbol);
@@ -44,26 +268,26 @@ function App() {
 
   // Helper function to calculate pips from price distance
   const getPipsFromPrices = useCallback((entry: number | '', target: number | '', pair: CurrencyPair): number | '' => {
-    const multiplier = getPairPipMultiplier(pair.symbol);
-    if (typeof entry !== 'number' || entry <= 0 || typeof target !== 'number' || target <= 0 || multiplier === 0) {
+    const { pipSize } = pair;
+    if (typeof entry !== 'number' || entry <= 0 || typeof target !== 'number' || target <= 0 || pipSize === 0) {
       return '';
     }
-    return Math.abs(entry - target) / multiplier;
+    return Math.abs(entry - target) / pipSize;
   }, []);
 
   // Helper function to calculate price from pips
   const getPriceFromPips = useCallback((entry: number | '', pips: number | '', pair: CurrencyPair, type: TradeType, isSL: boolean): number | '' => {
-    const multiplier = getPairPipMultiplier(pair.symbol);
-    if (typeof entry !== 'number' || entry <= 0 || typeof pips !== 'number' || pips < 0 || multiplier === 0) {
+    const { pipSize, digits } = pair;
+    if (typeof entry !== 'number' || entry <= 0 || typeof pips !== 'number' || pips < 0 || pipSize === 0) {
       return '';
     }
-    const priceChange = pips * multiplier;
+    const priceChange = pips * pipSize;
     if (type === 'buy') {
       const calculatedPrice = isSL ? entry - priceChange : entry + priceChange; // SL subtracts, TP adds for Buy
-      return calculatedPrice > 0 ? calculatedPrice : ''; // Ensure price is not negative
+      return calculatedPrice > 0 ? parseFloat(calculatedPrice.toFixed(digits)) : ''; // Ensure price is not negative
     } else { // 'sell'
       const calculatedPrice = isSL ? entry + priceChange : entry - priceChange; // SL adds, TP subtracts for Sell
-      return calculatedPrice > 0 ? calculatedPrice : ''; // Ensure price is not negative
+      return calculatedPrice > 0 ? parseFloat(calculatedPrice.toFixed(digits)) : ''; // Ensure price is not negative
     }
   }, []);
 
@@ -73,44 +297,218 @@ function App() {
   const [effectiveStopLossPriceForCalc, setEffectiveStopLossPriceForCalc] = useState<number | ''>('');
   const [lastEditedSLField, setLastEditedSLField] = useState<'price' | 'pips' | null>(null);
 
-  const [takeProfitPriceInput, setTakeProfitPriceInput] = useState<number | ''>('');
-  const [takeProfitPipsInput, setTakeProfitPipsInput] = useState<number | ''>('');
-  const [effectiveTakeProfitPriceForCalc, setEffectiveTakeProfitPriceForCalc] = useState<number | ''>('');
-  const [lastEditedTPField, setLastEditedTPField] = useState<'price' | 'pips' | null>(null);
+  // ATR mode fills the stop loss with k × ATR measured on imported candles
+  const [stopLossMode, setStopLossMode] = useState<StopLossMode>('manual');
+  const [atrMultiplier, setAtrMultiplier] = useState<number | ''>(DEFAULT_ATR_MULTIPLIER);
+  const [atrPeriod, setAtrPeriod] = useState<number | ''>(DEFAULT_ATR_PERIOD);
+  const [atrTimeframe, setAtrTimeframe] = useState<AtrTimeframe>('D1');
+  const [ohlcData, setOhlcData] = usePersistentState<OhlcData>('forexCalculatorOhlcData', {}, 'OHLC data');
+  const [ohlcStatus, setOhlcStatus] = useState<string | null>(null);
+  const [ohlcError, setOhlcError] = useState<string | null>(null);
+
+  // Take profit targets; a single target closing 100% behaves like a classic single TP
+  const [takeProfitTargets, setTakeProfitTargets] = useState<TakeProfitTargetInput[]>(() => [createTakeProfitTarget(100)]);
+
+  // Scale-in mode splits the entry across several prices sharing one stop loss
+  const [entryMode, setEntryMode] = useState<EntryMode>('single');
+  const [scaleInEntries, setScaleInEntries] = useState<ScaleInEntryInput[]>([]);
+  const [scaleInResults, setScaleInResults] = useState<ScaleInResults | null>(null);
+
+  // Reverse modes take a lot size and solve for the stop loss, risk or account size instead
+  const [solveMode, setSolveMode] = useState<SolveMode>('lotSize');
+  const [fixedLotSize, setFixedLotSize] = useState<number | ''>('');
+  const [reverseResults, setReverseResults] = useState<ReverseResults | null>(null);
 
   const [results, setResults] = useState<CalculationResults | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]); // NEW: History state
+  const historyStore = useMemo(() => createIndexedDbHistoryStore(), []);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({
+    search: '',
+    symbol: '',
+    tradeType: 'all',
+    from: '',
+    to: '',
+    profileId: '',
+    tag: '',
+    pinnedOnly: false,
+  });
+  const [historyPage, setHistoryPage] = useState(0);
+  const [historyListing, setHistoryListing] = useState<HistoryPage>({ entries: [], hasMore: false }); // The page shown, read from the store
+  const [historyRevision, setHistoryRevision] = useState(0); // Bumped after each write so the listing is read again
+  const [notesEditingId, setNotesEditingId] = useState<string | null>(null); // History entry open in the notes editor
+  const [journalEditingId, setJournalEditingId] = useState<string | null>(null); // History entry open in the journal editor
+  const [journalErrors, setJournalErrors] = useState<CalculationIssue[]>([]);
+  const [journalFilter, setJournalFilter] = useState<JournalFilter>({ symbol: '', tradeType: 'all', from: '', to: '', tag: '' });
+  const [monteCarloForm, setMonteCarloForm] = useState<MonteCarloFormInputs>(DEFAULT_MONTE_CARLO_INPUTS);
+  const [monteCarloResults, setMonteCarloResults] = useState<MonteCarloResults | null>(null);
+  const [monteCarloErrors, setMonteCarloErrors] = useState<CalculationIssue[]>([]);
+  const [openPositions, setOpenPositions] = usePersistentState<OpenPositionInput[]>('forexCalculatorOpenPositions', [], 'open positions'); // Trades already running
+  const [propFirmSettings, setPropFirmSettings] = usePersistentState<StoredPropFirmSettings>(
+    'forexCalculatorPropFirmRules',
+    {
+      profiles: [],
+      activeId: '', // Empty when no rules apply
+      status: {
+        initialBalance: '', // Empty uses the account size
+        highestBalance: '',
+        dayStartBalance: '',
+        realizedToday: '',
+        openPnl: '',
+      },
+    },
+    'prop-firm rules',
+  );
+  const { profiles: propFirmProfiles, activeId: activePropFirmId, status: propFirmStatus } = propFirmSettings;
+  const [exposureLimit, setExposureLimit] = useState<number | ''>(DEFAULT_EXPOSURE_LIMIT_PERCENT); // % of account per currency
+  const [correlationMatrix, setCorrelationMatrix] = usePersistentState<CorrelationMatrix>(
+    'forexCalculatorCorrelations',
+    () => createCorrelationMatrix(DEFAULT_CORRELATIONS),
+    'correlations',
+  );
+  const [correlationThreshold, setCorrelationThreshold] = useState<number | ''>(CORRELATION_WARNING_THRESHOLD);
+  const [correlationImportFormat, setCorrelationImportFormat] = useState<CorrelationImportFormat>('matrix');
+  const [correlationStatus, setCorrelationStatus] = useState<string | null>(null);
+  const [correlationError, setCorrelationError] = useState<string | null>(null);
   const [loadConfirmation, setLoadConfirmation] = useState<string | null>(null); // NEW: Confirmation message state
   const loadConfirmationTimeoutRef = useRef<number | null>(null); // Ref to store timeout ID
+  const loadedHistorySymbolRef = useRef<string | null>(null); // Symbol set by a history load, whose saved levels must survive the pair change
   const [hasCalculated, setHasCalculated] = useState(false); // NEW: Track if calculate button has been pressed
-  const [calcError, setCalcError] = useState<string | null>(null); // NEW: Error state for calculations
+  const [calcErrors, setCalcErrors] = useState<CalculationIssue[] | null>(null); // Errors returned by the calculation service
+  const [calcWarnings, setCalcWarnings] = useState<CalculationIssue[]>([]); // Warnings returned with successful results
   const [showResults, setShowResults] = useState(false); // NEW: State to toggle between form and results view
 
+  // Exchange rates: the selected provider and the snapshot of rates it last returned
+  const [rateSettings, setRateSettings] = usePersistentState<StoredExchangeRateSettings>(
+    'forexCalculatorExchangeRates',
+    () => ({
+      providerId: 'static',
+      localRates: Object.entries(MOCK_EXCHANGE_RATES)
+        .filter(([currency]) => currency !== 'USD')
+        .map(([currency, rate]) => createLocalExchangeRate(currency, rate, MOCK_EXCHANGE_RATES_AS_OF)),
+      endpointUrl: DEFAULT_RATE_ENDPOINT_URL,
+    }),
+    'exchange rate settings',
+  );
+  const { providerId: rateProviderId, localRates, endpointUrl: rateEndpointUrl } = rateSettings;
+  const [rateEndpointUrlInput, setRateEndpointUrlInput] = useState<string>(rateEndpointUrl);
+  const [rateRefreshKey, setRateRefreshKey] = useState(0); // Bumped to re-fetch from the endpoint
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>({});
+  const [ratesLoading, setRatesLoading] = useState(false);
+  const [ratesError, setRatesError] = useState<string | null>(null);
+
+  // Market data: the price feed and the latest quote for the selected pair
+  const [marketDataSettings, setMarketDataSettings] = usePersistentState<StoredMarketDataSettings>(
+    'forexCalculatorMarketData',
+    { providerId: 'mock', url: DEFAULT_MARKET_DATA_URL },
+    'price feed settings',
+  );
+  const { providerId: marketDataProviderId, url: marketDataUrl } = marketDataSettings;
+  const [marketDataUrlInput, setMarketDataUrlInput] = useState<string>(marketDataUrl);
+  const [marketDataRetryKey, setMarketDataRetryKey] = useState(0); // Bumped to reconnect the feed
+  const [quote, setQuote] = useState<MarketQuote | null>(null);
+  const [quoteStatus, setQuoteStatus] = useState<QuoteStatus>('idle');
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoteClock, setQuoteClock] = useState(Date.now()); // Ticks while a quote is shown so its age stays current
+  const [lockEntryPrice, setLockEntryPrice] = useState(false); // When locked, live quotes no longer move the entry price
+  const [spreadEdited, setSpreadEdited] = useState(false); // A typed spread is kept instead of the quoted one
+  const [priceBasisChosen, setPriceBasisChosen] = useState(false); // Once the user picks a basis, quotes never change it
+
 
   // NEW: Real-time risk conversion display states
   const [calculatedRiskAmountDisplay, setCalculatedRiskAmountDisplay] = useState<number | ''>('');
   const [calculatedRiskPercentageDisplay, setCalculatedRiskPercentageDisplay] = useState<number | ''>('');
 
 
-  // NEW: Load history from localStorage on mount
+  // Load history from IndexedDB on mount, first moving over any history kept in localStorage
   useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem('forexCalculatorHistory');
-      if (storedHistory) {
-        const parsedHistory: HistoryEntry[] = JSON.parse(storedHistory);
-        setHistory(parsedHistory);
-      }
-    } catch (error) {
-      console.error("Failed to load history from localStorage", error);
-      localStorage.removeItem('forexCalculatorHistory'); // Clear corrupted history
+    migrateLocalStorageHistory(historyStore)
+      .then(() => historyStore.getAll())
+      .then((storedHistory) => {
+        // Keep entries calculated while the store was opening
+        setHistory((prev) => [...prev, ...storedHistory.filter((entry) => !prev.some((e) => e.id === entry.id))]);
+        setHistoryRevision((revision) => revision + 1);
+      })
+      .catch(() => {
+        setHistoryError('History could not be loaded; new calculations may not be saved.');
+      });
+  }, [historyStore]);
+
+  // Read the listed page of history from the store
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.list(historyFilter, historyPage * HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE)
+      .then((listing) => {
+        if (cancelled) {
+          return;
+        }
+        if (listing.entries.length === 0 && historyPage > 0) {
+          setHistoryPage((page) => page - 1); // The last entries on this page were deleted
+          return;
+        }
+        setHistoryListing(listing);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setHistoryError('History could not be loaded.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyStore, historyFilter, historyPage, historyRevision]);
+
+  // Writes changed history entries through to the store
+  const saveHistoryEntries = useCallback((entries: HistoryEntry[]) => {
+    historyStore.save(entries)
+      .then(() => setHistoryRevision((revision) => revision + 1))
+      .catch(() => {
+        setHistoryError('History could not be saved.');
+      });
+  }, [historyStore]);
+
+  // Fills the account fields of the form from a profile
+  const applyAccountSettings = useCallback((settings: AccountSettings) => {
+    setAccountCurrency(settings.accountCurrency);
+    setAccountSize(settings.accountSize);
+    setLeverageInput(settings.leverage);
+    setUseLeverageSchedule(settings.leverageSchedule !== null);
+    if (settings.leverageSchedule) {
+      setLeverageScheduleInputs(settings.leverageSchedule);
     }
+    setRiskType(settings.riskType);
+    setRiskValue(settings.riskValue);
+    setLotRounding(settings.lotRounding);
+    setLotRules(settings.lotRules ?? DEFAULT_ACCOUNT_SETTINGS.lotRules);
+    setCommission(settings.commission);
+    setCommissionType(settings.commissionType);
+    setMarginCallLevel(settings.marginCallLevel);
+    setStopOutLevel(settings.stopOutLevel);
   }, []);
 
-  // NEW: Save history to localStorage whenever history state changes
+  // Fetch a fresh rate snapshot from the selected provider
   useEffect(() => {
-    console.log("Saving history to localStorage:", history); // Log for debugging
-    localStorage.setItem('forexCalculatorHistory', JSON.stringify(history));
-  }, [history]);
+    const controller = new AbortController();
+    const provider = createExchangeRateProvider(rateProviderId, localRates, rateEndpointUrl);
+    setRatesLoading(true);
+    setRatesError(null);
+    provider.getRates(controller.signal)
+      .then((rates) => {
+        if (!controller.signal.aborted) {
+          setExchangeRates(rates);
+          setRatesLoading(false);
+        }
+      })
+      .catch((error: Error) => {
+        if (!controller.signal.aborted) {
+          // Never fall back to guessed rates: conversions will report the missing rates instead
+          setExchangeRates({});
+          setRatesError(`Could not load rates from ${provider.label}: ${error.message}`);
+          setRatesLoading(false);
+        }
+      });
+    return () => controller.abort();
+  }, [rateProviderId, localRates, rateEndpointUrl, rateRefreshKey]);
 
   // NEW: Effect to auto-dismiss load confirmation message
   useEffect(() => {
@@ -140,7 +538,7 @@ function App() {
 
     if (riskType === 'percentage') {
       const amount = (accountSize * riskValue) / 100;
-      setCalculatedRiskAmountDisplay(parseFloat(amount.toFixed(2))); // Round for display
+      setCalculatedRiskAmountDisplay(parseFloat(amount.toFixed(getCurrencyDecimals(accountCurrency)))); // Round for display
       setCalculatedRiskPercentageDisplay(riskValue);
     } else { // riskType === 'amount'
       const percentage = (riskValue / accountSize) * 100;
@@ -152,46 +550,25 @@ function App() {
   // NEW: Effect to manage currencyPair object from input symbol
   useEffect(() => {
     if (!currencyPairInputSymbol) {
-      setCurrencyPair({ symbol: '', base: '', quote: '', contractSize: 0 });
+      setCurrencyPair(EMPTY_CURRENCY_PAIR);
       return;
     }
 
-    const matchedPair = ALL_CURRENCY_PAIRS.find(
-      (p) => p.symbol.toLowerCase() === currencyPairInputSymbol.toLowerCase(),
-    );
-
-    if (matchedPair) {
-      setCurrencyPair(matchedPair);
-    } else {
-      // Handle custom/unmatched pair
-      let base = currencyPairInputSymbol;
-      let quote = '';
-      const parts = currencyPairInputSymbol.split('/');
-      if (parts.length === 2) {
-        base = parts[0];
-        quote = parts[1];
-      }
-
-      let assumedContractSize = 100_000; // Default for FX-like pairs
-      if (base.includes("XAU") || base.includes("XAG")) {
-        assumedContractSize = 100; // e.g., Gold 100oz contract
-      } else if (base.includes("BTC") || base.includes("ETH")) {
-        assumedContractSize = 1; // Crypto typically 1 unit
-      } else if (base.includes("NAS100") || base.includes("US30")) {
-        assumedContractSize = 10; // Indices often have smaller contract sizes
-      }
+    // Use the registered instrument spec, falling back to an assumed spec for custom pairs
+    const matchedPair = findCurrencyPair(currencyPairInputSymbol);
+    setCurrencyPair(matchedPair ?? createCustomCurrencyPair(currencyPairInputSymbol));
 
-      setCurrencyPair({
-        symbol: currencyPairInputSymbol,
-        base: base.toUpperCase(),
-        quote: quote.toUpperCase(),
-        contractSize: assumedContractSize,
-      });
+    // A history load has already filled in the levels for this pair
+    const loadedFromHistory = loadedHistorySymbolRef.current === currencyPairInputSymbol;
+    loadedHistorySymbolRef.current = null;
+    if (loadedFromHistory) {
+      return;
     }
+
     // Also clear previous entry price and reset calculation status
     setEntryPrice('');
     setHasCalculated(false);
-    setCalcError(null); // Clear error when currency pair changes
+    setCalcErrors(null); // Clear error when currency pair changes
 
     // Also clear SL/TP inputs and effective values, as they depend on entry price
     setStopLossPriceInput('');
@@ -199,32 +576,70 @@ function App() {
     setEffectiveStopLossPriceForCalc('');
     setLastEditedSLField(null);
 
-    setTakeProfitPriceInput('');
-    setTakeProfitPipsInput('');
-    setEffectiveTakeProfitPriceForCalc('');
-    setLastEditedTPField(null);
+    setTakeProfitTargets([createTakeProfitTarget(100)]);
+    setScaleInEntries([]);
+    setEntryMode('single');
+    setLockEntryPrice(false); // Follow quotes for the new pair
 
   }, [currencyPairInputSymbol]); // Dependency array: run when currencyPairInputSymbol changes
 
-  // NEW: Effect to auto-fill Entry Price when Currency Pair object changes
+  // Subscribe to live quotes for the selected pair. Unsubscribing on cleanup means a
+  // slow response for a previous pair can never land after the pair has changed.
   useEffect(() => {
-    // Only fetch if currencyPair has a symbol (i.e., not the initial empty state)
-    // and if the symbol is not empty (e.g., if user clears the input)
-    if (currencyPair && currencyPair.symbol) {
-      const fetchPrice = async () => {
-        const price = await fetchMarketPrice(currencyPair.symbol);
-        if (typeof price === 'number' && price > 0) {
-          setEntryPrice(price);
-        } else {
-          console.warn(`No mock market price found for ${currencyPair.symbol}. Manual entry required.`);
-          // If no mock price, entryPrice remains empty, prompting manual input
-        }
-      };
-      fetchPrice();
-    } else {
-      setEntryPrice(''); // Clear entry price if currencyPair becomes invalid/empty
+    setQuote(null);
+    setQuoteError(null);
+    if (!currencyPair || !currencyPair.symbol) {
+      setQuoteStatus('idle');
+      return;
+    }
+
+    setQuoteStatus('loading');
+    const provider = createMarketDataProvider(marketDataProviderId, marketDataUrl);
+    const unsubscribe = provider.subscribe(
+      currencyPair.symbol,
+      (newQuote) => {
+        setQuote(newQuote);
+        setQuoteStatus('live');
+        setQuoteError(null);
+      },
+      (error) => {
+        setQuoteStatus('error');
+        setQuoteError(error.message);
+      },
+    );
+    return unsubscribe;
+  }, [currencyPair, marketDataProviderId, marketDataUrl, marketDataRetryKey]);
+
+  // Fill the entry, spread and price basis from the live quote, but only the fields the user
+  // has not set: the entry follows until it is locked or typed, the spread until it is typed,
+  // and the basis defaults to executable (buys at the ask, sells at the bid) until one is chosen
+  useEffect(() => {
+    if (!quote || quote.symbol !== currencyPair.symbol) {
+      return;
+    }
+    const basis = priceBasisChosen ? priceBasis : 'executable';
+    if (!lockEntryPrice) {
+      // Charts plot the bid, so a chart-basis entry follows the bid for both directions
+      const price = basis === 'executable' ? getExecutablePrice(quote, tradeType) : quote.bid;
+      setEntryPrice(parseFloat(price.toFixed(currencyPair.digits)));
+      if (!priceBasisChosen) {
+        setPriceBasis('executable');
+      }
+    }
+    if (!spreadEdited) {
+      setSpreadPips(parseFloat(((quote.ask - quote.bid) / currencyPair.pipSize).toFixed(1)));
+    }
+  }, [quote, lockEntryPrice, currencyPair, tradeType, priceBasis, priceBasisChosen, spreadEdited]);
+
+  // Keep the quote age current so stale quotes are flagged even when the feed goes quiet
+  useEffect(() => {
+    if (!quote) {
+      return;
     }
-  }, [currencyPair]); // Dependency array: run when currencyPair object changes (which is set by currencyPairInputSymbol effect)
+    setQuoteClock(Date.now());
+    const intervalId = window.setInterval(() => setQuoteClock(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [quote]);
 
 
   // Centralized function to update SL display and calculation values
@@ -264,141 +679,461 @@ function App() {
     }
   }, [entryPrice, currencyPair, tradeType, getPipsFromPrices, getPriceFromPips]);
 
-  // Centralized function to update TP display and calculation values
-  const updateTPValues = useCallback((editedField: 'price' | 'pips', value: number | '') => {
-    // Ensure entryPrice is a valid positive number BEFORE any further calculations
-    if (typeof entryPrice !== 'number' || entryPrice <= 0 || !currencyPair || !currencyPair.symbol) {
-      setTakeProfitPriceInput('');
-      setTakeProfitPipsInput('');
-      setEffectiveTakeProfitPriceForCalc('');
-      setLastEditedTPField(null);
+  // ATR of the selected instrument's imported candles, or why it cannot be computed
+  const atrOutcome = useMemo((): { atr: AtrResult | null; error: string | null } => {
+    const candles = ohlcData[currencyPair.symbol];
+    if (!candles || candles.length === 0) {
+      return { atr: null, error: null };
+    }
+    if (typeof atrPeriod !== 'number') {
+      return { atr: null, error: 'Enter an ATR period.' };
+    }
+    try {
+      return { atr: calculateAtr(candles, atrPeriod, atrTimeframe, currencyPair.pipSize), error: null };
+    } catch (error) {
+      return { atr: null, error: (error as Error).message };
+    }
+  }, [ohlcData, currencyPair, atrPeriod, atrTimeframe]);
+
+  // In ATR mode the stop loss follows k × ATR, filled in pips so the price tracks the entry
+  useEffect(() => {
+    if (stopLossMode !== 'atr' || !atrOutcome.atr || typeof atrMultiplier !== 'number') {
       return;
     }
+    updateSLValues('pips', parseFloat((atrMultiplier * atrOutcome.atr.atrPips).toFixed(1)));
+  }, [stopLossMode, atrOutcome, atrMultiplier, updateSLValues]);
+
+  // Centralized function to update a TP target's display and calculation values
+  const updateTPValues = useCallback((id: string, editedField: 'price' | 'pips', value: number | '') => {
+    setTakeProfitTargets((prevTargets) => prevTargets.map((target) => {
+      if (target.id !== id) {
+        return target;
+      }
+      // Ensure entryPrice is a valid positive number BEFORE any further calculations
+      if (typeof entryPrice !== 'number' || entryPrice <= 0 || !currencyPair || !currencyPair.symbol) {
+        return { ...target, priceInput: '', pipsInput: '', lastEditedField: null };
+      }
 
-    const currentEntryPrice = entryPrice;
+      if (editedField === 'price') {
+        const derivedPips = value !== '' ? getPipsFromPrices(entryPrice, value, currencyPair) : '';
+        return { ...target, priceInput: value, pipsInput: derivedPips, lastEditedField: editedField };
+      } else { // editedField === 'pips'
+        const derivedPrice = value !== '' ? getPriceFromPips(entryPrice, value, currencyPair, tradeType, false) : '';
+        return { ...target, priceInput: derivedPrice, pipsInput: value, lastEditedField: editedField };
+      }
+    }));
+  }, [entryPrice, currencyPair, tradeType, getPipsFromPrices, getPriceFromPips]);
+
+  // Live direction checks for SL/TP/entries, shown next to each field as the user types.
+  // Issue indexes line up with the TP and scale-in rows in the form.
+  const levelIssues = useMemo(() => {
+    const stopLoss = typeof effectiveStopLossPriceForCalc === 'number' ? effectiveStopLossPriceForCalc : 0;
+    if (entryMode === 'scaleIn') {
+      return validateScaleInLevels(
+        tradeType,
+        scaleInEntries.map((e) => (typeof e.price === 'number' ? e.price : 0)),
+        stopLoss,
+      );
+    }
+    return validateTradeLevels(
+      tradeType,
+      typeof entryPrice === 'number' ? entryPrice : 0,
+      stopLoss,
+      takeProfitTargets.map((t) => ({
+        price: typeof t.priceInput === 'number' ? t.priceInput : 0,
+        closePercent: typeof t.closePercent === 'number' ? t.closePercent : 0,
+      })),
+    );
+  }, [entryMode, tradeType, entryPrice, effectiveStopLossPriceForCalc, takeProfitTargets, scaleInEntries]);
 
-    setLastEditedTPField(editedField);
+  // Leverage as typed; '1:0' marks unreadable input so the calculator reports it on the field
+  const leverage: Leverage = parseLeverage(leverageInput) ?? '1:0';
 
-    if (editedField === 'price') {
-      setTakeProfitPriceInput(value);
-      setEffectiveTakeProfitPriceForCalc(value);
-      if (value !== '') {
-        const derivedPips = getPipsFromPrices(currentEntryPrice, value, currencyPair);
-        setTakeProfitPipsInput(derivedPips);
-      } else {
-        setTakeProfitPipsInput('');
-      }
-    } else { // editedField === 'pips'
-      setTakeProfitPipsInput(value);
-      if (value !== '') {
-        const derivedPrice = getPriceFromPips(currentEntryPrice, value, currencyPair, tradeType, false);
-        setTakeProfitPriceInput(derivedPrice);
-        setEffectiveTakeProfitPriceForCalc(derivedPrice);
-      } else {
-        setTakeProfitPriceInput('');
-        setEffectiveTakeProfitPriceForCalc('');
+  // Per-category caps; blank categories are uncapped
+  const leverageSchedule = useMemo((): LeverageSchedule => {
+    const schedule: LeverageSchedule = {};
+    if (!useLeverageSchedule) {
+      return schedule;
+    }
+    Object.entries(leverageScheduleInputs).forEach(([category, value]: [string, string]) => {
+      if (value.trim()) {
+        schedule[category] = parseLeverage(value) ?? '1:0';
       }
+    });
+    return schedule;
+  }, [useLeverageSchedule, leverageScheduleInputs]);
+
+  // Offer every currency the active rate table can price, common denominations first
+  const accountCurrencyOptions = useMemo(() => {
+    const listed = new Set(ACCOUNT_CURRENCIES.map((option) => option.value));
+    const extra = Object.keys(exchangeRates)
+      .filter((currency) => !listed.has(currency))
+      .sort()
+      .map((currency) => ({ value: currency, label: currency }));
+    // Keep a loaded currency selectable even if the current table cannot price it
+    if (!listed.has(accountCurrency) && !exchangeRates[accountCurrency]) {
+      extra.push({ value: accountCurrency, label: `${accountCurrency} (no rate)` });
     }
-  }, [entryPrice, currencyPair, tradeType, getPipsFromPrices, getPriceFromPips]);
+    return [...ACCOUNT_CURRENCIES, ...extra];
+  }, [exchangeRates, accountCurrency]);
 
-  const performCalculation = useCallback(() => {
-    // Clear previous error if any before new calculation attempt
-    setCalcError(null);
-
-    // Basic validation before calculating
-    if (
-      typeof accountSize !== 'number' || accountSize <= 0 ||
-      typeof riskValue !== 'number' || riskValue <= 0 ||
-      typeof entryPrice !== 'number' || entryPrice <= 0 ||
-      !currencyPair || !currencyPair.symbol || currencyPair.contractSize <= 0 ||
-      typeof effectiveStopLossPriceForCalc !== 'number' || effectiveStopLossPriceForCalc <= 0
-    ) {
-      setCalcError("Please fill in all required trade details with valid positive numbers. Stop Loss Price must be defined and positive.");
-      setResults(null);
-      return;
+  // Flag an account currency the loaded rates cannot convert before the user calculates
+  const accountCurrencyIssues = useMemo((): CalculationIssue[] => {
+    if (ratesLoading || accountCurrency === 'USD' || exchangeRates[accountCurrency]) {
+      return [];
+    }
+    return [{
+      code: 'MISSING_RATE',
+      severity: 'error',
+      field: 'accountCurrency',
+      message: `No exchange rate is available for the account currency ${accountCurrency}.`,
+    }];
+  }, [ratesLoading, accountCurrency, exchangeRates]);
+
+  // Issues to show next to a form field: live checks plus errors from the last calculation
+  const issuesForField = (field: CalculationField): CalculationIssue[] => {
+    const seen = new Set<string>();
+    return [...levelIssues, ...accountCurrencyIssues, ...(calcErrors ?? [])]
+      .filter((issue) => issue.field === field)
+      .filter((issue) => {
+        const key = `${issue.code}|${issue.index ?? ''}|${issue.message}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  };
+
+  // Risk across the open positions, alone and together with the calculated trade
+  const portfolioInputs = useMemo(() => ({
+    accountCurrency,
+    accountSize: typeof accountSize === 'number' ? accountSize : 0,
+    leverage,
+    leverageSchedule,
+    exchangeRates,
+    positions: openPositions,
+  }), [accountCurrency, accountSize, leverage, leverageSchedule, exchangeRates, openPositions]);
+  const openPortfolio = useMemo(() => calculatePortfolioRisk(portfolioInputs), [portfolioInputs]);
+  const tradePortfolio = useMemo(() => {
+    const trade = scaleInResults ?? results;
+    return trade
+      ? calculatePortfolioRisk(portfolioInputs, { riskAmount: trade.totalRiskAmount, marginRequired: trade.marginRequired })
+      : openPortfolio;
+  }, [portfolioInputs, openPortfolio, results, scaleInResults]);
+
+  // Net exposure per currency across the open positions, alone and with the calculated trade
+  const openExposure = useMemo(() => calculateCurrencyExposure({
+    accountCurrency,
+    accountSize: typeof accountSize === 'number' ? accountSize : 0,
+    exchangeRates,
+    positions: openPositions,
+    limitPercent: typeof exposureLimit === 'number' ? exposureLimit : 0,
+  }), [accountCurrency, accountSize, exchangeRates, openPositions, exposureLimit]);
+  const tradeExposure = useMemo(() => {
+    const plannedEntries = scaleInResults
+      ? scaleInResults.entries.map((e) => ({ lots: e.lots, price: e.price }))
+      : results ? [{ lots: results.finalLotSize, price: entryPrice }] : [];
+    return calculateCurrencyExposure({
+      accountCurrency,
+      accountSize: typeof accountSize === 'number' ? accountSize : 0,
+      exchangeRates,
+      positions: [
+        ...openPositions,
+        ...plannedEntries.map((e, index) => ({
+          id: `planned-${index}`,
+          currencyPair,
+          tradeType,
+          lotSize: e.lots,
+          entryPrice: e.price,
+          stopLossPrice: '' as const,
+        })),
+      ],
+      limitPercent: typeof exposureLimit === 'number' ? exposureLimit : 0,
+    });
+  }, [accountCurrency, accountSize, exchangeRates, openPositions, exposureLimit, results, scaleInResults, currencyPair, tradeType, entryPrice]);
+
+  const activeAccountProfile = accountProfiles.find((profile) => profile.id === activeAccountProfileId);
+
+  // The instrument with the account broker's volume limits, as the calculations use it
+  const brokerPair = useMemo(() => applyLotRules(currencyPair, lotRules), [currencyPair, lotRules]);
+
+  // Room left under the active prop-firm rules; every calculation is capped to it
+  const propFirmCheck = useMemo(() => {
+    const profile = propFirmProfiles.find((p) => p.id === activePropFirmId);
+    if (!profile) {
+      return null;
     }
+    return evaluatePropFirmRules(profile, {
+      ...propFirmStatus,
+      initialBalance: propFirmStatus.initialBalance === '' ? accountSize : propFirmStatus.initialBalance,
+    });
+  }, [propFirmProfiles, activePropFirmId, propFirmStatus, accountSize]);
 
-    // Special check for SL being too close to entry for calculation logic
-    const stopLossPipsForCheck = getPipsFromPrices(entryPrice, effectiveStopLossPriceForCalc, currencyPair);
-    // Use a small threshold, e.g., half of the smallest pip unit (pipPriceStep)
-    const minPipDistance = getPairPipMultiplier(currencyPair.symbol) * 0.5; // Half a pip unit as threshold
-    if (typeof stopLossPipsForCheck === 'number' && stopLossPipsForCheck < minPipDistance) {
-      setCalcError("Stop Loss Price is too close to Entry Price. Please adjust for a valid calculation (minimum 1 pip distance).");
-      setResults(null);
-      return;
+  // Instruments shown in the correlation editor
+  const correlationSymbols = useMemo(
+    () => Array.from(new Set([currencyPair.symbol, ...openPositions.map((p) => p.currencyPair.symbol)])).filter(Boolean),
+    [currencyPair, openPositions],
+  );
+
+  // Correlation check of the calculated trade against open positions with a known risk
+  const tradeCorrelation = useMemo(() => {
+    const trade = scaleInResults ?? results;
+    if (!trade || openPositions.length === 0) {
+      return null;
     }
+    return calculateCorrelationRisk({
+      matrix: correlationMatrix,
+      threshold: typeof correlationThreshold === 'number' ? correlationThreshold : CORRELATION_WARNING_THRESHOLD,
+      accountSize: typeof accountSize === 'number' ? accountSize : 0,
+      newTrade: { id: 'new', symbol: currencyPair.symbol, tradeType, riskAmount: trade.totalRiskAmount },
+      lotSize: scaleInResults ? scaleInResults.totalLotSize : results?.finalLotSize ?? 0,
+      currencyPair,
+      positions: openPositions.flatMap((p, index) => {
+        const riskAmount = tradePortfolio.positions[index]?.riskAmount;
+        return typeof riskAmount === 'number'
+          ? [{ id: p.id, symbol: p.currencyPair.symbol, tradeType: p.tradeType, riskAmount }]
+          : [];
+      }),
+    });
+  }, [scaleInResults, results, openPositions, correlationMatrix, correlationThreshold, accountSize, currencyPair, tradeType, tradePortfolio]);
+
+  // Journal statistics over the closed trades matching the filter
+  const journalEntries = useMemo(() => filterJournalEntries(history, journalFilter), [history, journalFilter]);
+  const journalStats = useMemo(() => calculateJournalStats(journalEntries), [journalEntries]);
+  const journalRMultiples = useMemo(
+    () => journalEntries.map((entry) => entry.journal.outcome.rMultiple).filter((r): r is number => r !== null),
+    [journalEntries],
+  );
+  const journalSymbols = useMemo(
+    () => Array.from(new Set(history.filter((entry) => entry.journal?.taken).map((entry) => entry.inputs.currencyPair.symbol))).sort(),
+    [history],
+  );
 
+  const historySymbols = useMemo(
+    () => Array.from(new Set(history.map((entry) => entry.inputs.currencyPair.symbol))).sort(),
+    [history],
+  );
+  const historyProfiles = useMemo(() => {
+    const names = new Map<string, string>();
+    history.forEach((entry) => {
+      if (entry.profile && !names.has(entry.profile.id)) {
+        names.set(entry.profile.id, entry.profile.name);
+      }
+    });
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [history]);
 
-    const inputs: CalculationInputs = {
+  const performCalculation = useCallback(() => {
+    // Clear previous errors if any before new calculation attempt
+    setCalcErrors(null);
+
+    // Empty fields are passed as 0 so the service reports them with a precise error code
+    const sharedInputs = {
       accountCurrency,
-      accountSize: accountSize,
+      accountSize: typeof accountSize === 'number' ? accountSize : 0,
       leverage,
+      leverageSchedule,
       riskType,
-      riskValue: riskValue,
+      riskValue: typeof riskValue === 'number' ? riskValue : 0,
       currencyPair,
-      entryPrice: entryPrice,
-      stopLossPrice: effectiveStopLossPriceForCalc,
-      takeProfitPrice: typeof effectiveTakeProfitPriceForCalc === 'number' && effectiveTakeProfitPriceForCalc > 0 ? effectiveTakeProfitPriceForCalc : undefined,
+      stopLossPrice: typeof effectiveStopLossPriceForCalc === 'number' ? effectiveStopLossPriceForCalc : 0,
       tradeType,
+      lotRounding,
+      lotRules,
+      spreadPips: typeof spreadPips === 'number' ? spreadPips : 0,
+      commission: typeof commission === 'number' ? commission : 0,
+      commissionType,
+      exchangeRates,
+      equity: typeof equity === 'number' ? equity : 0,
+      usedMargin: typeof usedMargin === 'number' ? usedMargin : 0,
+      marginCallLevel: typeof marginCallLevel === 'number' ? marginCallLevel : 0,
+      stopOutLevel: typeof stopOutLevel === 'number' ? stopOutLevel : 0,
+      riskLimit: toRiskLimit(propFirmCheck),
     };
 
-    const calculatedResults = calculateLotSize(inputs);
+    // Saves the calculation to history, with the form it was made from
+    const addHistoryEntry = (calculated: Pick<HistoryEntry, 'results' | 'scaleInResults' | 'reverseResults'>) => {
+      const newHistoryEntry: HistoryEntry = {
+        id: Date.now().toString(), // Simple unique ID
+        timestamp: new Date().toISOString(),
+        inputs: {
+          accountCurrency,
+          accountSize,
+          leverage,
+          ...(useLeverageSchedule ? { leverageSchedule } : {}),
+          riskType,
+          riskValue,
+          currencyPair,
+          tradeType,
+          lotRounding,
+          lotRules,
+          spreadPips,
+          commission,
+          commissionType,
+          priceBasis,
+          equity,
+          usedMargin,
+          marginCallLevel,
+          stopOutLevel,
+          entryPrice,
+          stopLossPriceInput,
+          stopLossPipsInput,
+          takeProfitTargets,
+          lastEditedSLField,
+          stopLossMode,
+          atrMultiplier,
+          atrPeriod,
+          atrTimeframe,
+          sizing: sizingForm,
+          entryMode,
+          ...(entryMode === 'scaleIn' ? { scaleInEntries } : {}),
+          ...(solveMode !== 'lotSize' ? { solveMode, fixedLotSize } : {}),
+        },
+        ...calculated,
+        ...(activeAccountProfile ? { profile: { id: activeAccountProfile.id, name: activeAccountProfile.name } } : {}),
+      };
+      setHistory((prevHistory) => [newHistoryEntry, ...prevHistory]);
+      saveHistoryEntries([newHistoryEntry]);
+    };
 
-    // Post-calculation validation from the service results
-    if (calculatedResults && (calculatedResults.finalLotSize <= 0 || isNaN(calculatedResults.finalLotSize) || isNaN(calculatedResults.totalRiskAmount) || isNaN(calculatedResults.marginRequired))) {
+    if (solveMode !== 'lotSize') {
+      const outcome = calculateReverse({
+        ...sharedInputs,
+        solveFor: solveMode,
+        lotSize: typeof fixedLotSize === 'number' ? fixedLotSize : 0,
+        entryPrice: typeof entryPrice === 'number' ? entryPrice : 0,
+        priceBasis,
+      });
       setResults(null);
-      setCalcError("Calculation failed: Please ensure Stop Loss Price is significantly different from Entry Price, and all input values are appropriate for a valid trade. Risk per pip might be extremely low, leading to negligible lot size.");
-      console.log("Calculation resulted in invalid data, not adding to history.", calculatedResults);
-    } else {
-      setResults(calculatedResults);
-      // Add to history logic
-      if (calculatedResults && calculatedResults.finalLotSize > 0) { // This check should be sufficient now
-        const newHistoryEntry: HistoryEntry = {
-          id: Date.now().toString(), // Simple unique ID
-          timestamp: new Date().toLocaleString(),
-          inputs: {
-            accountCurrency,
-            accountSize,
-            leverage,
-            riskType,
-            riskValue,
-            currencyPair,
-            tradeType,
-            entryPrice,
-            stopLossPriceInput,
-            stopLossPipsInput,
-            takeProfitPriceInput,
-            takeProfitPipsInput,
-            lastEditedSLField,
-            lastEditedTPField,
-          },
-          results: calculatedResults,
-        };
-        setHistory((prevHistory) => [newHistoryEntry, ...prevHistory].slice(0, 10)); // Keep last 10 entries
+      setScaleInResults(null);
+      if (outcome.success === false) {
+        setCalcErrors(outcome.errors);
+        setCalcWarnings([]);
+        setReverseResults(null);
+      } else {
+        setCalcWarnings(outcome.warnings);
+        setReverseResults(outcome.results);
+        addHistoryEntry({ results: null, reverseResults: outcome.results });
+      }
+      return;
+    }
+    setReverseResults(null);
+
+    // A sizing model replaces the entered risk with the amount it derives
+    let sizing: SizingResult | undefined;
+    if (sizingForm.model !== 'fixed') {
+      const sizingOutcome = calculateSizingRisk({
+        model: sizingForm.model,
+        accountSize: sharedInputs.accountSize,
+        winRate: typeof sizingForm.winRate === 'number' ? sizingForm.winRate : 0,
+        averageWinR: typeof sizingForm.averageWinR === 'number' ? sizingForm.averageWinR : 0,
+        fraction: typeof sizingForm.fraction === 'number' ? sizingForm.fraction : 0,
+        startingBalance: typeof sizingForm.startingBalance === 'number' ? sizingForm.startingBalance : 0,
+        delta: typeof sizingForm.delta === 'number' ? sizingForm.delta : 0,
+        riskPerUnit: typeof sizingForm.riskPerUnit === 'number' ? sizingForm.riskPerUnit : 0,
+        tradeResults: parseTradeResults(sizingForm.tradeResults),
+      });
+      if (sizingOutcome.success === false) {
+        setResults(null);
+        setScaleInResults(null);
+        setCalcWarnings([]);
+        setCalcErrors(sizingOutcome.errors);
+        return;
+      }
+      sizing = sizingOutcome.results;
+    }
+    const sizedInputs = sizing
+      ? { ...sharedInputs, riskType: 'amount' as RiskType, riskValue: sizing.riskAmount }
+      : sharedInputs;
+
+    if (entryMode === 'scaleIn') {
+      const outcome = calculateScaleInPlan({
+        ...sizedInputs,
+        priceBasis,
+        // Keep every row so error indexes line up with the form
+        entries: scaleInEntries.map((e) => ({
+          price: typeof e.price === 'number' ? e.price : 0,
+          weight: typeof e.weight === 'number' ? e.weight : 0,
+        })),
+      });
+      setResults(null);
+      setCalcWarnings([]);
+      if (outcome.success === false) {
+        setCalcErrors(outcome.errors);
+        setScaleInResults(null);
       } else {
-        // This else block might be redundant now if the above 'if' handles all invalid calcResults
-        console.log("Calculation resulted in invalid data (finalLotSize was 0 or invalid), not adding to history.", calculatedResults);
+        const calculatedScaleIn: ScaleInResults = { ...outcome.results, sizing };
+        setScaleInResults(calculatedScaleIn);
+        addHistoryEntry({ results: null, scaleInResults: calculatedScaleIn });
       }
+      return;
     }
+    setScaleInResults(null);
+
+    const inputs: CalculationInputs = {
+      ...sizedInputs,
+      entryPrice: typeof entryPrice === 'number' ? entryPrice : 0,
+      priceBasis,
+      // Keep every row so error indexes line up with the form
+      takeProfitTargets: takeProfitTargets.map((t) => ({
+        price: typeof t.priceInput === 'number' ? t.priceInput : 0,
+        closePercent: typeof t.closePercent === 'number' ? t.closePercent : 0,
+      })),
+    };
+
+    const outcome = calculateLotSize(inputs);
+    if (outcome.success === false) {
+      setResults(null);
+      setCalcWarnings([]);
+      setCalcErrors(outcome.errors);
+      return;
+    }
+
+    const calculatedResults: CalculationResults = { ...outcome.results, sizing };
+    setResults(calculatedResults);
+    setCalcWarnings(outcome.warnings);
+
+    addHistoryEntry({ results: calculatedResults });
   }, [ // dependencies
       accountCurrency,
       accountSize,
       leverage,
+      leverageSchedule,
+      useLeverageSchedule,
       riskType,
       riskValue,
       currencyPair,
       entryPrice,
       effectiveStopLossPriceForCalc,
-      effectiveTakeProfitPriceForCalc,
+      takeProfitTargets,
       tradeType,
+      lotRounding,
+      lotRules,
+      spreadPips,
+      commission,
+      commissionType,
+      priceBasis,
+      equity,
+      usedMargin,
+      marginCallLevel,
+      stopOutLevel,
       stopLossPriceInput,
       stopLossPipsInput,
-      takeProfitPriceInput,
-      takeProfitPipsInput,
       lastEditedSLField,
-      lastEditedTPField,
-      getPipsFromPrices,
-      getPairPipMultiplier,
+      entryMode,
+      scaleInEntries,
+      exchangeRates,
+      solveMode,
+      fixedLotSize,
+      stopLossMode,
+      atrMultiplier,
+      atrPeriod,
+      atrTimeframe,
+      sizingForm,
+      propFirmCheck,
+      activeAccountProfile,
+      saveHistoryEntries,
   ]);
 
   // Effect to re-sync SL/TP inputs when entryPrice, currencyPair, or tradeType changes
@@ -411,11 +1146,6 @@ function App() {
       setStopLossPipsInput('');
       setEffectiveStopLossPriceForCalc('');
       setLastEditedSLField(null);
-
-      setTakeProfitPriceInput('');
-      setTakeProfitPipsInput('');
-      setEffectiveTakeProfitPriceForCalc('');
-      setLastEditedTPField(null);
       return;
     }
 
@@ -439,23 +1169,6 @@ function App() {
       setLastEditedSLField(null);
     }
 
-    // --- Take Profit Resync ---
-    if (lastEditedTPField === 'price' && typeof takeProfitPriceInput === 'number' && takeProfitPriceInput > 0) {
-      const derivedPips = getPipsFromPrices(currentEntryPrice, takeProfitPriceInput, currencyPair);
-      setTakeProfitPipsInput(derivedPips);
-      setEffectiveTakeProfitPriceForCalc(takeProfitPriceInput);
-    } else if (lastEditedTPField === 'pips' && typeof takeProfitPipsInput === 'number' && takeProfitPipsInput >= 0) {
-      const derivedPrice = getPriceFromPips(currentEntryPrice, takeProfitPipsInput, currencyPair, tradeType, false);
-      setTakeProfitPriceInput(derivedPrice);
-      setEffectiveTakeProfitPriceForCalc(derivedPrice);
-    } else {
-      // Clear or reset for TP
-      setTakeProfitPriceInput('');
-      setTakeProfitPipsInput('');
-      setEffectiveTakeProfitPriceForCalc('');
-      setLastEditedTPField(null);
-    }
-
   }, [
     entryPrice,
     currencyPair,
@@ -463,122 +1176,478 @@ function App() {
     lastEditedSLField,
     stopLossPriceInput,
     stopLossPipsInput,
-    lastEditedTPField,
-    takeProfitPriceInput,
-    takeProfitPipsInput,
     getPipsFromPrices,
     getPriceFromPips,
   ]);
 
+  // Effect to re-sync every TP target when entryPrice, currencyPair, or tradeType changes.
+  // Uses a functional update so the targets themselves are not a dependency.
+  useEffect(() => {
+    setTakeProfitTargets((prevTargets) => prevTargets.map((target) => {
+      if (typeof entryPrice !== 'number' || entryPrice <= 0 || !currencyPair || !currencyPair.symbol) {
+        return { ...target, priceInput: '', pipsInput: '', lastEditedField: null };
+      }
+      if (target.lastEditedField === 'price' && typeof target.priceInput === 'number' && target.priceInput > 0) {
+        return { ...target, pipsInput: getPipsFromPrices(entryPrice, target.priceInput, currencyPair) };
+      } else if (target.lastEditedField === 'pips' && typeof target.pipsInput === 'number' && target.pipsInput >= 0) {
+        return { ...target, priceInput: getPriceFromPips(entryPrice, target.pipsInput, currencyPair, tradeType, false) };
+      }
+      return { ...target, priceInput: '', pipsInput: '', lastEditedField: null };
+    }));
+  }, [entryPrice, currencyPair, tradeType, getPipsFromPrices, getPriceFromPips]);
+
   // --- Input Change Handlers ---
   const handleAccountCurrencyChange = (value: AccountCurrency) => {
     setAccountCurrency(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
   };
   const handleAccountSizeChange = (value: number | '') => {
     setAccountSize(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
+  };
+  const handleLeverageChange = (value: string) => {
+    setLeverageInput(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleUseLeverageScheduleChange = (enabled: boolean) => {
+    setUseLeverageSchedule(enabled);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleLeverageScheduleChange = (category: string, value: string) => {
+    setLeverageScheduleInputs((prev) => ({ ...prev, [category]: value }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleLotRoundingChange = (value: LotRoundingPolicy) => {
+    setLotRounding(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleLotRuleChange = (field: keyof BrokerLotRules, value: number | '') => {
+    setLotRules((prev) => ({ ...prev, [field]: value }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleSpreadPipsChange = (value: number | '') => {
+    setSpreadPips(value);
+    setSpreadEdited(value !== ''); // Clearing the field hands the spread back to the quote feed
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleCommissionChange = (value: number | '') => {
+    setCommission(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleCommissionTypeChange = (value: CommissionType) => {
+    setCommissionType(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handlePriceBasisChange = (value: PriceBasis) => {
+    setPriceBasis(value);
+    setPriceBasisChosen(true);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleEquityChange = (value: number | '') => {
+    setEquity(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleUsedMarginChange = (value: number | '') => {
+    setUsedMargin(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleMarginCallLevelChange = (value: number | '') => {
+    setMarginCallLevel(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleStopOutLevelChange = (value: number | '') => {
+    setStopOutLevel(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleMarketDataProviderChange = (value: MarketDataProviderId) => {
+    setMarketDataSettings((prev) => ({ ...prev, providerId: value }));
+  };
+  const handleMarketDataConnect = () => {
+    setMarketDataSettings((prev) => ({ ...prev, url: marketDataUrlInput.trim() }));
+    setMarketDataRetryKey((key) => key + 1);
+  };
+  const updateLocalRates = (update: (rows: LocalExchangeRateInput[]) => LocalExchangeRateInput[]) => {
+    setRateSettings((prev) => ({ ...prev, localRates: update(prev.localRates) }));
+  };
+  const handleRateProviderChange = (value: ExchangeRateProviderId) => {
+    setRateSettings((prev) => ({ ...prev, providerId: value }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleLocalRateCurrencyChange = (id: string, value: string) => {
+    updateLocalRates((prev) => prev.map((row) => (
+      row.id === id ? { ...row, currency: value.toUpperCase(), updatedAt: Date.now() } : row
+    )));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleLocalRateValueChange = (id: string, value: number | '') => {
+    updateLocalRates((prev) => prev.map((row) => (
+      row.id === id ? { ...row, rateToUSD: value, updatedAt: Date.now() } : row
+    )));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleAddLocalRate = () => {
+    updateLocalRates((prev) => [...prev, createLocalExchangeRate('', '', Date.now())]);
+  };
+  const handleRemoveLocalRate = (id: string) => {
+    updateLocalRates((prev) => prev.filter((row) => row.id !== id));
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
-  const handleLeverageChange = (value: Leverage) => {
-    setLeverage(value);
+  const handleLoadRates = () => {
+    setRateSettings((prev) => ({ ...prev, endpointUrl: rateEndpointUrlInput.trim() }));
+    setRateRefreshKey((key) => key + 1);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
   };
+  const handleSizingModelChange = (model: SizingModel) => {
+    setSizingForm((prev) => ({ ...prev, model }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleSizingNumberChange = (field: Exclude<keyof SizingFormInputs, 'model' | 'tradeResults'>, value: number | '') => {
+    setSizingForm((prev) => ({ ...prev, [field]: value }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleSizingTradeResultsChange = (value: string) => {
+    setSizingForm((prev) => ({ ...prev, tradeResults: value }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
   const handleRiskTypeChange = (value: RiskType) => {
     setRiskType(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
   };
   const handleRiskValueChange = (value: number | '') => {
     setRiskValue(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
   };
   const handleCurrencyPairInputSymbolChange = (value: string) => {
     setCurrencyPairInputSymbol(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
   };
   const handleTradeTypeChange = (value: TradeType) => {
     setTradeType(value);
     setHasCalculated(false);
-    setCalcError(null);
+    setCalcErrors(null);
+  };
+
+  const handleSolveModeChange = (value: SolveMode) => {
+    setSolveMode(value);
+    if (value !== 'lotSize') {
+      setEntryMode('single'); // Reverse modes solve a single entry
+      if (fixedLotSize === '') {
+        setFixedLotSize(brokerPair.minLot || '');
+      }
+    }
+    if (value === 'accountSize') {
+      setRiskType('percentage'); // The account size is solved from a target percentage
+    }
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  const handleFixedLotSizeChange = (value: number | '') => {
+    setFixedLotSize(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleEntryModeChange = (value: EntryMode) => {
+    setEntryMode(value);
+    if (value === 'scaleIn' && scaleInEntries.length === 0) {
+      // Seed the plan with the current entry price and one more level to fill in
+      setScaleInEntries([createScaleInEntry(entryPrice), createScaleInEntry('')]);
+    }
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleScaleInPriceChange = (id: string, value: number | '') => {
+    setScaleInEntries((prevEntries) => prevEntries.map((entry) => (
+      entry.id === id ? { ...entry, price: value } : entry
+    )));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleScaleInWeightChange = (id: string, value: number | '') => {
+    setScaleInEntries((prevEntries) => prevEntries.map((entry) => (
+      entry.id === id ? { ...entry, weight: value } : entry
+    )));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleAddScaleInEntry = () => {
+    setScaleInEntries((prevEntries) => [...prevEntries, createScaleInEntry('')]);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleRemoveScaleInEntry = (id: string) => {
+    setScaleInEntries((prevEntries) => prevEntries.filter((entry) => entry.id !== id));
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
 
   const handleEntryPriceChange = (value: number | '') => {
     setEntryPrice(value);
+    setLockEntryPrice(true); // A typed price should not be overwritten by the next quote
     setHasCalculated(false); // Reset calculation status on major input change
-    setCalcError(null); // Clear error on input change
+    setCalcErrors(null); // Clear error on input change
   };
 
   const handleSLPriceInputChange = (value: number | '') => {
     updateSLValues('price', value);
+    setStopLossMode('manual'); // A typed stop replaces the ATR suggestion
     setHasCalculated(false); // Reset calculation status on major input change
-    setCalcError(null); // Clear error on input change
+    setCalcErrors(null); // Clear error on input change
   };
 
   const handleSLPipsInputChange = (value: number | '') => {
     updateSLValues('pips', value);
+    setStopLossMode('manual');
     setHasCalculated(false); // Reset calculation status on major input change
-    setCalcError(null); // Clear error on input change
+    setCalcErrors(null); // Clear error on input change
   };
 
-  const handleTPPriceInputChange = (value: number | '') => {
-    updateTPValues('price', value);
-    setHasCalculated(false); // Reset calculation status on major input change
-    setCalcError(null); // Clear error on input change
+  const handleStopLossModeChange = (mode: StopLossMode) => {
+    setStopLossMode(mode);
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
 
-  const handleTPPipsInputChange = (value: number | '') => {
-    updateTPValues('pips', value);
-    setHasCalculated(false); // Reset calculation status on major input change
-    setCalcError(null); // Clear error on input change
+  const handleAtrMultiplierChange = (value: number | '') => {
+    setAtrMultiplier(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
-  // --- End Input Change Handlers ---
 
-  // NEW: Handle the calculate button click
-  const handleCalculate = () => {
-    setHasCalculated(true);
-    performCalculation();
-    setShowResults(true); // Switch view to results
-    window.scrollTo({ top: 0, behavior: 'smooth' }); // Scroll to top
+  const handleAtrPeriodChange = (value: number | '') => {
+    setAtrPeriod(value);
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
 
+  const handleAtrTimeframeChange = (timeframe: AtrTimeframe) => {
+    setAtrTimeframe(timeframe);
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
 
-  const getRiskLevel = (effectiveRiskPercentage: number): RiskLevel => {
-    if (effectiveRiskPercentage <= RISK_PERCENTAGE_THRESHOLDS.LOW_MAX) {
-      return RiskLevel.LOW;
-    } else if (effectiveRiskPercentage <= RISK_PERCENTAGE_THRESHOLDS.MEDIUM_MAX) {
-      return RiskLevel.MEDIUM;
-    } else {
-      return RiskLevel.HIGH;
+  const handleImportOhlcFile = (file: File) => {
+    const symbol = currencyPair.symbol;
+    setOhlcError(null);
+    setOhlcStatus(null);
+    if (!symbol) {
+      setOhlcError('Select an instrument before importing its candles.');
+      return;
     }
+    file.text()
+      .then((text) => {
+        const imported = importOhlcCsv(text);
+        setOhlcData((prev) => ({ ...prev, [symbol]: mergeCandles(prev[symbol] ?? [], imported) }));
+        const timeframe = detectTimeframe(imported);
+        if (timeframe) {
+          setAtrTimeframe(timeframe); // Start from the imported timeframe; higher ones can be picked after
+        }
+        setOhlcStatus(`Imported ${imported.length} ${timeframe ? `${timeframe} ` : ''}candle${imported.length === 1 ? '' : 's'} for ${symbol} from ${file.name}.`);
+        setHasCalculated(false);
+      })
+      .catch((error: Error) => {
+        setOhlcError(`Could not import ${file.name}: ${error.message}`);
+      });
   };
 
-  const formatCurrency = (amount: number | null | undefined): string => {
-    if (amount === null || amount === undefined || isNaN(amount)) return 'N/A';
-    return amount.toLocaleString('en-US', {
-      style: 'currency',
-      currency: accountCurrency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+  const handleClearOhlcData = () => {
+    const symbol = currencyPair.symbol;
+    setOhlcData((prev) => {
+      const next = { ...prev };
+      delete next[symbol];
+      return next;
     });
+    setOhlcError(null);
+    setOhlcStatus(`Candles for ${symbol} cleared.`);
   };
 
-  const formatNumber = (num: number | null | undefined, decimals: number = 2): string => {
-    if (num === null || num === undefined || isNaN(num)) return 'N/A';
-    // For pips, typically 1 decimal place is common
-    return num.toFixed(decimals);
+  const handleTPPriceInputChange = (id: string, value: number | '') => {
+    updateTPValues(id, 'price', value);
+    setHasCalculated(false); // Reset calculation status on major input change
+    setCalcErrors(null); // Clear error on input change
   };
 
-  const formatLotSize = (lotSize: number | null | undefined): string => {
+  const handleTPPipsInputChange = (id: string, value: number | '') => {
+    updateTPValues(id, 'pips', value);
+    setHasCalculated(false); // Reset calculation status on major input change
+    setCalcErrors(null); // Clear error on input change
+  };
+
+  const handleTPClosePercentChange = (id: string, value: number | '') => {
+    setTakeProfitTargets((prevTargets) => prevTargets.map((target) => (
+      target.id === id ? { ...target, closePercent: value } : target
+    )));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleAddTPTarget = () => {
+    // Default the new target to whatever share of the position is still open
+    setTakeProfitTargets((prevTargets) => {
+      const allocated = prevTargets.reduce(
+        (sum, t) => sum + (typeof t.closePercent === 'number' ? t.closePercent : 0),
+        0,
+      );
+      const remaining = Math.max(0, 100 - allocated);
+      return [...prevTargets, createTakeProfitTarget(remaining > 0 ? remaining : '')];
+    });
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleRemoveTPTarget = (id: string) => {
+    setTakeProfitTargets((prevTargets) => prevTargets.filter((target) => target.id !== id));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+  // --- End Input Change Handlers ---
+
+  // NEW: Handle the calculate button click
+  const handleCalculate = () => {
+    setHasCalculated(true);
+    performCalculation();
+    setShowResults(true); // Switch view to results
+    window.scrollTo({ top: 0, behavior: 'smooth' }); // Scroll to top
+  };
+
+
+  const getRiskLevel = (effectiveRiskPercentage: number): RiskLevel => {
+    if (effectiveRiskPercentage <= RISK_PERCENTAGE_THRESHOLDS.LOW_MAX) {
+      return RiskLevel.LOW;
+    } else if (effectiveRiskPercentage <= RISK_PERCENTAGE_THRESHOLDS.MEDIUM_MAX) {
+      return RiskLevel.MEDIUM;
+    } else {
+      return RiskLevel.HIGH;
+    }
+  };
+
+  const formatCurrency = (amount: number | null | undefined, currency: string = accountCurrency): string => {
+    if (amount === null || amount === undefined || isNaN(amount)) return 'N/A';
+    const decimals = getCurrencyDecimals(currency);
+    try {
+      return amount.toLocaleString('en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      });
+    } catch {
+      // Non-ISO codes such as USDT are rejected by Intl; show the code after the amount instead
+      return `${amount.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${currency}`;
+    }
+  };
+
+  const formatNumber = (num: number | null | undefined, decimals: number = 2): string => {
+    if (num === null || num === undefined || isNaN(num)) return 'N/A';
+    // For pips, typically 1 decimal place is common
+    return num.toFixed(decimals);
+  };
+
+  const formatLotSize = (lotSize: number | null | undefined): string => {
     if (lotSize === null || lotSize === undefined || isNaN(lotSize)) return '0.00';
     // Ensure at least two decimal places for lot size
     return lotSize.toFixed(2);
   };
 
+  // --- Open Positions Handlers ---
+  const handleAddOpenPosition = () => {
+    setOpenPositions((prev) => [...prev, createOpenPosition(currencyPair, tradeType, '', entryPrice, '')]);
+  };
+
+  const handleOpenPositionTradeTypeChange = (id: string, value: TradeType) => {
+    setOpenPositions((prev) => prev.map((p) => (p.id === id ? { ...p, tradeType: value } : p)));
+  };
+
+  const handleOpenPositionFieldChange = (id: string, field: 'lotSize' | 'entryPrice' | 'stopLossPrice', value: number | '') => {
+    setOpenPositions((prev) => prev.map((p) => (p.id === id ? { ...p, [field]: value } : p)));
+  };
+
+  const handleRemoveOpenPosition = (id: string) => {
+    setOpenPositions((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  // --- Correlation Handlers ---
+  const handleCorrelationChange = (a: string, b: string, value: number) => {
+    setCorrelationMatrix((prev) => setCorrelation(prev, a, b, value));
+  };
+
+  const handleImportCorrelationFile = (file: File) => {
+    setCorrelationError(null);
+    setCorrelationStatus(null);
+    file.text()
+      .then((text) => {
+        const imported = importCorrelationCsv(text, correlationImportFormat);
+        // Imported pairs replace existing values; pairs missing from the file are kept
+        setCorrelationMatrix((prev) => {
+          const next = { ...prev };
+          Object.entries(imported).forEach(([symbol, row]) => {
+            next[symbol] = { ...prev[symbol], ...row };
+          });
+          return next;
+        });
+        const pairCount = Object.values(imported).reduce((sum, row) => sum + Object.keys(row).length, 0) / 2;
+        setCorrelationStatus(`Imported ${pairCount} correlation${pairCount === 1 ? '' : 's'} from ${file.name}.`);
+      })
+      .catch((error: Error) => {
+        setCorrelationError(`Could not import ${file.name}: ${error.message}`);
+      });
+  };
+
+  const handleResetCorrelations = () => {
+    setCorrelationMatrix(createCorrelationMatrix(DEFAULT_CORRELATIONS));
+    setCorrelationError(null);
+    setCorrelationStatus('Correlations reset to the built-in defaults.');
+  };
+
+  // Records the calculated trade as running; scale-in plans add one position per entry
+  const handleAddToOpenPositions = () => {
+    const stopLoss = typeof effectiveStopLossPriceForCalc === 'number' ? effectiveStopLossPriceForCalc : '';
+    if (scaleInResults) {
+      setOpenPositions((prev) => [
+        ...prev,
+        ...scaleInResults.entries.map((e) => createOpenPosition(currencyPair, tradeType, e.lots, e.price, stopLoss)),
+      ]);
+    } else if (results) {
+      setOpenPositions((prev) => [...prev, createOpenPosition(currencyPair, tradeType, results.finalLotSize, entryPrice, stopLoss)]);
+    } else {
+      return;
+    }
+    setLoadConfirmation('Trade added to open positions.');
+  };
+
   const handleCopyLotSize = () => {
     if (results?.finalLotSize) {
       navigator.clipboard.writeText(formatLotSize(results.finalLotSize)).then(
@@ -595,53 +1664,340 @@ function App() {
 
   // FIX: Handle clearing all history
   const handleClearHistory = () => {
-    if (window.confirm("Are you sure you want to clear all history?")) {
-      console.log("Clearing history...");
-      setHistory([]);
+    if (window.confirm("Are you sure you want to clear all history? Pinned entries are kept.")) {
+      const removedIds = history.filter((entry) => !entry.pinned).map((entry) => entry.id);
+      historyStore.remove(removedIds)
+        .then(() => setHistoryRevision((revision) => revision + 1))
+        .catch(() => {
+          setHistoryError('History could not be cleared.');
+        });
+      setHistory((prev) => prev.filter((entry) => entry.pinned));
+      setHistoryPage(0);
       setResults(null); // Clear current calculation results
       setHasCalculated(false); // Hide the results panel
-      setCalcError(null); // Clear any active error
-      console.log("History cleared. Results and calculation status reset.");
+      setCalcErrors(null); // Clear any active error
+    }
+  };
+
+  // Replaces an entry in the history and the store
+  const updateHistoryEntry = (updated: HistoryEntry) => {
+    setHistory((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+    saveHistoryEntries([updated]);
+  };
+
+  const handleDeleteHistoryEntry = (id: string) => {
+    historyStore.remove([id])
+      .then(() => setHistoryRevision((revision) => revision + 1))
+      .catch(() => {
+        setHistoryError('The entry could not be deleted.');
+      });
+    setHistory((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  const handleTogglePinned = (entry: HistoryEntry) => {
+    updateHistoryEntry({ ...entry, pinned: !entry.pinned });
+  };
+
+  const handleEditNotes = (id: string) => {
+    setNotesEditingId((prev) => (prev === id ? null : id));
+  };
+
+  const handleSaveNotes = (entry: HistoryEntry, notes: string) => {
+    updateHistoryEntry({ ...entry, notes });
+    setNotesEditingId(null);
+  };
+
+  const handleHistoryFilterChange = <K extends keyof HistoryFilter>(field: K, value: HistoryFilter[K]) => {
+    setHistoryFilter((prev) => ({ ...prev, [field]: value }));
+    setHistoryPage(0);
+  };
+
+  const handleEditJournal = (id: string) => {
+    setJournalEditingId((prev) => (prev === id ? null : id));
+    setJournalErrors([]);
+  };
+
+  const handleCancelJournal = () => {
+    setJournalEditingId(null);
+    setJournalErrors([]);
+  };
+
+  const handleSaveJournal = (id: string, draft: Omit<TradeJournal, 'outcome'>) => {
+    const entry = history.find((e) => e.id === id);
+    if (!entry) {
+      return;
+    }
+    let outcome: TradeJournal['outcome'] = null;
+    // The outcome is computed once the trade has both a fill and an exit
+    if (draft.taken && draft.exitPrice !== '') {
+      const result = calculateTradeOutcome(entry, draft);
+      if (result.success === false) {
+        setJournalErrors(result.errors);
+        return;
+      }
+      outcome = result.results;
+    }
+    updateHistoryEntry({ ...entry, journal: { ...draft, outcome } });
+    setJournalEditingId(null);
+    setJournalErrors([]);
+  };
+
+  const handleJournalFilterChange = <K extends keyof JournalFilter>(field: K, value: JournalFilter[K]) => {
+    setJournalFilter((prev) => ({ ...prev, [field]: value }));
+  };
+
+  // Copies the filtered track record into the sizing model inputs
+  const handleUseJournalStatsForSizing = () => {
+    const { winRate, averageWinR, averageLossR } = journalStats;
+    setSizingForm((prev) => ({
+      ...prev,
+      winRate: parseFloat(winRate.toFixed(1)),
+      averageWinR: averageWinR !== null && averageLossR ? parseFloat((averageWinR / averageLossR).toFixed(2)) : prev.averageWinR,
+      tradeResults: journalEntries.map((entry) => entry.journal.outcome.netProfit.toFixed(2)).join(', '),
+    }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+    setLoadConfirmation('Journal statistics copied to the sizing model inputs.');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleMonteCarloNumberChange = (field: Exclude<keyof MonteCarloFormInputs, 'useJournalR'>, value: number | '') => {
+    setMonteCarloForm((prev) => ({ ...prev, [field]: value }));
+    setMonteCarloErrors([]);
+  };
+
+  const handleMonteCarloUseJournalRChange = (useJournalR: boolean) => {
+    setMonteCarloForm((prev) => ({ ...prev, useJournalR }));
+    setMonteCarloErrors([]);
+  };
+
+  const handleRunMonteCarlo = () => {
+    const toNumber = (value: number | '') => (typeof value === 'number' ? value : 0);
+    const outcome = runMonteCarlo({
+      startingBalance: toNumber(accountSize),
+      riskPercentage: toNumber(monteCarloForm.riskPercentage),
+      tradeCount: toNumber(monteCarloForm.tradeCount),
+      runCount: toNumber(monteCarloForm.runCount),
+      seed: toNumber(monteCarloForm.seed),
+      winRate: toNumber(monteCarloForm.winRate),
+      averageRR: toNumber(monteCarloForm.averageRR),
+      rDistribution: monteCarloForm.useJournalR ? journalRMultiples : [],
+      drawdownLevel: toNumber(monteCarloForm.drawdownLevel),
+      ruinLevel: toNumber(monteCarloForm.ruinLevel),
+    });
+    if (outcome.success === false) {
+      setMonteCarloErrors(outcome.errors);
+      setMonteCarloResults(null);
+      return;
+    }
+    setMonteCarloErrors([]);
+    setMonteCarloResults(outcome.results);
+  };
+
+  // Plugs the simulated risk into the lot size calculation
+  const handleApplySimulatedRisk = () => {
+    if (!monteCarloResults) {
+      return;
     }
+    setRiskType('percentage');
+    setRiskValue(monteCarloResults.riskPercentage);
+    setSizingForm((prev) => ({ ...prev, model: 'fixed' }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+    setLoadConfirmation(`Risk set to ${monteCarloResults.riskPercentage}% per trade.`);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // The form's account fields, as saved in an account profile
+  const getAccountSettings = (): AccountSettings => ({
+    accountCurrency,
+    accountSize,
+    leverage: leverageInput,
+    leverageSchedule: useLeverageSchedule ? leverageScheduleInputs : null,
+    riskType,
+    riskValue,
+    lotRounding,
+    lotRules,
+    commission,
+    commissionType,
+    marginCallLevel,
+    stopOutLevel,
+  });
+
+  const handleAccountProfileChange = (id: string) => {
+    const profile = accountProfiles.find((p) => p.id === id);
+    setAccountProfileSettings((prev) => ({ ...prev, activeId: profile ? profile.id : '' }));
+    if (profile) {
+      applyAccountSettings(profile);
+      setLoadConfirmation(`Switched to ${profile.name}.`);
+    }
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleSaveAccountProfile = (name: string) => {
+    if (!name) {
+      return;
+    }
+    const profile: AccountProfile = { ...getAccountSettings(), id: Date.now().toString(), name };
+    setAccountProfileSettings((prev) => ({ profiles: [...prev.profiles, profile], activeId: profile.id }));
+    setLoadConfirmation(`Saved account profile ${name}.`);
+  };
+
+  const handleUpdateAccountProfile = () => {
+    if (!activeAccountProfile) {
+      return;
+    }
+    const settings = getAccountSettings();
+    setAccountProfileSettings((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === activeAccountProfile.id ? { ...p, ...settings } : p)),
+    }));
+    setLoadConfirmation(`Updated ${activeAccountProfile.name}.`);
+  };
+
+  const handleDeleteAccountProfile = (id: string) => {
+    setAccountProfileSettings((prev) => ({
+      profiles: prev.profiles.filter((p) => p.id !== id),
+      activeId: id === prev.activeId ? '' : prev.activeId,
+    }));
+  };
+
+  // Adds a rule profile, copied from a preset or blank, and makes it the active one
+  const handleAddPropFirmProfile = (presetId: string) => {
+    const preset = PROP_FIRM_PRESETS.find((p) => p.id === presetId);
+    const profile: PropFirmRules = {
+      ...(preset ?? {
+        name: 'Custom Rules',
+        dailyLossPercent: '',
+        dailyLossBasis: 'initial' as DailyLossBasis,
+        maxDrawdownPercent: '',
+        drawdownBasis: 'initial' as DrawdownBasis,
+        maxLotsPerTrade: '',
+      }),
+      id: Date.now().toString(),
+    };
+    setPropFirmSettings((prev) => ({ ...prev, profiles: [...prev.profiles, profile], activeId: profile.id }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleRemovePropFirmProfile = (id: string) => {
+    setPropFirmSettings((prev) => ({ ...prev, profiles: prev.profiles.filter((p) => p.id !== id), activeId: '' }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handleActivePropFirmChange = (id: string) => {
+    setPropFirmSettings((prev) => ({ ...prev, activeId: id }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  // Edits a field of the active profile
+  const handlePropFirmRuleChange = <K extends keyof PropFirmRules>(field: K, value: PropFirmRules[K]) => {
+    setPropFirmSettings((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === prev.activeId ? { ...p, [field]: value } : p)),
+    }));
+    setHasCalculated(false);
+    setCalcErrors(null);
+  };
+
+  const handlePropFirmStatusChange = (field: keyof PropFirmStatus, value: number | '') => {
+    setPropFirmSettings((prev) => ({ ...prev, status: { ...prev.status, [field]: value } }));
+    setHasCalculated(false);
+    setCalcErrors(null);
   };
 
   // NEW: Handle loading a history entry
   const handleLoadHistoryEntry = useCallback((entry: HistoryEntry) => {
     setAccountCurrency(entry.inputs.accountCurrency);
     setAccountSize(entry.inputs.accountSize);
-    setLeverage(entry.inputs.leverage);
+    setLeverageInput(entry.inputs.leverage);
+    setUseLeverageSchedule(!!entry.inputs.leverageSchedule);
+    if (entry.inputs.leverageSchedule) {
+      setLeverageScheduleInputs(entry.inputs.leverageSchedule);
+    }
     setRiskType(entry.inputs.riskType);
     setRiskValue(entry.inputs.riskValue);
+    loadedHistorySymbolRef.current = entry.inputs.currencyPair.symbol; // Stops the pair change from clearing the loaded levels
     setCurrencyPairInputSymbol(entry.inputs.currencyPair.symbol); // Load the symbol into TextInput
     setTradeType(entry.inputs.tradeType);
+    setLotRounding(entry.inputs.lotRounding ?? 'floor'); // Older entries predate rounding policies
+    setLotRules(entry.inputs.lotRules ?? DEFAULT_ACCOUNT_SETTINGS.lotRules);
+    setSpreadPips(entry.inputs.spreadPips ?? ''); // Older entries predate trading costs
+    setSpreadEdited(entry.inputs.spreadPips !== undefined && entry.inputs.spreadPips !== '');
+    setCommission(entry.inputs.commission ?? '');
+    setCommissionType(entry.inputs.commissionType ?? 'perLot');
+    setPriceBasis(entry.inputs.priceBasis ?? 'chart'); // Older entries were always chart prices
+    setPriceBasisChosen(true); // Keep the saved basis rather than the quote's
+    setEquity(entry.inputs.equity ?? ''); // Older entries predate margin simulation
+    setUsedMargin(entry.inputs.usedMargin ?? '');
+    setMarginCallLevel(entry.inputs.marginCallLevel ?? 100);
+    setStopOutLevel(entry.inputs.stopOutLevel ?? 50);
     setEntryPrice(entry.inputs.entryPrice);
+    setLockEntryPrice(true); // Keep the saved entry rather than the live quote
 
     setStopLossPriceInput(entry.inputs.stopLossPriceInput);
     setStopLossPipsInput(entry.inputs.stopLossPipsInput);
     setLastEditedSLField(entry.inputs.lastEditedSLField);
+    setStopLossMode(entry.inputs.stopLossMode ?? 'manual'); // Older entries predate ATR stops
+    setAtrMultiplier(entry.inputs.atrMultiplier ?? DEFAULT_ATR_MULTIPLIER);
+    setAtrPeriod(entry.inputs.atrPeriod ?? DEFAULT_ATR_PERIOD);
+    setAtrTimeframe(entry.inputs.atrTimeframe ?? 'D1');
+    if (entry.inputs.sizing) {
+      setSizingForm(entry.inputs.sizing);
+    } else {
+      setSizingForm((prev) => ({ ...prev, model: 'fixed' })); // Older entries used the entered risk
+    }
 
-    setTakeProfitPriceInput(entry.inputs.takeProfitPriceInput);
-    setTakeProfitPipsInput(entry.inputs.takeProfitPipsInput);
-    setLastEditedTPField(entry.inputs.lastEditedTPField);
+    if (entry.inputs.takeProfitTargets) {
+      setTakeProfitTargets(entry.inputs.takeProfitTargets);
+    } else {
+      // Entries saved before multiple targets carry a single TP that closes the whole position
+      setTakeProfitTargets([{
+        ...createTakeProfitTarget(100),
+        priceInput: entry.inputs.takeProfitPriceInput ?? '',
+        pipsInput: entry.inputs.takeProfitPipsInput ?? '',
+        lastEditedField: entry.inputs.lastEditedTPField ?? null,
+      }]);
+    }
     
     // Load result and switch to result view
+    setEntryMode(entry.inputs.entryMode ?? 'single');
+    if (entry.inputs.scaleInEntries) {
+      setScaleInEntries(entry.inputs.scaleInEntries);
+    }
+    setSolveMode(entry.inputs.solveMode ?? 'lotSize');
+    if (entry.inputs.fixedLotSize !== undefined) {
+      setFixedLotSize(entry.inputs.fixedLotSize);
+    }
+    setScaleInResults(entry.scaleInResults ?? null);
+    setReverseResults(entry.reverseResults ?? null);
     setResults(entry.results);
+    setCalcWarnings([]); // Live field checks cover the loaded levels
     setHasCalculated(true); 
     setShowResults(true); 
-    setCalcError(null); 
+    setCalcErrors(null); 
     
     // Show subtle confirmation message
     setLoadConfirmation('Calculation loaded successfully!');
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
-  // Dynamically get pipPriceStep using the new helper function
-  const pipPriceStep = getPairPipMultiplier(currencyPair.symbol);
+  // Price inputs step by the instrument's tick size
+  const pipPriceStep = currencyPair.tickSize || 0.00001;
   const pipsStep = 0.1; // Common step for pips input
 
   return (
     <div className="min-h-screen flex flex-col items-center py-8 px-4 sm:px-6 lg:px-8 bg-tst-white dark:bg-tst-black text-tst-black dark:text-tst-white transition-colors duration-300">
-      <div className="absolute top-4 right-4">
+      <div className="absolute top-4 right-4 flex items-center gap-2">
+        <AccountProfileSwitcher
+          profiles={accountProfiles}
+          activeId={activeAccountProfileId}
+          onChange={handleAccountProfileChange}
+        />
         <ThemeToggle />
       </div>
 
@@ -670,94 +2026,205 @@ function App() {
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
               <h2 className="text-2xl font-bold text-tst-blue mb-6">Trade Details</h2>
               <form>
+                <Dropdown<SolveMode>
+                  id="solveMode"
+                  label="Solve For"
+                  options={SOLVE_MODES}
+                  value={solveMode}
+                  onChange={handleSolveModeChange}
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Dropdown<AccountCurrency>
                     id="accountCurrency"
                     label="Account Currency"
-                    options={ACCOUNT_CURRENCIES}
+                    options={accountCurrencyOptions}
                     value={accountCurrency}
                     onChange={handleAccountCurrencyChange}
                   />
-                  <NumericInput
-                    id="accountSize"
-                    label="Account Size"
-                    value={accountSize}
-                    onChange={handleAccountSizeChange}
-                    min={0}
-                    step={100}
-                    placeholder="e.g., 10000"
-                    unit={accountCurrency}
-                  />
+                  {solveMode !== 'accountSize' && (
+                    <NumericInput
+                      id="accountSize"
+                      label="Account Size"
+                      value={accountSize}
+                      onChange={handleAccountSizeChange}
+                      min={0}
+                      step={getCurrencyDecimals(accountCurrency) > 2 ? 0.01 : 100}
+                      placeholder={getCurrencyDecimals(accountCurrency) > 2 ? 'e.g., 0.5' : 'e.g., 10000'}
+                      unit={accountCurrency}
+                    />
+                  )}
                 </div>
+                <FieldIssues issues={[...issuesForField('accountCurrency'), ...issuesForField('accountSize')]} />
 
-                <Dropdown<Leverage>
-                    id="leverage"
-                    label="Leverage"
-                    options={LEVERAGE_OPTIONS}
-                    value={leverage}
-                    onChange={handleLeverageChange}
+                <AutocompleteInput
+                  id="leverage"
+                  label="Leverage"
+                  value={leverageInput}
+                  onChange={handleLeverageChange}
+                  suggestions={LEVERAGE_OPTIONS.map((option) => option.label)}
+                  placeholder="e.g., 1:500 or 400"
                 />
-
-                <div className="mb-4">
-                  <label className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
-                    Risk Type
-                  </label>
-                  <div className="flex space-x-4">
-                    <label className="inline-flex items-center">
-                      <input
-                        type="radio"
-                        name="riskType"
-                        value="percentage"
-                        checked={riskType === 'percentage'}
-                        onChange={() => handleRiskTypeChange('percentage')}
-                        className="form-radio text-tst-blue h-4 w-4"
-                      />
-                      <span className="ml-2 text-tst-black dark:text-tst-white">Risk %</span>
-                    </label>
-                    <label className="inline-flex items-center">
-                      <input
-                        type="radio"
-                        name="riskType"
-                        value="amount"
-                        checked={riskType === 'amount'}
-                        onChange={() => handleRiskTypeChange('amount')}
-                        className="form-radio text-tst-blue h-4 w-4"
-                      />
-                      <span className="ml-2 text-tst-black dark:text-tst-white">Risk Amount</span>
-                    </label>
-                  </div>
-                </div>
-
-                <NumericInput
-                  id="riskValue"
-                  label={riskType === 'percentage' ? 'Risk Percentage' : 'Risk Amount'}
-                  value={riskValue}
-                  onChange={handleRiskValueChange}
-                  min={0.01}
-                  max={riskType === 'percentage' ? 100 : undefined} // Max 100% risk
-                  step={riskType === 'percentage' ? 0.1 : 1}
-                  placeholder={riskType === 'percentage' ? 'e.g., 1' : 'e.g., 100'}
-                  unit={riskType === 'percentage' ? '%' : accountCurrency}
+                <FieldIssues issues={issuesForField('leverage')} />
+
+                <LeverageScheduleEditor
+                  enabled={useLeverageSchedule}
+                  onEnabledChange={handleUseLeverageScheduleChange}
+                  categories={CURRENCY_PAIRS.map((category) => category.category)}
+                  values={leverageScheduleInputs}
+                  onValueChange={handleLeverageScheduleChange}
+                  activeCategory={findCurrencyPairCategory(currencyPair.symbol)}
                 />
 
-                {/* NEW: Real-time Risk Conversion Display (re-integrated here) */}
-                {typeof calculatedRiskAmountDisplay === 'number' && riskType === 'percentage' && (
-                  <div className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                    <span>Risk Amount: </span>
-                    <span className="font-semibold text-tst-black dark:text-tst-white">
-                      {formatCurrency(calculatedRiskAmountDisplay)}
-                    </span>
-                  </div>
+                {solveMode === 'lotSize' ? (
+                  <Dropdown<LotRoundingPolicy>
+                      id="lotRounding"
+                      label="Lot Rounding"
+                      options={LOT_ROUNDING_OPTIONS}
+                      value={lotRounding}
+                      onChange={handleLotRoundingChange}
+                  />
+                ) : (
+                  <>
+                    <NumericInput
+                      id="fixedLotSize"
+                      label="Lot Size"
+                      value={fixedLotSize}
+                      onChange={handleFixedLotSizeChange}
+                      min={0}
+                      step={brokerPair.lotStep || 0.01}
+                      placeholder={`e.g., ${brokerPair.minLot || 0.01}`}
+                      unit="lots"
+                    />
+                    <FieldIssues issues={issuesForField('lotSize')} />
+                  </>
                 )}
-                {typeof calculatedRiskPercentageDisplay === 'number' && riskType === 'amount' && (
-                  <div className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-                    <span>Risk Percentage: </span>
-                    <span className="font-semibold text-tst-black dark:text-tst-white">
-                      {formatNumber(calculatedRiskPercentageDisplay, 2)}%
-                    </span>
-                  </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <NumericInput
+                    id="brokerMinLot"
+                    label="Broker Min Lot"
+                    value={lotRules.minLot}
+                    onChange={(value) => handleLotRuleChange('minLot', value)}
+                    min={0}
+                    step={0.01}
+                    placeholder={`Instrument: ${currencyPair.minLot}`}
+                    unit="lots"
+                  />
+                  <NumericInput
+                    id="brokerMaxLot"
+                    label="Broker Max Lot"
+                    value={lotRules.maxLot}
+                    onChange={(value) => handleLotRuleChange('maxLot', value)}
+                    min={0}
+                    step={1}
+                    placeholder={`Instrument: ${currencyPair.maxLot}`}
+                    unit="lots"
+                  />
+                  <NumericInput
+                    id="brokerLotStep"
+                    label="Broker Lot Step"
+                    value={lotRules.lotStep}
+                    onChange={(value) => handleLotRuleChange('lotStep', value)}
+                    min={0}
+                    step={0.01}
+                    placeholder={`Instrument: ${currencyPair.lotStep}`}
+                    unit="lots"
+                  />
+                </div>
+                <FieldIssues issues={issuesForField('lotRules')} />
+
+                {solveMode !== 'risk' && (
+                  <>
+                    {solveMode === 'lotSize' && (
+                      <Dropdown<SizingModel>
+                        id="sizingModel"
+                        label="Sizing Model"
+                        options={SIZING_MODELS}
+                        value={sizingForm.model}
+                        onChange={handleSizingModelChange}
+                      />
+                    )}
+
+                    {solveMode !== 'lotSize' || sizingForm.model === 'fixed' ? (
+                      <>
+                        {solveMode !== 'accountSize' && (
+                          <div className="mb-4">
+                            <label className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
+                              Risk Type
+                            </label>
+                            <div className="flex space-x-4">
+                              <label className="inline-flex items-center">
+                                <input
+                                  type="radio"
+                                  name="riskType"
+                                  value="percentage"
+                                  checked={riskType === 'percentage'}
+                                  onChange={() => handleRiskTypeChange('percentage')}
+                                  className="form-radio text-tst-blue h-4 w-4"
+                                />
+                                <span className="ml-2 text-tst-black dark:text-tst-white">Risk %</span>
+                              </label>
+                              <label className="inline-flex items-center">
+                                <input
+                                  type="radio"
+                                  name="riskType"
+                                  value="amount"
+                                  checked={riskType === 'amount'}
+                                  onChange={() => handleRiskTypeChange('amount')}
+                                  className="form-radio text-tst-blue h-4 w-4"
+                                />
+                                <span className="ml-2 text-tst-black dark:text-tst-white">Risk Amount</span>
+                              </label>
+                            </div>
+                          </div>
+                        )}
+
+                        <NumericInput
+                          id="riskValue"
+                          label={solveMode === 'accountSize' ? 'Target Risk Percentage' : riskType === 'percentage' ? 'Risk Percentage' : 'Risk Amount'}
+                          value={riskValue}
+                          onChange={handleRiskValueChange}
+                          min={0.01}
+                          max={riskType === 'percentage' ? 100 : undefined} // Max 100% risk
+                          step={riskType === 'percentage' || getCurrencyDecimals(accountCurrency) > 2 ? 0.1 : 1}
+                          placeholder={riskType === 'percentage' ? 'e.g., 1' : 'e.g., 100'}
+                          unit={riskType === 'percentage' ? '%' : accountCurrency}
+                        />
+                        <FieldIssues issues={issuesForField('riskValue')} />
+
+                        {/* NEW: Real-time Risk Conversion Display (re-integrated here) */}
+                        {typeof calculatedRiskAmountDisplay === 'number' && riskType === 'percentage' && solveMode !== 'accountSize' && (
+                          <div className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                            <span>Risk Amount: </span>
+                            <span className="font-semibold text-tst-black dark:text-tst-white">
+                              {formatCurrency(calculatedRiskAmountDisplay)}
+                            </span>
+                          </div>
+                        )}
+                        {typeof calculatedRiskPercentageDisplay === 'number' && riskType === 'amount' && (
+                          <div className="mt-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                            <span>Risk Percentage: </span>
+                            <span className="font-semibold text-tst-black dark:text-tst-white">
+                              {formatNumber(calculatedRiskPercentageDisplay, 2)}%
+                            </span>
+                          </div>
+                        )}
+                        {/* End Real-time Risk Conversion Display */}
+                      </>
+                    ) : (
+                      <>
+                        <SizingModelSettings
+                          values={sizingForm}
+                          accountCurrency={accountCurrency}
+                          onNumberChange={handleSizingNumberChange}
+                          onTradeResultsChange={handleSizingTradeResultsChange}
+                        />
+                        <FieldIssues issues={issuesForField('sizing')} />
+                      </>
+                    )}
+                  </>
                 )}
-                {/* End Real-time Risk Conversion Display */}
 
                 {/* NEW: Currency Pair AutocompleteInput */}
                 <AutocompleteInput
@@ -768,6 +2235,7 @@ function App() {
                   suggestions={ALL_CURRENCY_PAIRS.map(pair => pair.symbol)}
                   placeholder="e.g., EUR/USD or XAU/USD"
                 />
+                <FieldIssues issues={issuesForField('currencyPair')} />
 
                 {/* NEW: Trade Type Buttons */}
                 <div className="mb-4">
@@ -800,62 +2268,264 @@ function App() {
                   </div>
                 </div>
 
+                {/* Entry Mode: Single entry or Scale-in */}
+                {solveMode === 'lotSize' && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
+                      Entry Mode
+                    </label>
+                    <div className="flex space-x-4">
+                      <label className="inline-flex items-center">
+                        <input
+                          type="radio"
+                          name="entryMode"
+                          value="single"
+                          checked={entryMode === 'single'}
+                          onChange={() => handleEntryModeChange('single')}
+                          className="form-radio text-tst-blue h-4 w-4"
+                        />
+                        <span className="ml-2 text-tst-black dark:text-tst-white">Single Entry</span>
+                      </label>
+                      <label className="inline-flex items-center">
+                        <input
+                          type="radio"
+                          name="entryMode"
+                          value="scaleIn"
+                          checked={entryMode === 'scaleIn'}
+                          onChange={() => handleEntryModeChange('scaleIn')}
+                          className="form-radio text-tst-blue h-4 w-4"
+                        />
+                        <span className="ml-2 text-tst-black dark:text-tst-white">Scale-In (Multiple Entries)</span>
+                      </label>
+                    </div>
+                  </div>
+                )}
+
                 {/* Entry Price */}
                 <NumericInput
                   id="entryPrice"
-                  label="Entry Price"
+                  label={entryMode === 'scaleIn' ? 'Reference Entry Price (for SL pips)' : 'Entry Price'}
                   value={entryPrice}
                   onChange={handleEntryPriceChange}
                   min={0}
                   step={pipPriceStep}
                   placeholder="e.g., 1.0700"
                 />
+                <MarketQuotePanel
+                  quote={quote}
+                  status={quoteStatus}
+                  error={quoteError}
+                  isStale={!!quote && quoteClock - quote.timestamp > QUOTE_STALE_AFTER_MS}
+                  digits={currencyPair.digits}
+                  now={quoteClock}
+                  lockEntryPrice={lockEntryPrice}
+                  onLockEntryPriceChange={setLockEntryPrice}
+                  onRefresh={() => setMarketDataRetryKey((key) => key + 1)}
+                />
+                <Dropdown<PriceBasis>
+                  id="priceBasis"
+                  label="Entry Price Basis"
+                  options={PRICE_BASIS_OPTIONS}
+                  value={priceBasis}
+                  onChange={handlePriceBasisChange}
+                />
+                <FieldIssues issues={issuesForField('entryPrice')} />
+
+                {entryMode === 'scaleIn' && (
+                  <ScaleInEntryList
+                    entries={scaleInEntries}
+                    onPriceChange={handleScaleInPriceChange}
+                    onWeightChange={handleScaleInWeightChange}
+                    onAdd={handleAddScaleInEntry}
+                    onRemove={handleRemoveScaleInEntry}
+                    issues={issuesForField('scaleInEntries')}
+                    priceStep={pipPriceStep}
+                  />
+                )}
 
                 {/* NEW: Stop Loss Price & Pips */}
-                <div className="grid grid-cols-2 gap-4 mb-4">
-                  <NumericInput
-                    id="stopLossPrice"
-                    label="Stop Loss Price"
-                    value={stopLossPriceInput}
-                    onChange={handleSLPriceInputChange}
-                    min={0}
-                    step={pipPriceStep}
-                    placeholder="e.g., 1.0650"
+                {solveMode !== 'stopLoss' && (
+                  <>
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
+                        Stop Loss Input
+                      </label>
+                      <div className="flex space-x-4">
+                        {STOP_LOSS_MODES.map((option) => (
+                          <label key={option.value} className="inline-flex items-center">
+                            <input
+                              type="radio"
+                              name="stopLossMode"
+                              value={option.value}
+                              checked={stopLossMode === option.value}
+                              onChange={() => handleStopLossModeChange(option.value)}
+                              className="form-radio text-tst-blue h-4 w-4"
+                            />
+                            <span className="ml-2 text-tst-black dark:text-tst-white">{option.label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    {stopLossMode === 'atr' && (
+                      <AtrStopLossSettings
+                        symbol={currencyPair.symbol}
+                        digits={currencyPair.digits}
+                        multiplier={atrMultiplier}
+                        onMultiplierChange={handleAtrMultiplierChange}
+                        period={atrPeriod}
+                        onPeriodChange={handleAtrPeriodChange}
+                        timeframe={atrTimeframe}
+                        onTimeframeChange={handleAtrTimeframeChange}
+                        storedCandleCount={ohlcData[currencyPair.symbol]?.length ?? 0}
+                        onImportFile={handleImportOhlcFile}
+                        onClear={handleClearOhlcData}
+                        atr={atrOutcome.atr}
+                        atrError={atrOutcome.error}
+                        importStatus={ohlcStatus}
+                        importError={ohlcError}
+                      />
+                    )}
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <NumericInput
+                        id="stopLossPrice"
+                        label="Stop Loss Price"
+                        value={stopLossPriceInput}
+                        onChange={handleSLPriceInputChange}
+                        min={0}
+                        step={pipPriceStep}
+                        placeholder="e.g., 1.0650"
+                      />
+                      <NumericInput
+                        id="stopLossPips"
+                        label="Stop Loss Pips"
+                        value={stopLossPipsInput}
+                        onChange={handleSLPipsInputChange}
+                        min={0}
+                        step={pipsStep}
+                        placeholder="e.g., 50"
+                        unit="pips"
+                      />
+                    </div>
+                    <FieldIssues issues={issuesForField('stopLoss')} />
+                  </>
+                )}
+
+                {/* Take Profit Targets: Price, Pips & Close % (single entry only) */}
+                {entryMode === 'single' && solveMode === 'lotSize' && (
+                  <TakeProfitTargetList
+                    targets={takeProfitTargets}
+                    onPriceChange={handleTPPriceInputChange}
+                    onPipsChange={handleTPPipsInputChange}
+                    onClosePercentChange={handleTPClosePercentChange}
+                    onAdd={handleAddTPTarget}
+                    onRemove={handleRemoveTPTarget}
+                    issues={issuesForField('takeProfit')}
+                    priceStep={pipPriceStep}
+                    pipsStep={pipsStep}
                   />
+                )}
+
+                {/* Trading Costs: Spread & Commission */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <NumericInput
-                    id="stopLossPips"
-                    label="Stop Loss Pips"
-                    value={stopLossPipsInput}
-                    onChange={handleSLPipsInputChange}
+                    id="spreadPips"
+                    label="Spread (Optional)"
+                    value={spreadPips}
+                    onChange={handleSpreadPipsChange}
                     min={0}
                     step={pipsStep}
-                    placeholder="e.g., 50"
+                    placeholder="e.g., 1.2"
                     unit="pips"
                   />
+                  <NumericInput
+                    id="commission"
+                    label={commissionType === 'perMillion' ? 'Commission per Million Notional (Optional)' : 'Commission per Lot (Optional)'}
+                    value={commission}
+                    onChange={handleCommissionChange}
+                    min={0}
+                    step={0.5}
+                    placeholder="e.g., 7"
+                    unit={accountCurrency}
+                  />
+                  <Dropdown<CommissionType>
+                    id="commissionType"
+                    label="Commission Basis"
+                    options={COMMISSION_TYPES}
+                    value={commissionType}
+                    onChange={handleCommissionTypeChange}
+                  />
                 </div>
 
-                {/* NEW: Take Profit Price & Pips */}
-                <div className="grid grid-cols-2 gap-4 mb-4">
+                {/* Account Margin: equity, margin in use and broker levels */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
                   <NumericInput
-                    id="takeProfitPrice"
-                    label="Take Profit Price (Optional)"
-                    value={takeProfitPriceInput}
-                    onChange={handleTPPriceInputChange}
+                    id="equity"
+                    label="Equity (Optional)"
+                    value={equity}
+                    onChange={handleEquityChange}
                     min={0}
-                    step={pipPriceStep}
-                    placeholder="e.g., 1.0800"
+                    step={100}
+                    placeholder={typeof accountSize === 'number' ? `${accountSize}` : 'Account Size'}
+                    unit={accountCurrency}
                   />
                   <NumericInput
-                    id="takeProfitPips"
-                    label="Take Profit Pips (Optional)"
-                    value={takeProfitPipsInput}
-                    onChange={handleTPPipsInputChange}
+                    id="usedMargin"
+                    label="Used Margin (Optional)"
+                    value={usedMargin}
+                    onChange={handleUsedMarginChange}
                     min={0}
-                    step={pipsStep}
+                    step={100}
+                    placeholder="e.g., 500"
+                    unit={accountCurrency}
+                  />
+                  <NumericInput
+                    id="marginCallLevel"
+                    label="Margin Call Level"
+                    value={marginCallLevel}
+                    onChange={handleMarginCallLevelChange}
+                    min={0}
+                    step={10}
                     placeholder="e.g., 100"
-                    unit="pips"
+                    unit="%"
+                  />
+                  <NumericInput
+                    id="stopOutLevel"
+                    label="Stop-Out Level"
+                    value={stopOutLevel}
+                    onChange={handleStopOutLevelChange}
+                    min={0}
+                    step={10}
+                    placeholder="e.g., 50"
+                    unit="%"
                   />
                 </div>
+                <FieldIssues issues={[...issuesForField('equity'), ...issuesForField('usedMargin'), ...issuesForField('marginLevels')]} />
+
+                {/* Price Feed */}
+                <MarketDataSettings
+                  providerId={marketDataProviderId}
+                  onProviderChange={handleMarketDataProviderChange}
+                  url={marketDataUrlInput}
+                  onUrlChange={setMarketDataUrlInput}
+                  onConnect={handleMarketDataConnect}
+                />
+
+                {/* Exchange Rates */}
+                <ExchangeRateSettings
+                  providerId={rateProviderId}
+                  onProviderChange={handleRateProviderChange}
+                  localRates={localRates}
+                  onLocalCurrencyChange={handleLocalRateCurrencyChange}
+                  onLocalRateChange={handleLocalRateValueChange}
+                  onAddLocalRate={handleAddLocalRate}
+                  onRemoveLocalRate={handleRemoveLocalRate}
+                  endpointUrl={rateEndpointUrlInput}
+                  onEndpointUrlChange={setRateEndpointUrlInput}
+                  onLoadRates={handleLoadRates}
+                  isLoading={ratesLoading}
+                  error={ratesError}
+                  rateCount={Object.keys(exchangeRates).length}
+                />
 
                 {/* NEW: Calculate Button */}
                 <div className="mt-6">
@@ -864,12 +2534,98 @@ function App() {
                     onClick={handleCalculate}
                     className="w-full px-6 py-3 bg-tst-blue hover:bg-tst-dark-blue text-white font-bold rounded-md shadow-md transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
                   >
-                    Calculate Lot Size
+                    {SOLVE_BUTTON_LABELS[solveMode]}
                   </button>
                 </div>
               </form>
             </div>
 
+            {/* Account Profiles Section - Visible on Form Page */}
+            <div className="w-full mt-8">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+                <h2 className="text-2xl font-bold text-tst-blue mb-6">Account Profiles</h2>
+                <AccountProfileManager
+                  profiles={accountProfiles}
+                  activeId={activeAccountProfileId}
+                  onSelect={handleAccountProfileChange}
+                  onDelete={handleDeleteAccountProfile}
+                  onSaveNew={handleSaveAccountProfile}
+                  onUpdateActive={handleUpdateAccountProfile}
+                  formatCurrency={formatCurrency}
+                />
+              </div>
+            </div>
+
+            {/* Prop-Firm Rules Section - Visible on Form Page */}
+            <div className="w-full mt-8">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+                <h2 className="text-2xl font-bold text-tst-blue mb-6">Prop-Firm Rules</h2>
+                <PropFirmSettings
+                  profiles={propFirmProfiles}
+                  activeId={activePropFirmId}
+                  onActiveChange={handleActivePropFirmChange}
+                  onAddProfile={handleAddPropFirmProfile}
+                  onRemoveProfile={handleRemovePropFirmProfile}
+                  onNameChange={(name) => handlePropFirmRuleChange('name', name)}
+                  onNumberChange={handlePropFirmRuleChange}
+                  onDailyLossBasisChange={(basis) => handlePropFirmRuleChange('dailyLossBasis', basis)}
+                  onDrawdownBasisChange={(basis) => handlePropFirmRuleChange('drawdownBasis', basis)}
+                  status={propFirmStatus}
+                  onStatusChange={handlePropFirmStatusChange}
+                  check={propFirmCheck}
+                  formatCurrency={formatCurrency}
+                />
+              </div>
+            </div>
+
+            {/* Open Positions Section - Visible on Form Page */}
+            <div className="w-full mt-8">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+                <h2 className="text-2xl font-bold text-tst-blue mb-6">Open Positions</h2>
+                <OpenPositionList
+                  positions={openPositions}
+                  risks={openPortfolio.positions}
+                  onTradeTypeChange={handleOpenPositionTradeTypeChange}
+                  onFieldChange={handleOpenPositionFieldChange}
+                  onAdd={handleAddOpenPosition}
+                  onRemove={handleRemoveOpenPosition}
+                  formatCurrency={formatCurrency}
+                />
+                <NumericInput
+                  id="exposureLimit"
+                  label="Exposure Limit per Currency"
+                  value={exposureLimit}
+                  onChange={setExposureLimit}
+                  min={0}
+                  step={50}
+                  placeholder="e.g., 500"
+                  unit="% of account"
+                />
+                {openPositions.length > 0 && (
+                  <PortfolioRiskPanel portfolio={openPortfolio} positionCount={openPositions.length} formatCurrency={formatCurrency} />
+                )}
+                <CurrencyExposurePanel
+                  exposure={openExposure}
+                  limitPercent={exposureLimit}
+                  accountCurrency={accountCurrency}
+                  formatCurrency={formatCurrency}
+                />
+                <CorrelationSettings
+                  symbols={correlationSymbols}
+                  matrix={correlationMatrix}
+                  onCorrelationChange={handleCorrelationChange}
+                  threshold={correlationThreshold}
+                  onThresholdChange={setCorrelationThreshold}
+                  importFormat={correlationImportFormat}
+                  onImportFormatChange={setCorrelationImportFormat}
+                  onImportFile={handleImportCorrelationFile}
+                  onReset={handleResetCorrelations}
+                  importStatus={correlationStatus}
+                  importError={correlationError}
+                />
+              </div>
+            </div>
+
             {/* Calculation History Section - Visible on Form Page */}
             <div className="w-full mt-8">
               <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
@@ -885,32 +2641,91 @@ function App() {
                   )}
                 </div>
 
+                {historyError && (
+                  <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded mb-6" role="alert">
+                    {historyError}
+                  </div>
+                )}
+
                 {history.length === 0 ? (
                   <p className="text-center text-gray-500 dark:text-gray-400 py-4">No history yet. Perform a calculation to save it!</p>
                 ) : (
-                  <div className="space-y-4">
-                    {history.map((entry) => (
-                      <div key={entry.id} className="bg-gray-100 dark:bg-gray-700 p-4 rounded-md shadow-sm flex flex-col md:flex-row justify-between items-start md:items-center gap-2">
-                        <div>
-                          <p className="text-sm font-semibold text-tst-black dark:text-tst-white">{entry.timestamp}</p>
-                          <p className="text-md text-gray-700 dark:text-gray-300">
-                            <span className="font-medium">{entry.inputs.currencyPair.symbol}</span> |&nbsp;
-                            <span className={`${entry.inputs.tradeType === 'buy' ? 'text-green-500' : 'text-red-500'} font-medium`}>
-                              {entry.inputs.tradeType.toUpperCase()}
-                            </span> |&nbsp;
-                            Lot: <span className="font-medium">{formatLotSize(entry.results?.finalLotSize)}</span> |&nbsp;
-                            Risk: <span className="font-medium">{formatCurrency(entry.results?.totalRiskAmount)}</span>
-                          </p>
-                        </div>
-                        <button
-                          onClick={() => handleLoadHistoryEntry(entry)}
-                          className="px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md shadow-sm transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
-                        >
-                          Load
-                        </button>
-                      </div>
-                    ))}
-                  </div>
+                  <>
+                    <HistoryFilters
+                      filter={historyFilter}
+                      onFilterChange={handleHistoryFilterChange}
+                      symbols={historySymbols}
+                      profiles={historyProfiles}
+                    />
+                    {historyListing.entries.length === 0 && (
+                      <p className="text-center text-gray-500 dark:text-gray-400 py-4">No entries match the search and filters.</p>
+                    )}
+                    <div className="space-y-4">
+                      {historyListing.entries.map((entry) => (
+                        <HistoryEntryCard
+                          key={entry.id}
+                          entry={entry}
+                          editingNotes={notesEditingId === entry.id}
+                          editingJournal={journalEditingId === entry.id}
+                          journalIssues={journalErrors}
+                          onTogglePinned={() => handleTogglePinned(entry)}
+                          onEditNotes={() => handleEditNotes(entry.id)}
+                          onSaveNotes={(notes) => handleSaveNotes(entry, notes)}
+                          onCancelNotes={() => setNotesEditingId(null)}
+                          onEditJournal={() => handleEditJournal(entry.id)}
+                          onSaveJournal={(draft) => handleSaveJournal(entry.id, draft)}
+                          onCancelJournal={handleCancelJournal}
+                          onLoad={() => handleLoadHistoryEntry(entry)}
+                          onDelete={() => handleDeleteHistoryEntry(entry.id)}
+                          formatCurrency={formatCurrency}
+                          formatLotSize={formatLotSize}
+                        />
+                      ))}
+                    </div>
+                    <Pagination page={historyPage} hasMore={historyListing.hasMore} onPageChange={setHistoryPage} />
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Journal Statistics - shown once any history entry is marked as taken */}
+            {journalSymbols.length > 0 && (
+              <div className="w-full mt-8">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+                  <h2 className="text-2xl font-bold text-tst-blue mb-6">Journal Statistics</h2>
+                  <JournalStatsPanel
+                    stats={journalStats}
+                    filter={journalFilter}
+                    onFilterChange={handleJournalFilterChange}
+                    symbols={journalSymbols}
+                    onUseForSizing={handleUseJournalStatsForSizing}
+                    formatCurrency={formatCurrency}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Monte Carlo risk-of-ruin simulator */}
+            <div className="w-full mt-8">
+              <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+                <h2 className="text-2xl font-bold text-tst-blue mb-2">Risk Simulator</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                  Simulates random trade sequences from {typeof accountSize === 'number' ? formatCurrency(accountSize) : 'the account size'} to show how a risk setting behaves over time.
+                </p>
+                <MonteCarloSettings
+                  values={monteCarloForm}
+                  onNumberChange={handleMonteCarloNumberChange}
+                  onUseJournalRChange={handleMonteCarloUseJournalRChange}
+                  journalTradeCount={journalRMultiples.length}
+                  onRun={handleRunMonteCarlo}
+                />
+                <FieldIssues issues={monteCarloErrors} />
+                {monteCarloResults && (
+                  <MonteCarloResultsPanel
+                    results={monteCarloResults}
+                    onApplyRisk={handleApplySimulatedRisk}
+                    formatCurrency={formatCurrency}
+                  />
                 )}
               </div>
             </div>
@@ -931,16 +2746,97 @@ function App() {
 
             <h2 className="text-2xl font-bold text-tst-blue mb-6">Calculation Results</h2>
 
-            {calcError ? (
+            {calcErrors ? (
               <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded relative mb-6" role="alert">
                 <strong className="font-bold">Calculation Error!</strong>
-                <span className="block sm:inline ml-2">{calcError}</span>
+                <ul className="mt-2 list-disc list-inside space-y-1">
+                  {calcErrors.map((issue, index) => (
+                    <li key={index}>{issue.message}</li>
+                  ))}
+                </ul>
               </div>
             ) : !hasCalculated ? (
               <div className="text-center text-gray-500 dark:text-gray-400 py-8">
                 <p className="text-lg mb-2">Enter your trade details and click "Calculate Lot Size" to see results.</p>
               </div>
-            ) : results && results.finalLotSize > 0 ? (
+            ) : reverseResults ? (
+              <div>
+                {calcWarnings.map((issue, index) => (
+                  <div key={index} className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+                    <strong className="font-bold">Warning:</strong>
+                    <span className="block sm:inline ml-2">{issue.message}</span>
+                  </div>
+                ))}
+                <ReverseResultsPanel
+                  results={reverseResults}
+                  symbol={currencyPair.symbol}
+                  digits={currencyPair.digits}
+                  formatCurrency={formatCurrency}
+                  formatNumber={formatNumber}
+                  formatLotSize={formatLotSize}
+                />
+                <ExchangeRatesUsed rates={reverseResults.exchangeRatesUsed} />
+              </div>
+            ) : scaleInResults ? (
+              <div>
+                <ScaleInResultsPanel
+                  results={scaleInResults}
+                  currencyPair={brokerPair}
+                  tradeType={tradeType}
+                  riskLevel={getRiskLevel(scaleInResults.effectiveRiskPercentage)}
+                  propFirmCheck={propFirmCheck}
+                  formatCurrency={formatCurrency}
+                  formatNumber={formatNumber}
+                  formatLotSize={formatLotSize}
+                />
+
+                {scaleInResults.sizing && (
+                  <SizingSummary sizing={scaleInResults.sizing} formatCurrency={formatCurrency} />
+                )}
+
+                {scaleInResults.marginAnalysis && (
+                  <MarginSummary
+                    analysis={scaleInResults.marginAnalysis}
+                    marginCallLevel={marginCallLevel}
+                    stopOutLevel={stopOutLevel}
+                    digits={currencyPair.digits}
+                    formatCurrency={formatCurrency}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+
+                {openPositions.length > 0 && (
+                  <PortfolioRiskPanel portfolio={tradePortfolio} positionCount={openPositions.length} formatCurrency={formatCurrency} />
+                )}
+                {tradeCorrelation && (
+                  <CorrelationRiskPanel
+                    correlation={tradeCorrelation}
+                    symbol={currencyPair.symbol}
+                    lotSize={scaleInResults.totalLotSize}
+                    formatCurrency={formatCurrency}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+                <CurrencyExposurePanel
+                  exposure={tradeExposure}
+                  limitPercent={exposureLimit}
+                  accountCurrency={accountCurrency}
+                  formatCurrency={formatCurrency}
+                />
+
+                <ExchangeRatesUsed rates={scaleInResults.exchangeRatesUsed} />
+
+                {/* Action Buttons */}
+                <div className="mt-8 flex justify-center">
+                  <button
+                    onClick={handleAddToOpenPositions}
+                    className="px-6 py-3 bg-tst-blue hover:bg-tst-dark-blue text-white font-bold rounded-md shadow-md transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+                  >
+                    Add to Open Positions
+                  </button>
+                </div>
+              </div>
+            ) : results ? (
               <div>
                 {/* Final Lot Size */}
                 <div className="bg-tst-blue text-tst-white p-6 rounded-lg text-center mb-6 shadow-md">
@@ -949,6 +2845,46 @@ function App() {
                   <p className="text-sm font-medium opacity-80 mt-1">({results.lotSizeCategory} lot)</p>
                 </div>
 
+                {results.marginAnalysis?.exceedsFreeMargin && (
+                  <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded mb-6" role="alert">
+                    <strong className="font-bold">Insufficient margin.</strong>
+                    <span className="block sm:inline ml-2">
+                      This trade needs {formatCurrency(results.marginRequired)} of margin but only {formatCurrency(Math.max(0, results.marginAnalysis.freeMarginBefore))} is free; the broker would reject it. At most {formatLotSize(results.marginAnalysis.maxAffordableLotSize)} lots fit.
+                    </span>
+                  </div>
+                )}
+
+                {results.minLotExceedsRisk && (
+                  <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+                    <strong className="font-bold">Minimum lot exceeds risk.</strong>
+                    <span className="block sm:inline ml-2">
+                      Your risk budget allows only {formatNumber(results.unroundedLotSize, 4)} lots, so the broker minimum of {formatLotSize(brokerPair.minLot)} raises risk to {formatNumber(results.effectiveRiskPercentage, 2)}%.
+                    </span>
+                  </div>
+                )}
+                {calcWarnings.map((issue, index) => (
+                  <div key={index} className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+                    <strong className="font-bold">{issue.index !== undefined ? `TP${issue.index + 1}:` : 'Warning:'}</strong>
+                    <span className="block sm:inline ml-2">{issue.message}</span>
+                  </div>
+                ))}
+                {results.riskLimitApplied && (
+                  <RiskLimitNotice
+                    applied={results.riskLimitApplied}
+                    check={propFirmCheck}
+                    formatCurrency={formatCurrency}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+                {results.maxLotCapped && (
+                  <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+                    <strong className="font-bold">Maximum lot reached.</strong>
+                    <span className="block sm:inline ml-2">
+                      The lot size was capped at the broker maximum of {formatLotSize(brokerPair.maxLot)}; risk is below your target.
+                    </span>
+                  </div>
+                )}
+
                 {/* Trade Summary */}
                 <div className="space-y-4">
                   <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
@@ -966,50 +2902,135 @@ function App() {
                       <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">({formatNumber(results.effectiveRiskPercentage, 2)}%)</span>
                     </span>
                   </div>
+                  <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">Loss at Stop Loss:</span>
+                    <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.stopLossAmount)}</span>
+                  </div>
+                  {results.spreadCost > 0 && (
+                    <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Spread Cost:</span>
+                      <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.spreadCost)}</span>
+                    </div>
+                  )}
+                  {results.commissionCost > 0 && (
+                    <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Commission:</span>
+                      <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.commissionCost)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
                     <span className="font-medium text-gray-700 dark:text-gray-300">Total Risk:</span>
                     <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.totalRiskAmount)}</span>
                   </div>
+                  <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">Unrounded Lot Size:</span>
+                    <span className="font-semibold text-tst-black dark:text-tst-white">{formatNumber(results.unroundedLotSize, 4)}</span>
+                  </div>
                   <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
                     <span className="font-medium text-gray-700 dark:text-gray-300">Risk per Pip:</span>
                     <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.riskPerPip)}</span>
                   </div>
                   <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
-                    <span className="font-medium text-gray-700 dark:text-gray-300">Stop Loss Pips:</span>
-                    <span className="font-semibold text-tst-black dark:text-tst-white">{formatNumber(results.stopLossPips, 1)} pips</span>
+                    <span className="font-medium text-gray-700 dark:text-gray-300">Stop Loss Pips (chart / executable):</span>
+                    <span className="font-semibold text-tst-black dark:text-tst-white">
+                      {formatNumber(results.stopLossPips, 1)} / {formatNumber(results.executableStopLossPips ?? results.stopLossPips, 1)} pips
+                    </span>
                   </div>
                   {results.takeProfitPips !== null && (
                     <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
-                      <span className="font-medium text-gray-700 dark:text-gray-300">Take Profit Pips:</span>
-                      <span className="font-semibold text-tst-black dark:text-tst-white">{formatNumber(results.takeProfitPips, 1)} pips</span>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">{results.takeProfitTargets?.length > 1 ? 'Average Take Profit Pips (chart / executable):' : 'Take Profit Pips (chart / executable):'}</span>
+                      <span className="font-semibold text-tst-black dark:text-tst-white">
+                        {formatNumber(results.takeProfitPips, 1)} / {formatNumber(results.executableTakeProfitPips ?? results.takeProfitPips, 1)} pips
+                      </span>
                     </div>
                   )}
                   {results.potentialProfitAtTP !== null && (
                     <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
-                      <span className="font-medium text-gray-700 dark:text-gray-300">Potential Profit (at TP):</span>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Potential Profit (at TP, net of costs):</span>
                       <span className="font-semibold text-green-500">{formatCurrency(results.potentialProfitAtTP)}</span>
                     </div>
                   )}
                   {results.riskToRewardRatio !== null && (
                     <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
-                      <span className="font-medium text-gray-700 dark:text-gray-300">Risk-to-Reward (R:R):</span>
+                      <span className="font-medium text-gray-700 dark:text-gray-300">{results.takeProfitTargets?.length > 1 ? 'Blended Risk-to-Reward (R:R):' : 'Risk-to-Reward (R:R):'}</span>
                       <span className="font-semibold text-tst-black dark:text-tst-white">1:{formatNumber(results.riskToRewardRatio, 2)}</span>
                     </div>
                   )}
+                  {results.appliedLeverage && (
+                    <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+                      <span className="font-medium text-gray-700 dark:text-gray-300">Leverage Applied:</span>
+                      <span className="font-semibold text-tst-black dark:text-tst-white">
+                        {results.appliedLeverage}{results.leverageCategory && ` (${results.leverageCategory} cap)`}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <span className="font-medium text-gray-700 dark:text-gray-300">Margin Required:</span>
                     <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(results.marginRequired)}</span>
                   </div>
                 </div>
 
+                {/* Take Profit Plan */}
+                {results.takeProfitTargets?.length > 1 && (
+                  <TakeProfitPlanTable
+                    targets={results.takeProfitTargets}
+                    digits={currencyPair.digits}
+                    formatCurrency={formatCurrency}
+                    formatNumber={formatNumber}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+
+                {results.sizing && (
+                  <SizingSummary sizing={results.sizing} formatCurrency={formatCurrency} />
+                )}
+
+                {results.marginAnalysis && (
+                  <MarginSummary
+                    analysis={results.marginAnalysis}
+                    marginCallLevel={marginCallLevel}
+                    stopOutLevel={stopOutLevel}
+                    digits={currencyPair.digits}
+                    formatCurrency={formatCurrency}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+
+                {openPositions.length > 0 && (
+                  <PortfolioRiskPanel portfolio={tradePortfolio} positionCount={openPositions.length} formatCurrency={formatCurrency} />
+                )}
+                {tradeCorrelation && (
+                  <CorrelationRiskPanel
+                    correlation={tradeCorrelation}
+                    symbol={currencyPair.symbol}
+                    lotSize={results.finalLotSize}
+                    formatCurrency={formatCurrency}
+                    formatLotSize={formatLotSize}
+                  />
+                )}
+                <CurrencyExposurePanel
+                  exposure={tradeExposure}
+                  limitPercent={exposureLimit}
+                  accountCurrency={accountCurrency}
+                  formatCurrency={formatCurrency}
+                />
+
+                <ExchangeRatesUsed rates={results.exchangeRatesUsed ?? []} />
+
                 {/* Action Buttons */}
-                <div className="mt-8 flex justify-center">
+                <div className="mt-8 flex flex-wrap justify-center gap-4">
                   <button
                     onClick={handleCopyLotSize}
                     className="px-6 py-3 bg-tst-blue hover:bg-tst-dark-blue text-white font-bold rounded-md shadow-md transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
                   >
                     Copy Lot Size
                   </button>
+                  <button
+                    onClick={handleAddToOpenPositions}
+                    className="px-6 py-3 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white font-bold rounded-md shadow-md hover:bg-gray-400 dark:hover:bg-gray-600 transition-colors duration-300"
+                  >
+                    Add to Open Positions
+                  </button>
                 </div>
               </div>
             ) : (
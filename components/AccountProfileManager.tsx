@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AccountProfile } from '../types';
+import TextInput from './TextInput';
+
+interface AccountProfileManagerProps {
+  profiles: AccountProfile[];
+  activeId: string; // Empty when no profile is active
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSaveNew: (name: string) => void; // Saves the form's account settings under a new name
+  onUpdateActive: () => void; // Overwrites the active profile with the form's account settings
+  formatCurrency: (amount: number, currency: string) => string;
+}
+
+const AccountProfileManager: React.FC<AccountProfileManagerProps> = ({
+  profiles,
+  activeId,
+  onSelect,
+  onDelete,
+  onSaveNew,
+  onUpdateActive,
+  formatCurrency,
+}) => {
+  const [name, setName] = useState('');
+  const activeProfile = profiles.find((profile) => profile.id === activeId);
+
+  const handleSave = () => {
+    onSaveNew(name.trim());
+    setName('');
+  };
+
+  return (
+    <div>
+      {profiles.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-4">
+          No saved accounts. Save the current account settings to switch between accounts quickly.
+        </p>
+      ) : (
+        <div className="space-y-4 mb-6">
+          {profiles.map((profile, index) => (
+            <div
+              key={profile.id}
+              className={`flex justify-between items-center gap-2 ${index < profiles.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+            >
+              <div>
+                <p className="font-semibold text-tst-black dark:text-tst-white">
+                  {profile.name}
+                  {profile.id === activeId && <span className="ml-2 text-sm font-medium text-tst-blue">Active</span>}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {typeof profile.accountSize === 'number' ? formatCurrency(profile.accountSize, profile.accountCurrency) : profile.accountCurrency}
+                  {' · '}{profile.leverageSchedule ? 'Per-category leverage' : profile.leverage}
+                  {' · '}Risk {profile.riskType === 'percentage' ? `${profile.riskValue}%` : formatCurrency(typeof profile.riskValue === 'number' ? profile.riskValue : 0, profile.accountCurrency)}
+                </p>
+              </div>
+              <div className="flex gap-4">
+                {profile.id !== activeId && (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(profile.id)}
+                    className="text-tst-blue font-semibold hover:underline transition-colors"
+                  >
+                    Switch
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onDelete(profile.id)}
+                  className="text-red-500 font-semibold hover:underline transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-x-2">
+        <TextInput
+          id="accountProfileName"
+          label="Save Current Account As"
+          value={name}
+          onChange={setName}
+          placeholder="e.g., Live, Demo, 100k Challenge"
+          className="flex-1"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="mb-4 px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+      {activeProfile && (
+        <button
+          type="button"
+          onClick={onUpdateActive}
+          className="text-tst-blue font-semibold hover:underline transition-colors"
+        >
+          Update "{activeProfile.name}" with the Current Settings
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AccountProfileManager;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { AccountProfile } from '../types';
+
+interface AccountProfileSwitcherProps {
+  profiles: AccountProfile[];
+  activeId: string; // Empty when no profile is active
+  onChange: (id: string) => void;
+}
+
+const AccountProfileSwitcher: React.FC<AccountProfileSwitcherProps> = ({ profiles, activeId, onChange }) => {
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      value={activeId}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+      aria-label="Account profile"
+    >
+      <option value="">No Profile</option>
+      {profiles.map((profile) => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default AccountProfileSwitcher;
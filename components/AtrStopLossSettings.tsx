@@ -0,0 +1,122 @@
+import React from 'react';
+import { AtrResult, AtrTimeframe } from '../types';
+import { ATR_TIMEFRAMES } from '../constants';
+import Dropdown from './Dropdown';
+import NumericInput from './NumericInput';
+
+interface AtrStopLossSettingsProps {
+  symbol: string;
+  digits: number; // Price decimals of the selected instrument
+  multiplier: number | '';
+  onMultiplierChange: (value: number | '') => void;
+  period: number | '';
+  onPeriodChange: (value: number | '') => void;
+  timeframe: AtrTimeframe;
+  onTimeframeChange: (timeframe: AtrTimeframe) => void;
+  storedCandleCount: number; // Candles imported for the selected instrument
+  onImportFile: (file: File) => void;
+  onClear: () => void;
+  atr: AtrResult | null;
+  atrError: string | null;
+  importStatus: string | null;
+  importError: string | null;
+}
+
+const AtrStopLossSettings: React.FC<AtrStopLossSettingsProps> = ({
+  symbol,
+  digits,
+  multiplier,
+  onMultiplierChange,
+  period,
+  onPeriodChange,
+  timeframe,
+  onTimeframeChange,
+  storedCandleCount,
+  onImportFile,
+  onClear,
+  atr,
+  atrError,
+  importStatus,
+  importError,
+}) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    e.target.value = ''; // Allow importing the same file again
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        <NumericInput
+          id="atrMultiplier"
+          label="ATR Multiple (k)"
+          value={multiplier}
+          onChange={onMultiplierChange}
+          min={0}
+          step={0.1}
+          placeholder="e.g., 1.5"
+          unit="× ATR"
+        />
+        <NumericInput
+          id="atrPeriod"
+          label="ATR Period"
+          value={period}
+          onChange={onPeriodChange}
+          min={1}
+          step={1}
+          placeholder="e.g., 14"
+        />
+        <Dropdown<AtrTimeframe>
+          id="atrTimeframe"
+          label="Timeframe"
+          options={ATR_TIMEFRAMES}
+          value={timeframe}
+          onChange={onTimeframeChange}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-2">
+        <input
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          onChange={handleFileChange}
+          aria-label={`Import ${symbol || 'instrument'} candles from CSV`}
+          className="text-sm text-tst-black dark:text-tst-white"
+        />
+        {storedCandleCount > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-tst-blue font-semibold hover:underline transition-colors"
+          >
+            Clear {symbol} Candles
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+        {storedCandleCount > 0
+          ? `${storedCandleCount.toLocaleString()} candles stored for ${symbol}.`
+          : `Import an MT4, MT5 or TradingView OHLC export for ${symbol || 'the selected pair'}.`}
+      </p>
+      {importError ? (
+        <p className="text-sm text-red-500 mb-2" role="alert">{importError}</p>
+      ) : importStatus && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">{importStatus}</p>
+      )}
+
+      {atr ? (
+        <p className="text-sm text-tst-black dark:text-tst-white">
+          ATR({period}) {timeframe}: {atr.atr.toFixed(digits)} ({atr.atrPips.toFixed(1)} pips), last candle{' '}
+          {new Date(atr.lastCandleTime).toISOString().slice(0, 16).replace('T', ' ')} UTC.
+        </p>
+      ) : atrError && storedCandleCount > 0 && (
+        <p className="text-sm text-red-500" role="alert">{atrError}</p>
+      )}
+    </div>
+  );
+};
+
+export default AtrStopLossSettings;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CorrelationRisk } from '../types';
+
+interface CorrelationRiskPanelProps {
+  correlation: CorrelationRisk;
+  symbol: string; // Instrument of the new trade
+  lotSize: number; // Lot size of the new trade
+  formatCurrency: (amount: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const CorrelationRiskPanel: React.FC<CorrelationRiskPanelProps> = ({
+  correlation,
+  symbol,
+  lotSize,
+  formatCurrency,
+  formatLotSize,
+}) => {
+  if (correlation.correlatedPositions.length === 0) {
+    return null;
+  }
+
+  // Positions that lose together with the new trade, as opposed to hedges
+  const reinforcing = correlation.correlatedPositions.filter((p) => p.effectiveCorrelation > 0);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Correlated Positions</h3>
+
+      {reinforcing.length > 0 && (
+        <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-4" role="alert">
+          <strong className="font-bold">Highly correlated.</strong>
+          <span className="block sm:inline ml-2">
+            This {symbol} trade moves with {reinforcing.map((p) => p.symbol).join(', ')}; together they behave like one larger position.
+            {correlation.suggestedLotSize !== null && (correlation.suggestedLotSize > 0
+              ? ` Consider reducing to ${formatLotSize(correlation.suggestedLotSize)} lots (from ${formatLotSize(lotSize)}).`
+              : ' Consider skipping this trade: even the minimum lot concentrates the risk.')}
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-2">Position</th>
+              <th className="py-2 pr-2">Correlation</th>
+              <th className="py-2">Effect</th>
+            </tr>
+          </thead>
+          <tbody>
+            {correlation.correlatedPositions.map((p) => (
+              <tr key={p.id} className="border-b border-gray-200 dark:border-gray-700 text-tst-black dark:text-tst-white">
+                <td className="py-2 pr-2 font-medium">{p.symbol}</td>
+                <td className="py-2 pr-2">{p.correlation.toFixed(2)}</td>
+                <td className={`py-2 ${p.effectiveCorrelation > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                  {p.effectiveCorrelation > 0 ? 'Adds to risk' : 'Hedges'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Sum of Risks to Stops:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(correlation.simpleRiskAmount)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Correlation-Adjusted Risk:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">
+            {formatCurrency(correlation.combinedRiskAmount)} ({correlation.combinedRiskPercentage.toFixed(2)}%)
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationRiskPanel;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { CorrelationImportFormat, CorrelationMatrix } from '../types';
+import { CORRELATION_IMPORT_FORMATS } from '../constants';
+import { getCorrelation } from '../services/correlationService';
+import Dropdown from './Dropdown';
+import NumericInput from './NumericInput';
+
+interface CorrelationSettingsProps {
+  symbols: string[]; // Instruments shown in the editor: the selected pair and the open positions
+  matrix: CorrelationMatrix;
+  onCorrelationChange: (a: string, b: string, value: number) => void;
+  threshold: number | '';
+  onThresholdChange: (value: number | '') => void;
+  importFormat: CorrelationImportFormat;
+  onImportFormatChange: (format: CorrelationImportFormat) => void;
+  onImportFile: (file: File) => void;
+  onReset: () => void;
+  importStatus: string | null;
+  importError: string | null;
+}
+
+const CorrelationSettings: React.FC<CorrelationSettingsProps> = ({
+  symbols,
+  matrix,
+  onCorrelationChange,
+  threshold,
+  onThresholdChange,
+  importFormat,
+  onImportFormatChange,
+  onImportFile,
+  onReset,
+  importStatus,
+  importError,
+}) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    e.target.value = ''; // Allow importing the same file again
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Correlations</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+        <NumericInput
+          id="correlationThreshold"
+          label="Warn at Correlation"
+          value={threshold}
+          onChange={onThresholdChange}
+          min={0}
+          max={1}
+          step={0.05}
+          placeholder="e.g., 0.7"
+        />
+        <Dropdown<CorrelationImportFormat>
+          id="correlationImportFormat"
+          label="Import CSV As"
+          options={CORRELATION_IMPORT_FORMATS}
+          value={importFormat}
+          onChange={onImportFormatChange}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          onChange={handleFileChange}
+          aria-label="Import correlations from CSV"
+          className="text-sm text-tst-black dark:text-tst-white"
+        />
+        <button
+          type="button"
+          onClick={onReset}
+          className="text-tst-blue font-semibold hover:underline transition-colors"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+      {importError ? (
+        <p className="text-sm text-red-500 mb-4" role="alert">{importError}</p>
+      ) : importStatus && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{importStatus}</p>
+      )}
+
+      {symbols.length > 1 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-2"></th>
+                {symbols.map((symbol) => (
+                  <th key={symbol} className="py-2 pr-2">{symbol}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {symbols.map((rowSymbol, row) => (
+                <tr key={rowSymbol} className="border-b border-gray-200 dark:border-gray-700 text-tst-black dark:text-tst-white">
+                  <td className="py-2 pr-2 font-medium">{rowSymbol}</td>
+                  {symbols.map((columnSymbol, column) => (
+                    <td key={columnSymbol} className="py-1 pr-2">
+                      {column > row ? (
+                        <input
+                          type="number"
+                          value={getCorrelation(matrix, rowSymbol, columnSymbol)}
+                          onChange={(e) => onCorrelationChange(rowSymbol, columnSymbol, parseFloat(e.target.value) || 0)}
+                          min={-1}
+                          max={1}
+                          step={0.05}
+                          aria-label={`Correlation of ${rowSymbol} and ${columnSymbol}`}
+                          className="block w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+                        />
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {getCorrelation(matrix, rowSymbol, columnSymbol).toFixed(2)}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Add open positions to edit their correlations with the selected pair.</p>
+      )}
+    </div>
+  );
+};
+
+export default CorrelationSettings;
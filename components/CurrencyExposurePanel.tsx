@@ -0,0 +1,73 @@
+import React from 'react';
+import { ExposureBreakdown } from '../types';
+
+interface CurrencyExposurePanelProps {
+  exposure: ExposureBreakdown;
+  limitPercent: number | '';
+  accountCurrency: string;
+  formatCurrency: (amount: number) => string;
+}
+
+const CurrencyExposurePanel: React.FC<CurrencyExposurePanelProps> = ({
+  exposure,
+  limitPercent,
+  accountCurrency,
+  formatCurrency,
+}) => {
+  if (exposure.currencies.length === 0) {
+    return null;
+  }
+
+  const flagged = exposure.currencies.filter((c) => c.exceedsLimit);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Net Currency Exposure</h3>
+
+      {flagged.length > 0 && (
+        <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-4" role="alert">
+          <strong className="font-bold">Concentrated exposure.</strong>
+          <span className="block sm:inline ml-2">
+            {flagged.map((c) => `${c.notional >= 0 ? 'long' : 'short'} ${c.currency}`).join(', ')} exceed{flagged.length === 1 ? 's' : ''} the limit of {limitPercent}% of the account.
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-2">Currency</th>
+              <th className="py-2 pr-2">Direction</th>
+              <th className="py-2 pr-2">Net Units</th>
+              <th className="py-2 pr-2">Notional ({accountCurrency})</th>
+              <th className="py-2">% of Account</th>
+            </tr>
+          </thead>
+          <tbody>
+            {exposure.currencies.map((c) => (
+              <tr
+                key={c.currency}
+                className={`border-b border-gray-200 dark:border-gray-700 ${c.exceedsLimit ? 'text-red-500 font-semibold' : 'text-tst-black dark:text-tst-white'}`}
+              >
+                <td className="py-2 pr-2 font-medium">{c.currency}</td>
+                <td className="py-2 pr-2">{c.units >= 0 ? 'Long' : 'Short'}</td>
+                <td className="py-2 pr-2">{Math.abs(c.units).toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                <td className="py-2 pr-2">{formatCurrency(Math.abs(c.notional))}</td>
+                <td className="py-2">{c.accountPercentage.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {exposure.skippedCount > 0 && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          {exposure.skippedCount} position{exposure.skippedCount === 1 ? ' was' : 's were'} left out for a missing lot size, price or exchange rate.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CurrencyExposurePanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { EquityPoint } from '../types';
+
+interface EquityCurveChartProps {
+  points: EquityPoint[];
+  formatCurrency: (amount: number) => string;
+}
+
+const WIDTH = 600;
+const EQUITY_HEIGHT = 160;
+const DRAWDOWN_HEIGHT = 50;
+const GAP = 10;
+
+const EquityCurveChart: React.FC<EquityCurveChartProps> = ({ points, formatCurrency }) => {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const equities = points.map((p) => p.equity);
+  const minEquity = Math.min(...equities);
+  const maxEquity = Math.max(...equities);
+  const equityRange = maxEquity - minEquity || 1;
+  const maxDrawdown = Math.max(...points.map((p) => p.drawdown)) || 1;
+
+  // Trades are spaced evenly rather than by time, so clusters of trades stay readable
+  const x = (index: number) => (index / (points.length - 1)) * WIDTH;
+  const equityY = (equity: number) => EQUITY_HEIGHT - ((equity - minEquity) / equityRange) * EQUITY_HEIGHT;
+  const drawdownTop = EQUITY_HEIGHT + GAP;
+  const drawdownY = (drawdown: number) => drawdownTop + (drawdown / maxDrawdown) * DRAWDOWN_HEIGHT;
+
+  const equityLine = points.map((p, i) => `${x(i)},${equityY(p.equity)}`).join(' ');
+  const drawdownArea = [
+    `0,${drawdownTop}`,
+    ...points.map((p, i) => `${x(i)},${drawdownY(p.drawdown)}`),
+    `${WIDTH},${drawdownTop}`,
+  ].join(' ');
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+        <span>High: {formatCurrency(maxEquity)}</span>
+        <span>Low: {formatCurrency(minEquity)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${drawdownTop + DRAWDOWN_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-56 bg-gray-50 dark:bg-gray-900 rounded-md"
+        role="img"
+        aria-label="Equity curve with drawdown below"
+      >
+        <polyline points={equityLine} fill="none" stroke="currentColor" strokeWidth={2} className="text-tst-blue" vectorEffect="non-scaling-stroke" />
+        <line x1={0} y1={drawdownTop} x2={WIDTH} y2={drawdownTop} stroke="currentColor" className="text-gray-300 dark:text-gray-600" vectorEffect="non-scaling-stroke" />
+        <polygon points={drawdownArea} fill="currentColor" className="text-red-400 opacity-60" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>Equity (top) and drawdown (bottom), one step per trade</span>
+        <span>{points.length - 1} trades</span>
+      </div>
+    </div>
+  );
+};
+
+export default EquityCurveChart;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { ExchangeRateProviderId, LocalExchangeRateInput } from '../types';
+import { EXCHANGE_RATE_PROVIDERS } from '../constants';
+import Dropdown from './Dropdown';
+import NumericInput from './NumericInput';
+import TextInput from './TextInput';
+
+interface ExchangeRateSettingsProps {
+  providerId: ExchangeRateProviderId;
+  onProviderChange: (id: ExchangeRateProviderId) => void;
+  localRates: LocalExchangeRateInput[];
+  onLocalCurrencyChange: (id: string, value: string) => void;
+  onLocalRateChange: (id: string, value: number | '') => void;
+  onAddLocalRate: () => void;
+  onRemoveLocalRate: (id: string) => void;
+  endpointUrl: string;
+  onEndpointUrlChange: (value: string) => void;
+  onLoadRates: () => void;
+  isLoading: boolean;
+  error: string | null;
+  rateCount: number; // Number of rates in the active snapshot
+}
+
+const ExchangeRateSettings: React.FC<ExchangeRateSettingsProps> = ({
+  providerId,
+  onProviderChange,
+  localRates,
+  onLocalCurrencyChange,
+  onLocalRateChange,
+  onAddLocalRate,
+  onRemoveLocalRate,
+  endpointUrl,
+  onEndpointUrlChange,
+  onLoadRates,
+  isLoading,
+  error,
+  rateCount,
+}) => {
+  return (
+    <div className="mb-4">
+      <Dropdown<ExchangeRateProviderId>
+        id="exchangeRateProvider"
+        label="Exchange Rate Source"
+        options={EXCHANGE_RATE_PROVIDERS}
+        value={providerId}
+        onChange={onProviderChange}
+      />
+
+      {providerId === 'local' && (
+        <div className="mb-4">
+          {localRates.map((row) => (
+            <div key={row.id} className="grid grid-cols-7 gap-2 items-end">
+              <TextInput
+                id={`localRateCurrency-${row.id}`}
+                label="Currency"
+                value={row.currency}
+                onChange={(value) => onLocalCurrencyChange(row.id, value)}
+                placeholder="e.g., EUR"
+                className="col-span-2"
+              />
+              <NumericInput
+                id={`localRateValue-${row.id}`}
+                label={`1 ${row.currency || 'unit'} in USD`}
+                value={row.rateToUSD}
+                onChange={(value) => onLocalRateChange(row.id, value)}
+                min={0}
+                step={0.0001}
+                placeholder="e.g., 1.08"
+                unit="USD"
+                className="col-span-4"
+              />
+              <div className="mb-4">
+                <button
+                  type="button"
+                  onClick={() => onRemoveLocalRate(row.id)}
+                  className="w-full px-2 py-2 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-600 transition-colors duration-200"
+                  aria-label={`Remove ${row.currency || 'rate'}`}
+                >
+                  &times;
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={onAddLocalRate}
+            className="text-tst-blue font-semibold hover:underline transition-colors"
+          >
+            + Add Rate
+          </button>
+        </div>
+      )}
+
+      {providerId === 'http' && (
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <TextInput
+            id="rateEndpointUrl"
+            label="Endpoint URL"
+            value={endpointUrl}
+            onChange={onEndpointUrlChange}
+            placeholder="e.g., http://localhost:8080/rates.json"
+            className="col-span-3"
+          />
+          <div className="mb-4">
+            <button
+              type="button"
+              onClick={onLoadRates}
+              disabled={isLoading || !endpointUrl.trim()}
+              className="w-full px-2 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Load Rates
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading exchange rates...</p>
+      ) : error ? (
+        <p className="text-sm text-red-500" role="alert">{error}</p>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {rateCount} exchange rate{rateCount === 1 ? '' : 's'} available. USD is always 1.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRateSettings;
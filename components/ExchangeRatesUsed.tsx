@@ -0,0 +1,69 @@
+import React from 'react';
+import { ExchangeRate } from '../types';
+import { EXCHANGE_RATE_STALE_AFTER_MS } from '../constants';
+
+interface ExchangeRatesUsedProps {
+  rates: ExchangeRate[];
+}
+
+// Formats the time since a rate was quoted as a short relative age (e.g., "5 min ago")
+const formatAge = (timestamp: number): string => {
+  const ageMs = Math.max(0, Date.now() - timestamp);
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+const ExchangeRatesUsed: React.FC<ExchangeRatesUsedProps> = ({ rates }) => {
+  if (rates.length === 0) {
+    return null;
+  }
+
+  const hasStaleRate = rates.some((rate) => Date.now() - rate.timestamp > EXCHANGE_RATE_STALE_AFTER_MS);
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Exchange Rates Used</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-2">Currency</th>
+              <th className="py-2 pr-2">Rate</th>
+              <th className="py-2 pr-2">Source</th>
+              <th className="py-2">Age</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map((rate) => {
+              const isStale = Date.now() - rate.timestamp > EXCHANGE_RATE_STALE_AFTER_MS;
+              return (
+                <tr key={rate.currency} className="border-b border-gray-200 dark:border-gray-700 text-tst-black dark:text-tst-white">
+                  <td className="py-2 pr-2 font-medium">{rate.currency}</td>
+                  <td className="py-2 pr-2">1 {rate.currency} = {rate.rateToUSD.toPrecision(6)} USD</td>
+                  <td className="py-2 pr-2 break-all">{rate.source}</td>
+                  <td
+                    className={`py-2 ${isStale ? 'text-yellow-600 dark:text-yellow-400 font-semibold' : ''}`}
+                    title={new Date(rate.timestamp).toLocaleString()}
+                  >
+                    {formatAge(rate.timestamp)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {hasStaleRate && (
+        <p className="mt-2 text-sm text-yellow-600 dark:text-yellow-400">
+          Some rates are more than {EXCHANGE_RATE_STALE_AFTER_MS / 3600000} hours old. Pip value and margin may be off; refresh or edit your rates.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesUsed;
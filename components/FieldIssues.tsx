@@ -0,0 +1,29 @@
+import React from 'react';
+import { CalculationIssue } from '../types';
+
+interface FieldIssuesProps {
+  issues: CalculationIssue[];
+  className?: string;
+}
+
+const FieldIssues: React.FC<FieldIssuesProps> = ({ issues, className = '' }) => {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`-mt-2 mb-4 space-y-1 text-sm ${className}`}>
+      {issues.map((issue, index) => (
+        <li
+          key={index}
+          role={issue.severity === 'error' ? 'alert' : undefined}
+          className={issue.severity === 'error' ? 'text-red-500' : 'text-yellow-600 dark:text-yellow-400'}
+        >
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default FieldIssues;
@@ -0,0 +1,151 @@
+import React from 'react';
+import { CalculationIssue, HistoryEntry, TradeJournal } from '../types';
+import { getPlannedPosition } from '../services/journalService';
+import HistoryNoteEditor from './HistoryNoteEditor';
+import TradeJournalEditor from './TradeJournalEditor';
+
+interface HistoryEntryCardProps {
+  entry: HistoryEntry;
+  editingNotes: boolean;
+  editingJournal: boolean;
+  journalIssues: CalculationIssue[];
+  onTogglePinned: () => void;
+  onEditNotes: () => void;
+  onSaveNotes: (notes: string) => void;
+  onCancelNotes: () => void;
+  onEditJournal: () => void;
+  onSaveJournal: (draft: Omit<TradeJournal, 'outcome'>) => void;
+  onCancelJournal: () => void;
+  onLoad: () => void;
+  onDelete: () => void;
+  formatCurrency: (amount: number, currency: string) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+// The value a reverse solve found, as shown on the card
+const describeSolvedValue = (entry: HistoryEntry, formatCurrency: HistoryEntryCardProps['formatCurrency']): string => {
+  const { reverseResults: results, inputs } = entry;
+  switch (results.solveFor) {
+    case 'stopLoss':
+      return `Max stop loss ${results.stopLossPrice.toFixed(inputs.currencyPair.digits)} (${results.stopLossPips.toFixed(1)} pips)`;
+    case 'risk':
+      return `Risk ${formatCurrency(results.riskAmount, inputs.accountCurrency)} (${results.riskPercentage.toFixed(2)}%)`;
+    case 'accountSize':
+    default:
+      return `Account size ${formatCurrency(results.accountSize, inputs.accountCurrency)}`;
+  }
+};
+
+const HistoryEntryCard: React.FC<HistoryEntryCardProps> = ({
+  entry,
+  editingNotes,
+  editingJournal,
+  journalIssues,
+  onTogglePinned,
+  onEditNotes,
+  onSaveNotes,
+  onCancelNotes,
+  onEditJournal,
+  onSaveJournal,
+  onCancelJournal,
+  onLoad,
+  onDelete,
+  formatCurrency,
+  formatLotSize,
+}) => {
+  const position = getPlannedPosition(entry);
+  return (
+    <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-md shadow-sm">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-2">
+        <div>
+          <p className="text-sm font-semibold text-tst-black dark:text-tst-white">
+            {entry.pinned && <span className="mr-1 text-yellow-500" aria-label="Pinned">&#9733;</span>}
+            {new Date(entry.timestamp).toLocaleString()}
+            {entry.profile && <span className="ml-2 font-medium text-tst-blue">{entry.profile.name}</span>}
+          </p>
+          <p className="text-md text-gray-700 dark:text-gray-300">
+            <span className="font-medium">{entry.inputs.currencyPair.symbol}</span> |&nbsp;
+            <span className={`${entry.inputs.tradeType === 'buy' ? 'text-green-500' : 'text-red-500'} font-medium`}>
+              {entry.inputs.tradeType.toUpperCase()}
+            </span> |&nbsp;
+            Lot: <span className="font-medium">{formatLotSize(position?.lotSize)}</span> |&nbsp;
+            Risk: <span className="font-medium">{formatCurrency(position?.riskAmount, entry.inputs.accountCurrency)}</span>
+          </p>
+          {entry.scaleInResults && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Scale-in: {entry.scaleInResults.entries.map((leg) => `${formatLotSize(leg.lots)} @ ${leg.price.toFixed(entry.inputs.currencyPair.digits)}`).join(', ')} | Avg entry:{' '}
+              <span className="font-medium">{entry.scaleInResults.averageEntryPrice.toFixed(entry.inputs.currencyPair.digits)}</span>
+            </p>
+          )}
+          {entry.reverseResults && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Solved: <span className="font-medium">{describeSolvedValue(entry, formatCurrency)}</span>
+            </p>
+          )}
+          {entry.journal?.taken && (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {entry.journal.outcome ? (
+                <>
+                  Closed{entry.journal.exitTime ? ` ${entry.journal.exitTime.replace('T', ' ')}` : ''}: <span className={`font-semibold ${entry.journal.outcome.netProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatCurrency(entry.journal.outcome.netProfit, entry.inputs.accountCurrency)}
+                    {entry.journal.outcome.rMultiple !== null && ` (${entry.journal.outcome.rMultiple >= 0 ? '+' : ''}${entry.journal.outcome.rMultiple.toFixed(2)}R)`}
+                  </span>
+                </>
+              ) : (
+                <span className="font-medium">Taken, still open</span>
+              )}
+              {entry.journal.notes && <span className="block italic">{entry.journal.notes}</span>}
+            </p>
+          )}
+          {entry.notes && !editingNotes && (
+            <p className="text-sm italic text-gray-700 dark:text-gray-300 whitespace-pre-line">{entry.notes}</p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={onTogglePinned}
+            className="px-3 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-tst-black dark:text-tst-white font-semibold rounded-md shadow-sm transition-colors duration-300"
+            aria-label={entry.pinned ? 'Unpin entry' : 'Pin entry'}
+            title={entry.pinned ? 'Unpin' : 'Pin'}
+          >
+            {entry.pinned ? <span className="text-yellow-500">&#9733;</span> : <>&#9734;</>}
+          </button>
+          <button
+            onClick={onEditNotes}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-tst-black dark:text-tst-white font-semibold rounded-md shadow-sm transition-colors duration-300"
+          >
+            Notes
+          </button>
+          <button
+            onClick={onEditJournal}
+            className="px-4 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-gray-400 dark:hover:bg-gray-500 text-tst-black dark:text-tst-white font-semibold rounded-md shadow-sm transition-colors duration-300"
+          >
+            Journal
+          </button>
+          <button
+            onClick={onLoad}
+            className="px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md shadow-sm transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+          >
+            Load
+          </button>
+          <button
+            onClick={onDelete}
+            className="px-3 py-2 bg-gray-300 dark:bg-gray-600 hover:bg-red-500 hover:text-white text-tst-black dark:text-tst-white font-semibold rounded-md shadow-sm transition-colors duration-300"
+            aria-label="Delete entry"
+            title="Delete"
+          >
+            &times;
+          </button>
+        </div>
+      </div>
+      {editingNotes && (
+        <HistoryNoteEditor entry={entry} onSave={onSaveNotes} onCancel={onCancelNotes} />
+      )}
+      {editingJournal && (
+        <TradeJournalEditor entry={entry} issues={journalIssues} onSave={onSaveJournal} onCancel={onCancelJournal} />
+      )}
+    </div>
+  );
+};
+
+export default HistoryEntryCard;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { HistoryFilter, TradeType } from '../types';
+import { JOURNAL_DIRECTION_OPTIONS } from '../constants';
+import Dropdown from './Dropdown';
+import TextInput from './TextInput';
+
+interface HistoryFiltersProps {
+  filter: HistoryFilter;
+  onFilterChange: <K extends keyof HistoryFilter>(field: K, value: HistoryFilter[K]) => void;
+  symbols: string[]; // Instruments that appear in the history
+  profiles: { id: string; name: string }[]; // Account profiles that history entries are tagged with
+}
+
+const HistoryFilters: React.FC<HistoryFiltersProps> = ({ filter, onFilterChange, symbols, profiles }) => {
+  const dateInputClass = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm';
+
+  return (
+    <div>
+      <TextInput
+        id="historySearch"
+        label="Search"
+        value={filter.search}
+        onChange={(value) => onFilterChange('search', value)}
+        placeholder="Pair, notes, tags or account"
+      />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        <Dropdown<string>
+          id="historyFilterSymbol"
+          label="Instrument"
+          options={[{ value: '', label: 'All Instruments' }, ...symbols.map((symbol) => ({ value: symbol, label: symbol }))]}
+          value={filter.symbol}
+          onChange={(value) => onFilterChange('symbol', value)}
+        />
+        <Dropdown<TradeType | 'all'>
+          id="historyFilterDirection"
+          label="Direction"
+          options={JOURNAL_DIRECTION_OPTIONS}
+          value={filter.tradeType}
+          onChange={(value) => onFilterChange('tradeType', value)}
+        />
+        <Dropdown<string>
+          id="historyFilterProfile"
+          label="Account"
+          options={[{ value: '', label: 'All Accounts' }, ...profiles.map((profile) => ({ value: profile.id, label: profile.name }))]}
+          value={filter.profileId}
+          onChange={(value) => onFilterChange('profileId', value)}
+        />
+        <div className="mb-4">
+          <label htmlFor="historyFilterFrom" className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            id="historyFilterFrom"
+            value={filter.from}
+            onChange={(e) => onFilterChange('from', e.target.value)}
+            className={dateInputClass}
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="historyFilterTo" className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            id="historyFilterTo"
+            value={filter.to}
+            onChange={(e) => onFilterChange('to', e.target.value)}
+            className={dateInputClass}
+          />
+        </div>
+        <TextInput
+          id="historyFilterTag"
+          label="Journal Tag"
+          value={filter.tag}
+          onChange={(value) => onFilterChange('tag', value)}
+          placeholder="e.g., breakout"
+        />
+      </div>
+      <label className="inline-flex items-center mb-4">
+        <input
+          type="checkbox"
+          checked={filter.pinnedOnly}
+          onChange={(e) => onFilterChange('pinnedOnly', e.target.checked)}
+          className="form-checkbox text-tst-blue h-4 w-4"
+        />
+        <span className="ml-2 text-tst-black dark:text-tst-white">Pinned only</span>
+      </label>
+    </div>
+  );
+};
+
+export default HistoryFilters;
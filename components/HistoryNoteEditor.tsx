@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+
+interface HistoryNoteEditorProps {
+  entry: HistoryEntry;
+  onSave: (notes: string) => void;
+  onCancel: () => void;
+}
+
+const HistoryNoteEditor: React.FC<HistoryNoteEditorProps> = ({ entry, onSave, onCancel }) => {
+  // Edits stay local until saved, so cancelling leaves the saved notes untouched
+  const [notes, setNotes] = useState(entry.notes ?? '');
+
+  return (
+    <div className="w-full mt-4 pt-4 border-t border-gray-300 dark:border-gray-600">
+      <label
+        htmlFor={`historyNotes-${entry.id}`}
+        className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1"
+      >
+        Notes
+      </label>
+      <textarea
+        id={`historyNotes-${entry.id}`}
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={3}
+        placeholder="e.g., Waiting for the London open retest"
+        className="block w-full mb-4 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+      />
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={() => onSave(notes.trim())}
+          className="px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md shadow-sm transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+        >
+          Save Notes
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-tst-blue font-semibold hover:underline transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryNoteEditor;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { JournalFilter, JournalStats, TradeType } from '../types';
+import { JOURNAL_DIRECTION_OPTIONS } from '../constants';
+import Dropdown from './Dropdown';
+import EquityCurveChart from './EquityCurveChart';
+import TextInput from './TextInput';
+
+interface JournalStatsPanelProps {
+  stats: JournalStats;
+  filter: JournalFilter;
+  onFilterChange: <K extends keyof JournalFilter>(field: K, value: JournalFilter[K]) => void;
+  symbols: string[]; // Instruments that appear in the journal
+  onUseForSizing: () => void;
+  formatCurrency: (amount: number) => string;
+}
+
+const JournalStatsPanel: React.FC<JournalStatsPanelProps> = ({
+  stats,
+  filter,
+  onFilterChange,
+  symbols,
+  onUseForSizing,
+  formatCurrency,
+}) => {
+  const formatR = (r: number | null) => (r === null ? 'N/A' : `${r.toFixed(2)}R`);
+
+  const rows: { label: string; value: string; tone?: 'good' | 'bad' }[] = [
+    { label: 'Trades (Wins / Losses)', value: `${stats.tradeCount} (${stats.winCount} / ${stats.lossCount})` },
+    { label: 'Win Rate', value: `${stats.winRate.toFixed(1)}%` },
+    { label: 'Average Win', value: `${formatCurrency(stats.averageWin)} (${formatR(stats.averageWinR)})` },
+    { label: 'Average Loss', value: `${formatCurrency(stats.averageLoss)} (${formatR(stats.averageLossR)})` },
+    {
+      label: 'Expectancy per Trade',
+      value: `${formatCurrency(stats.expectancy)} (${formatR(stats.expectancyR)})`,
+      tone: stats.expectancy >= 0 ? 'good' : 'bad',
+    },
+    { label: 'Profit Factor', value: stats.profitFactor === null ? 'N/A (no losses)' : stats.profitFactor.toFixed(2) },
+    { label: 'Net P/L', value: formatCurrency(stats.netProfit), tone: stats.netProfit >= 0 ? 'good' : 'bad' },
+    { label: 'Longest Losing Streak', value: `${stats.longestLosingStreak} trade${stats.longestLosingStreak === 1 ? '' : 's'}` },
+    { label: 'Max Drawdown', value: `${formatCurrency(stats.maxDrawdown)} (${stats.maxDrawdownPercentage.toFixed(2)}%)` },
+  ];
+
+  const dateInputClass = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm';
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-x-4">
+        <Dropdown<string>
+          id="journalFilterSymbol"
+          label="Instrument"
+          options={[{ value: '', label: 'All Instruments' }, ...symbols.map((symbol) => ({ value: symbol, label: symbol }))]}
+          value={filter.symbol}
+          onChange={(value) => onFilterChange('symbol', value)}
+        />
+        <Dropdown<TradeType | 'all'>
+          id="journalFilterDirection"
+          label="Direction"
+          options={JOURNAL_DIRECTION_OPTIONS}
+          value={filter.tradeType}
+          onChange={(value) => onFilterChange('tradeType', value)}
+        />
+        <div className="mb-4">
+          <label htmlFor="journalFilterFrom" className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            id="journalFilterFrom"
+            value={filter.from}
+            onChange={(e) => onFilterChange('from', e.target.value)}
+            className={dateInputClass}
+          />
+        </div>
+        <div className="mb-4">
+          <label htmlFor="journalFilterTo" className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            id="journalFilterTo"
+            value={filter.to}
+            onChange={(e) => onFilterChange('to', e.target.value)}
+            className={dateInputClass}
+          />
+        </div>
+        <TextInput
+          id="journalFilterTag"
+          label="Tag"
+          value={filter.tag}
+          onChange={(value) => onFilterChange('tag', value)}
+          placeholder="e.g., breakout"
+        />
+      </div>
+
+      {stats.tradeCount === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-4">
+          No closed trades match. Record fill and exit prices in the journal to see statistics.
+        </p>
+      ) : (
+        <>
+          <EquityCurveChart points={stats.equityCurve} formatCurrency={formatCurrency} />
+
+          <div className="space-y-4 mb-4">
+            {rows.map((row, index) => (
+              <div
+                key={row.label}
+                className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+              >
+                <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+                <span className={`font-semibold ${row.tone === 'good' ? 'text-green-500' : row.tone === 'bad' ? 'text-red-500' : 'text-tst-black dark:text-tst-white'}`}>
+                  {row.value}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={onUseForSizing}
+            className="text-tst-blue font-semibold hover:underline transition-colors"
+          >
+            Use These Stats in the Sizing Models
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JournalStatsPanel;
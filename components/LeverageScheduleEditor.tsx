@@ -0,0 +1,53 @@
+import React from 'react';
+import TextInput from './TextInput';
+
+interface LeverageScheduleEditorProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  categories: string[];
+  values: { [category: string]: string }; // Leverage text per category, as typed
+  onValueChange: (category: string, value: string) => void;
+  activeCategory?: string; // Category of the selected instrument
+}
+
+const LeverageScheduleEditor: React.FC<LeverageScheduleEditorProps> = ({
+  enabled,
+  onEnabledChange,
+  categories,
+  values,
+  onValueChange,
+  activeCategory,
+}) => {
+  return (
+    <div className="mb-4">
+      <label className="inline-flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="form-checkbox text-tst-blue h-4 w-4"
+        />
+        <span className="ml-2 text-sm font-medium text-tst-black dark:text-tst-white">
+          Cap leverage by asset class
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-x-4">
+          {categories.map((category) => (
+            <TextInput
+              key={category}
+              id={`leverageCap-${category}`}
+              label={category === activeCategory ? `${category} (selected)` : category}
+              value={values[category] ?? ''}
+              onChange={(value) => onValueChange(category, value)}
+              placeholder="No cap"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeverageScheduleEditor;
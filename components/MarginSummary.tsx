@@ -0,0 +1,66 @@
+import React from 'react';
+import { MarginAnalysis } from '../types';
+
+interface MarginSummaryProps {
+  analysis: MarginAnalysis;
+  marginCallLevel: number | '';
+  stopOutLevel: number | '';
+  digits: number; // Price decimals of the selected instrument
+  formatCurrency: (amount: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const MarginSummary: React.FC<MarginSummaryProps> = ({
+  analysis,
+  marginCallLevel,
+  stopOutLevel,
+  digits,
+  formatCurrency,
+  formatLotSize,
+}) => {
+  // Describes an adverse move as "1.07500 (120.5 pips away)"
+  const formatMove = (pips: number | null, price: number | null): string => {
+    if (pips === null) return 'N/A';
+    if (pips === 0) return 'Already reached';
+    const distance = `${pips.toFixed(1)} pips away`;
+    return price !== null ? `${price.toFixed(digits)} (${distance})` : distance;
+  };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Margin</h3>
+      <div className="space-y-4">
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Equity:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(analysis.equity)}</span>
+        </div>
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Free Margin (after trade):</span>
+          <span className={`font-semibold ${analysis.freeMarginAfter < 0 ? 'text-red-500' : 'text-tst-black dark:text-tst-white'}`}>
+            {formatCurrency(analysis.freeMarginAfter)}
+          </span>
+        </div>
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Margin Level:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">
+            {analysis.marginLevel !== null ? `${analysis.marginLevel.toFixed(2)}%` : 'N/A'}
+          </span>
+        </div>
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Max Affordable Lot Size:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatLotSize(analysis.maxAffordableLotSize)}</span>
+        </div>
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Margin Call ({marginCallLevel}%) at:</span>
+          <span className="font-semibold text-yellow-600 dark:text-yellow-400">{formatMove(analysis.marginCallPips, analysis.marginCallPrice)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Stop-Out ({stopOutLevel}%) at:</span>
+          <span className="font-semibold text-red-500">{formatMove(analysis.stopOutPips, analysis.stopOutPrice)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarginSummary;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { MarketDataProviderId } from '../types';
+import { MARKET_DATA_PROVIDERS } from '../constants';
+import Dropdown from './Dropdown';
+import TextInput from './TextInput';
+
+interface MarketDataSettingsProps {
+  providerId: MarketDataProviderId;
+  onProviderChange: (id: MarketDataProviderId) => void;
+  url: string;
+  onUrlChange: (value: string) => void;
+  onConnect: () => void;
+}
+
+const MarketDataSettings: React.FC<MarketDataSettingsProps> = ({
+  providerId,
+  onProviderChange,
+  url,
+  onUrlChange,
+  onConnect,
+}) => {
+  return (
+    <div className="mb-4">
+      <Dropdown<MarketDataProviderId>
+        id="marketDataProvider"
+        label="Price Feed"
+        options={MARKET_DATA_PROVIDERS}
+        value={providerId}
+        onChange={onProviderChange}
+      />
+
+      {providerId === 'remote' && (
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <TextInput
+            id="marketDataUrl"
+            label="Feed URL (ws:// streams, http:// polls)"
+            value={url}
+            onChange={onUrlChange}
+            placeholder="e.g., ws://localhost:8080/quotes"
+            className="col-span-3"
+          />
+          <div className="mb-4">
+            <button
+              type="button"
+              onClick={onConnect}
+              disabled={!url.trim()}
+              className="w-full px-2 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              Connect
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MarketDataSettings;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { MarketQuote, QuoteStatus } from '../types';
+
+interface MarketQuotePanelProps {
+  quote: MarketQuote | null;
+  status: QuoteStatus;
+  error: string | null;
+  isStale: boolean;
+  digits: number; // Price decimals of the selected instrument
+  now: number; // Current time, used for the quote age
+  lockEntryPrice: boolean;
+  onLockEntryPriceChange: (locked: boolean) => void;
+  onRefresh: () => void;
+}
+
+const MarketQuotePanel: React.FC<MarketQuotePanelProps> = ({
+  quote,
+  status,
+  error,
+  isStale,
+  digits,
+  now,
+  lockEntryPrice,
+  onLockEntryPriceChange,
+  onRefresh,
+}) => {
+  if (status === 'idle') {
+    return null;
+  }
+
+  const ageSeconds = quote ? Math.max(0, Math.round((now - quote.timestamp) / 1000)) : 0;
+
+  return (
+    <div className="-mt-2 mb-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-gray-700 dark:text-gray-300">
+          {status === 'loading' && !quote && <span>Loading quote...</span>}
+          {status === 'error' && (
+            <span className="text-red-500" role="alert">{error} Enter the price manually or retry.</span>
+          )}
+          {quote && status !== 'error' && (
+            <span>
+              Bid <span className="font-semibold text-tst-black dark:text-tst-white">{quote.bid.toFixed(digits)}</span>
+              {' / '}
+              Ask <span className="font-semibold text-tst-black dark:text-tst-white">{quote.ask.toFixed(digits)}</span>
+              <span className={`ml-2 ${isStale ? 'text-yellow-600 dark:text-yellow-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                {isStale ? `Stale (${ageSeconds}s old)` : `${ageSeconds}s ago`}
+              </span>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          {(status === 'error' || isStale) && (
+            <button
+              type="button"
+              onClick={onRefresh}
+              className="text-tst-blue font-semibold hover:underline transition-colors"
+            >
+              Retry
+            </button>
+          )}
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={lockEntryPrice}
+              onChange={(e) => onLockEntryPriceChange(e.target.checked)}
+              className="form-checkbox text-tst-blue h-4 w-4"
+            />
+            <span className="ml-2 text-tst-black dark:text-tst-white">Lock entry price</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarketQuotePanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { MonteCarloResults } from '../types';
+
+interface MonteCarloResultsPanelProps {
+  results: MonteCarloResults;
+  onApplyRisk: () => void;
+  formatCurrency: (amount: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+
+const MonteCarloResultsPanel: React.FC<MonteCarloResultsPanelProps> = ({
+  results,
+  onApplyRisk,
+  formatCurrency,
+}) => {
+  const { fan } = results;
+  const low = Math.min(...fan.map((step) => step.balance.p5));
+  const high = Math.max(...fan.map((step) => step.balance.p95));
+  const range = high - low || 1;
+  const x = (trade: number) => (trade / results.tradeCount) * WIDTH;
+  const y = (balance: number) => HEIGHT - ((balance - low) / range) * HEIGHT;
+
+  // A band is the area between a lower and an upper percentile across all steps
+  const band = (lower: 'p5' | 'p25', upper: 'p75' | 'p95') => [
+    ...fan.map((step) => `${x(step.trade)},${y(step.balance[upper])}`),
+    ...[...fan].reverse().map((step) => `${x(step.trade)},${y(step.balance[lower])}`),
+  ].join(' ');
+  const median = fan.map((step) => `${x(step.trade)},${y(step.balance.p50)}`).join(' ');
+
+  const rows: { label: string; value: string; alert?: boolean }[] = [
+    {
+      label: `Chance of a ${results.drawdownLevel}% Drawdown`,
+      value: `${results.drawdownProbability.toFixed(1)}%`,
+      alert: results.drawdownProbability >= 50,
+    },
+    {
+      label: `Chance of Ruin (${results.ruinLevel}% Loss)`,
+      value: `${results.ruinProbability.toFixed(1)}%`,
+      alert: results.ruinProbability >= 1,
+    },
+    { label: 'Median Final Balance', value: formatCurrency(results.finalBalance.p50) },
+    { label: 'Final Balance (5th - 95th pct.)', value: `${formatCurrency(results.finalBalance.p5)} - ${formatCurrency(results.finalBalance.p95)}` },
+    { label: 'Median Max Drawdown', value: `${results.maxDrawdown.p50.toFixed(1)}%` },
+    { label: 'Max Drawdown (95th pct.)', value: `${results.maxDrawdown.p95.toFixed(1)}%` },
+  ];
+
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+        <span>{formatCurrency(high)}</span>
+        <span>{results.runCount.toLocaleString()} runs × {results.tradeCount} trades</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-56 bg-gray-50 dark:bg-gray-900 rounded-md text-tst-blue"
+        role="img"
+        aria-label="Fan chart of simulated balances: 5th to 95th and 25th to 75th percentiles with the median"
+      >
+        <polygon points={band('p5', 'p95')} fill="currentColor" opacity={0.15} />
+        <polygon points={band('p25', 'p75')} fill="currentColor" opacity={0.3} />
+        <polyline points={median} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1 mb-4">
+        <span>{formatCurrency(low)}</span>
+        <span>Median, 25th - 75th and 5th - 95th percentiles</span>
+      </div>
+
+      <div className="space-y-4 mb-4">
+        {rows.map((row, index) => (
+          <div
+            key={row.label}
+            className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+          >
+            <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+            <span className={`font-semibold ${row.alert ? 'text-red-500' : 'text-tst-black dark:text-tst-white'}`}>{row.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={onApplyRisk}
+        className="text-tst-blue font-semibold hover:underline transition-colors"
+      >
+        Use {results.riskPercentage}% Risk in the Calculator
+      </button>
+    </div>
+  );
+};
+
+export default MonteCarloResultsPanel;
@@ -0,0 +1,143 @@
+import React from 'react';
+import { MonteCarloFormInputs } from '../types';
+import { MAX_MONTE_CARLO_RUNS, MAX_MONTE_CARLO_TRADES } from '../constants';
+import NumericInput from './NumericInput';
+
+type MonteCarloNumberField = Exclude<keyof MonteCarloFormInputs, 'useJournalR'>;
+
+interface MonteCarloSettingsProps {
+  values: MonteCarloFormInputs;
+  onNumberChange: (field: MonteCarloNumberField, value: number | '') => void;
+  onUseJournalRChange: (useJournalR: boolean) => void;
+  journalTradeCount: number; // Closed trades available as an R distribution
+  onRun: () => void;
+}
+
+const MonteCarloSettings: React.FC<MonteCarloSettingsProps> = ({
+  values,
+  onNumberChange,
+  onUseJournalRChange,
+  journalTradeCount,
+  onRun,
+}) => {
+  const useJournalR = values.useJournalR && journalTradeCount > 0;
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        <NumericInput
+          id="monteCarloRisk"
+          label="Risk per Trade"
+          value={values.riskPercentage}
+          onChange={(value) => onNumberChange('riskPercentage', value)}
+          min={0.01}
+          max={100}
+          step={0.1}
+          placeholder="e.g., 1"
+          unit="%"
+        />
+        <NumericInput
+          id="monteCarloTrades"
+          label="Trades per Run"
+          value={values.tradeCount}
+          onChange={(value) => onNumberChange('tradeCount', value)}
+          min={1}
+          max={MAX_MONTE_CARLO_TRADES}
+          step={10}
+          placeholder="e.g., 200"
+        />
+        <NumericInput
+          id="monteCarloRuns"
+          label="Runs"
+          value={values.runCount}
+          onChange={(value) => onNumberChange('runCount', value)}
+          min={100}
+          max={MAX_MONTE_CARLO_RUNS}
+          step={1000}
+          placeholder="e.g., 5000"
+        />
+      </div>
+
+      <label className="inline-flex items-center mb-4">
+        <input
+          type="checkbox"
+          checked={useJournalR}
+          disabled={journalTradeCount === 0}
+          onChange={(e) => onUseJournalRChange(e.target.checked)}
+          className="form-checkbox text-tst-blue h-4 w-4"
+        />
+        <span className="ml-2 text-tst-black dark:text-tst-white">
+          Draw R multiples from the journal ({journalTradeCount} closed trade{journalTradeCount === 1 ? '' : 's'})
+        </span>
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        {!useJournalR && (
+          <>
+            <NumericInput
+              id="monteCarloWinRate"
+              label="Win Rate"
+              value={values.winRate}
+              onChange={(value) => onNumberChange('winRate', value)}
+              min={0}
+              max={100}
+              step={1}
+              placeholder="e.g., 50"
+              unit="%"
+            />
+            <NumericInput
+              id="monteCarloAverageRR"
+              label="Average R:R"
+              value={values.averageRR}
+              onChange={(value) => onNumberChange('averageRR', value)}
+              min={0}
+              step={0.1}
+              placeholder="e.g., 1.5"
+              unit="R"
+            />
+          </>
+        )}
+        <NumericInput
+          id="monteCarloSeed"
+          label="Seed"
+          value={values.seed}
+          onChange={(value) => onNumberChange('seed', value)}
+          step={1}
+          placeholder="e.g., 42"
+        />
+        <NumericInput
+          id="monteCarloDrawdown"
+          label="Drawdown Level"
+          value={values.drawdownLevel}
+          onChange={(value) => onNumberChange('drawdownLevel', value)}
+          min={1}
+          max={99}
+          step={5}
+          placeholder="e.g., 20"
+          unit="%"
+        />
+        <NumericInput
+          id="monteCarloRuin"
+          label="Ruin Level (loss)"
+          value={values.ruinLevel}
+          onChange={(value) => onNumberChange('ruinLevel', value)}
+          min={1}
+          max={100}
+          step={5}
+          placeholder="e.g., 50"
+          unit="%"
+        />
+      </div>
+
+      <button
+        type="button"
+        onClick={onRun}
+        className="w-full px-6 py-3 mb-4 bg-tst-blue hover:bg-tst-dark-blue text-white font-bold rounded-md shadow-md transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+      >
+        Run Simulation
+      </button>
+    </div>
+  );
+};
+
+export default MonteCarloSettings;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { OpenPositionInput, OpenPositionRisk, TradeType } from '../types';
+import { TRADE_TYPES } from '../constants';
+import Dropdown from './Dropdown';
+import NumericInput from './NumericInput';
+
+interface OpenPositionListProps {
+  positions: OpenPositionInput[];
+  risks: OpenPositionRisk[]; // Assessment of each position, in the same order
+  onTradeTypeChange: (id: string, value: TradeType) => void;
+  onFieldChange: (id: string, field: 'lotSize' | 'entryPrice' | 'stopLossPrice', value: number | '') => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  formatCurrency: (amount: number) => string;
+}
+
+const OpenPositionList: React.FC<OpenPositionListProps> = ({
+  positions,
+  risks,
+  onTradeTypeChange,
+  onFieldChange,
+  onAdd,
+  onRemove,
+  formatCurrency,
+}) => {
+  return (
+    <div className="mb-4">
+      {positions.length === 0 && (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-4">No open positions. Add one here or from a calculation result.</p>
+      )}
+      {positions.map((position, index) => {
+        const risk = risks[index];
+        const priceStep = position.currencyPair.tickSize || 0.00001;
+        return (
+          <div key={position.id} className="pb-2 mb-2 border-b border-gray-200 dark:border-gray-700">
+            <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+              <div className="mb-4 md:col-span-2">
+                <span className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1">Pair</span>
+                <span className="block py-2 font-semibold text-tst-black dark:text-tst-white">{position.currencyPair.symbol}</span>
+              </div>
+              <Dropdown<TradeType>
+                id={`positionType-${position.id}`}
+                label="Direction"
+                options={TRADE_TYPES}
+                value={position.tradeType}
+                onChange={(value) => onTradeTypeChange(position.id, value)}
+                className="md:col-span-3"
+              />
+              <NumericInput
+                id={`positionLots-${position.id}`}
+                label="Lots"
+                value={position.lotSize}
+                onChange={(value) => onFieldChange(position.id, 'lotSize', value)}
+                min={0}
+                step={position.currencyPair.lotStep || 0.01}
+                placeholder="e.g., 0.5"
+                className="md:col-span-2"
+              />
+              <NumericInput
+                id={`positionEntry-${position.id}`}
+                label="Entry"
+                value={position.entryPrice}
+                onChange={(value) => onFieldChange(position.id, 'entryPrice', value)}
+                min={0}
+                step={priceStep}
+                placeholder="Price"
+                className="md:col-span-2"
+              />
+              <NumericInput
+                id={`positionStop-${position.id}`}
+                label="Stop Loss"
+                value={position.stopLossPrice}
+                onChange={(value) => onFieldChange(position.id, 'stopLossPrice', value)}
+                min={0}
+                step={priceStep}
+                placeholder="None"
+                className="md:col-span-2"
+              />
+              <div className="mb-4">
+                <button
+                  type="button"
+                  onClick={() => onRemove(position.id)}
+                  className="w-full px-2 py-2 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-600 transition-colors duration-200"
+                  aria-label={`Remove position ${index + 1}`}
+                >
+                  &times;
+                </button>
+              </div>
+            </div>
+            {risk && (
+              <p className={`-mt-2 text-sm ${risk.issue ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                {risk.issue ?? `At risk: ${formatCurrency(risk.riskAmount ?? 0)}`}
+                {risk.marginRequired !== null && ` · Margin: ${formatCurrency(risk.marginRequired)}`}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={onAdd}
+        className="text-tst-blue font-semibold hover:underline transition-colors"
+      >
+        + Add Position
+      </button>
+    </div>
+  );
+};
+
+export default OpenPositionList;
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface PaginationProps {
+  page: number; // Zero-based
+  hasMore: boolean; // Whether a later page exists; the total is not counted
+  onPageChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, hasMore, onPageChange }) => {
+  if (page === 0 && !hasMore) {
+    return null;
+  }
+
+  const buttonClass = 'text-tst-blue font-semibold hover:underline transition-colors disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex justify-between items-center mt-4">
+      <button type="button" onClick={() => onPageChange(page - 1)} disabled={page === 0} className={buttonClass}>
+        &larr; Newer
+      </button>
+      <span className="text-sm text-gray-500 dark:text-gray-400">
+        Page {page + 1}
+      </span>
+      <button type="button" onClick={() => onPageChange(page + 1)} disabled={!hasMore} className={buttonClass}>
+        Older &rarr;
+      </button>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PortfolioRisk } from '../types';
+
+interface PortfolioRiskPanelProps {
+  portfolio: PortfolioRisk;
+  positionCount: number;
+  formatCurrency: (amount: number) => string;
+}
+
+const PortfolioRiskPanel: React.FC<PortfolioRiskPanelProps> = ({ portfolio, positionCount, formatCurrency }) => {
+  const hasNewTrade = portfolio.newTradeRiskAmount !== null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">Portfolio Risk</h3>
+
+      {portfolio.unprotectedCount > 0 && (
+        <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-4" role="alert">
+          <strong className="font-bold">Unprotected positions.</strong>
+          <span className="block sm:inline ml-2">
+            {portfolio.unprotectedCount} open position{portfolio.unprotectedCount === 1 ? ' has' : 's have'} no stop loss and {portfolio.unprotectedCount === 1 ? 'is' : 'are'} not counted in the risk total.
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Open Positions ({positionCount}) at Risk:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(portfolio.openRiskAmount)}</span>
+        </div>
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Open Positions Margin:</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(portfolio.openMarginRequired)}</span>
+        </div>
+        {hasNewTrade && (
+          <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="font-medium text-gray-700 dark:text-gray-300">This Trade at Risk / Margin:</span>
+            <span className="font-semibold text-tst-black dark:text-tst-white">
+              {formatCurrency(portfolio.newTradeRiskAmount ?? 0)} / {formatCurrency(portfolio.newTradeMarginRequired ?? 0)}
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between items-center pb-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{hasNewTrade ? 'Total Margin (with this trade):' : 'Total Margin:'}</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">{formatCurrency(portfolio.totalMarginRequired)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{hasNewTrade ? 'Total at Risk (with this trade):' : 'Total at Risk:'}</span>
+          <span className="font-semibold text-tst-black dark:text-tst-white">
+            {formatCurrency(portfolio.totalRiskAmount)} ({portfolio.totalRiskPercentage.toFixed(2)}% of account)
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioRiskPanel;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { DailyLossBasis, DrawdownBasis, PropFirmCheck, PropFirmRules, PropFirmStatus } from '../types';
+import { DAILY_LOSS_BASIS_OPTIONS, DRAWDOWN_BASIS_OPTIONS, PROP_FIRM_PRESETS } from '../constants';
+import Dropdown from './Dropdown';
+import NumericInput from './NumericInput';
+import TextInput from './TextInput';
+
+type PropFirmNumberField = 'dailyLossPercent' | 'maxDrawdownPercent' | 'maxLotsPerTrade';
+
+interface PropFirmSettingsProps {
+  profiles: PropFirmRules[];
+  activeId: string; // Empty when no rules apply
+  onActiveChange: (id: string) => void;
+  onAddProfile: (presetId: string) => void; // Empty preset ID adds a blank profile
+  onRemoveProfile: (id: string) => void;
+  onNameChange: (name: string) => void;
+  onNumberChange: (field: PropFirmNumberField, value: number | '') => void;
+  onDailyLossBasisChange: (basis: DailyLossBasis) => void;
+  onDrawdownBasisChange: (basis: DrawdownBasis) => void;
+  status: PropFirmStatus;
+  onStatusChange: (field: keyof PropFirmStatus, value: number | '') => void;
+  check: PropFirmCheck | null;
+  formatCurrency: (amount: number) => string;
+}
+
+const PropFirmSettings: React.FC<PropFirmSettingsProps> = ({
+  profiles,
+  activeId,
+  onActiveChange,
+  onAddProfile,
+  onRemoveProfile,
+  onNameChange,
+  onNumberChange,
+  onDailyLossBasisChange,
+  onDrawdownBasisChange,
+  status,
+  onStatusChange,
+  check,
+  formatCurrency,
+}) => {
+  const [presetId, setPresetId] = useState<string>(PROP_FIRM_PRESETS[0].id);
+  const activeProfile = profiles.find((profile) => profile.id === activeId);
+
+  const formatRemaining = (remaining: number | null) => {
+    if (remaining === null) {
+      return 'No limit';
+    }
+    return remaining > 0 ? formatCurrency(remaining) : 'Breached';
+  };
+
+  const rows: { label: string; value: string; alert?: boolean }[] = check ? [
+    { label: 'Current Equity', value: formatCurrency(check.equity) },
+    {
+      label: 'Daily Loss (Used / Limit)',
+      value: check.dailyLimit === null ? 'No limit' : `${formatCurrency(check.dailyLoss)} / ${formatCurrency(check.dailyLimit)}`,
+    },
+    { label: 'Daily Allowance Left', value: formatRemaining(check.dailyRemaining), alert: check.dailyRemaining !== null && check.dailyRemaining <= 0 },
+    { label: 'Drawdown Floor', value: check.drawdownFloor === null ? 'No limit' : formatCurrency(check.drawdownFloor) },
+    { label: 'Overall Allowance Left', value: formatRemaining(check.overallRemaining), alert: check.overallRemaining !== null && check.overallRemaining <= 0 },
+    { label: 'Max Lots per Trade', value: check.maxLotsPerTrade === null ? 'No limit' : String(check.maxLotsPerTrade) },
+  ] : [];
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+        <Dropdown<string>
+          id="propFirmActive"
+          label="Active Rules"
+          options={[{ value: '', label: 'Off' }, ...profiles.map((profile) => ({ value: profile.id, label: profile.name || 'Untitled' }))]}
+          value={activeId}
+          onChange={onActiveChange}
+        />
+        <div className="flex items-end gap-x-2">
+          <Dropdown<string>
+            id="propFirmPreset"
+            label="New Profile From"
+            options={[...PROP_FIRM_PRESETS.map((preset) => ({ value: preset.id, label: preset.name })), { value: '', label: 'Blank Profile' }]}
+            value={presetId}
+            onChange={setPresetId}
+            className="flex-1"
+          />
+          <button
+            type="button"
+            onClick={() => onAddProfile(presetId)}
+            className="mb-4 px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md transition-colors duration-200"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {activeProfile && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+            <TextInput
+              id="propFirmName"
+              label="Profile Name"
+              value={activeProfile.name}
+              onChange={onNameChange}
+              placeholder="e.g., 100k Challenge"
+            />
+            <NumericInput
+              id="propFirmDailyLoss"
+              label="Max Daily Loss"
+              value={activeProfile.dailyLossPercent}
+              onChange={(value) => onNumberChange('dailyLossPercent', value)}
+              min={0}
+              max={100}
+              step={0.5}
+              placeholder="Empty for none"
+              unit="%"
+            />
+            <Dropdown<DailyLossBasis>
+              id="propFirmDailyLossBasis"
+              label="Daily Loss Measured As"
+              options={DAILY_LOSS_BASIS_OPTIONS}
+              value={activeProfile.dailyLossBasis}
+              onChange={onDailyLossBasisChange}
+            />
+            <NumericInput
+              id="propFirmMaxLots"
+              label="Max Lots per Trade"
+              value={activeProfile.maxLotsPerTrade}
+              onChange={(value) => onNumberChange('maxLotsPerTrade', value)}
+              min={0}
+              step={0.1}
+              placeholder="Empty for none"
+              unit="lots"
+            />
+            <NumericInput
+              id="propFirmMaxDrawdown"
+              label="Max Overall Drawdown"
+              value={activeProfile.maxDrawdownPercent}
+              onChange={(value) => onNumberChange('maxDrawdownPercent', value)}
+              min={0}
+              max={100}
+              step={0.5}
+              placeholder="Empty for none"
+              unit="%"
+            />
+            <Dropdown<DrawdownBasis>
+              id="propFirmDrawdownBasis"
+              label="Drawdown Type"
+              options={DRAWDOWN_BASIS_OPTIONS}
+              value={activeProfile.drawdownBasis}
+              onChange={onDrawdownBasisChange}
+            />
+          </div>
+
+          <h3 className="text-lg font-bold text-tst-blue mb-3">Today's Account Status</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+            <NumericInput
+              id="propFirmInitialBalance"
+              label="Initial Balance"
+              value={status.initialBalance}
+              onChange={(value) => onStatusChange('initialBalance', value)}
+              min={0}
+              step={1000}
+              placeholder="Account size"
+            />
+            <NumericInput
+              id="propFirmDayStartBalance"
+              label="Balance at Day Start"
+              value={status.dayStartBalance}
+              onChange={(value) => onStatusChange('dayStartBalance', value)}
+              min={0}
+              step={100}
+              placeholder="Initial balance"
+            />
+            <NumericInput
+              id="propFirmHighestBalance"
+              label="Highest Balance"
+              value={status.highestBalance}
+              onChange={(value) => onStatusChange('highestBalance', value)}
+              min={0}
+              step={100}
+              placeholder="Initial balance"
+            />
+            <NumericInput
+              id="propFirmRealizedToday"
+              label="Realized P/L Today"
+              value={status.realizedToday}
+              onChange={(value) => onStatusChange('realizedToday', value)}
+              step={10}
+              placeholder="e.g., -250"
+            />
+            <NumericInput
+              id="propFirmOpenPnl"
+              label="Open P/L"
+              value={status.openPnl}
+              onChange={(value) => onStatusChange('openPnl', value)}
+              step={10}
+              placeholder="e.g., 120"
+            />
+          </div>
+
+          {check && (
+            <div className="space-y-4 mb-4">
+              {rows.map((row, index) => (
+                <div
+                  key={row.label}
+                  className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+                >
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+                  <span className={`font-semibold ${row.alert ? 'text-red-500' : 'text-tst-black dark:text-tst-white'}`}>{row.value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={() => onRemoveProfile(activeProfile.id)}
+            className="text-red-500 font-semibold hover:underline transition-colors"
+          >
+            Delete Profile
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PropFirmSettings;
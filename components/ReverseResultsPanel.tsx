@@ -0,0 +1,91 @@
+import React from 'react';
+import { ReverseResults } from '../types';
+
+interface ReverseResultsPanelProps {
+  results: ReverseResults;
+  symbol: string;
+  digits: number; // Price decimals of the selected instrument
+  formatCurrency: (amount: number) => string;
+  formatNumber: (num: number, decimals?: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const ReverseResultsPanel: React.FC<ReverseResultsPanelProps> = ({
+  results,
+  symbol,
+  digits,
+  formatCurrency,
+  formatNumber,
+  formatLotSize,
+}) => {
+  let headline: { label: string; value: string; detail: string };
+  switch (results.solveFor) {
+    case 'stopLoss':
+      headline = {
+        label: 'Maximum Stop Loss',
+        value: formatNumber(results.stopLossPrice, digits),
+        detail: `${formatNumber(results.stopLossPips, 1)} pips from entry`,
+      };
+      break;
+    case 'risk':
+      headline = {
+        label: 'Risk at Stop Loss',
+        value: formatCurrency(results.riskAmount),
+        detail: `${formatNumber(results.riskPercentage, 2)}% of account`,
+      };
+      break;
+    case 'accountSize':
+    default:
+      headline = {
+        label: 'Required Account Size',
+        value: formatCurrency(results.accountSize),
+        detail: `to risk ${formatNumber(results.riskPercentage, 2)}% on this trade`,
+      };
+      break;
+  }
+
+  const rows: { label: string; value: string }[] = [
+    { label: 'Pair', value: symbol },
+    { label: 'Lot Size', value: formatLotSize(results.lotSize) },
+    { label: 'Stop Loss Price', value: formatNumber(results.stopLossPrice, digits) },
+    {
+      label: 'Stop Loss Pips (chart / executable)',
+      value: `${formatNumber(results.stopLossPips, 1)} / ${formatNumber(results.executableStopLossPips, 1)} pips`,
+    },
+    { label: 'Loss at Stop Loss', value: formatCurrency(results.stopLossAmount) },
+    ...(results.spreadCost > 0 ? [{ label: 'Spread Cost', value: formatCurrency(results.spreadCost) }] : []),
+    ...(results.commissionCost > 0 ? [{ label: 'Commission', value: formatCurrency(results.commissionCost) }] : []),
+    { label: 'Total Risk', value: `${formatCurrency(results.riskAmount)} (${formatNumber(results.riskPercentage, 2)}%)` },
+    { label: 'Account Size', value: formatCurrency(results.accountSize) },
+    { label: 'Risk per Pip', value: formatCurrency(results.riskPerPip) },
+    {
+      label: 'Leverage Applied',
+      value: `${results.appliedLeverage}${results.leverageCategory ? ` (${results.leverageCategory} cap)` : ''}`,
+    },
+    { label: 'Margin Required', value: formatCurrency(results.marginRequired) },
+  ];
+
+  return (
+    <div>
+      <div className="bg-tst-blue text-tst-white p-6 rounded-lg text-center mb-6 shadow-md">
+        <p className="text-sm font-medium opacity-80 mb-1">{headline.label}</p>
+        <p className="text-5xl font-extrabold">{headline.value}</p>
+        <p className="text-sm font-medium opacity-80 mt-1">({headline.detail})</p>
+      </div>
+
+      <div className="space-y-4">
+        {rows.map((row, index) => (
+          <div
+            key={row.label}
+            className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+          >
+            <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+            <span className="font-semibold text-tst-black dark:text-tst-white">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReverseResultsPanel;
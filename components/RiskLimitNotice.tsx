@@ -0,0 +1,22 @@
+import React from 'react';
+import { PropFirmCheck } from '../types';
+
+interface RiskLimitNoticeProps {
+  applied: 'risk' | 'lots'; // Which cap reduced the lot size
+  check: PropFirmCheck | null; // The rule check the cap came from
+  formatCurrency: (amount: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const RiskLimitNotice: React.FC<RiskLimitNoticeProps> = ({ applied, check, formatCurrency, formatLotSize }) => (
+  <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+    <strong className="font-bold">Reduced by prop-firm rules.</strong>
+    <span className="block sm:inline ml-2">
+      {applied === 'lots'
+        ? `The lot size was capped at the ${formatLotSize(check?.maxLotsPerTrade ?? 0)} lots allowed per trade.`
+        : `The lot size was reduced so a stop-out stays within the remaining ${check?.bindingRule === 'daily' ? 'daily loss' : 'overall drawdown'} allowance of ${formatCurrency(Math.max(0, check?.allowance ?? 0))}.`}
+    </span>
+  </div>
+);
+
+export default RiskLimitNotice;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { CalculationIssue, ScaleInEntryInput } from '../types';
+import NumericInput from './NumericInput';
+import FieldIssues from './FieldIssues';
+
+interface ScaleInEntryListProps {
+  entries: ScaleInEntryInput[];
+  onPriceChange: (id: string, value: number | '') => void;
+  onWeightChange: (id: string, value: number | '') => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  issues?: CalculationIssue[]; // Issues whose index refers to a row in this list
+  priceStep: number;
+}
+
+const ScaleInEntryList: React.FC<ScaleInEntryListProps> = ({
+  entries,
+  onPriceChange,
+  onWeightChange,
+  onAdd,
+  onRemove,
+  issues = [],
+  priceStep,
+}) => {
+  return (
+    <div className="mb-4">
+      <span className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
+        Scale-In Entries
+      </span>
+
+      {entries.map((entry, index) => (
+        <React.Fragment key={entry.id}>
+          <div className="grid grid-cols-7 gap-2 items-end">
+            <NumericInput
+              id={`scaleInPrice-${entry.id}`}
+              label={`Entry ${index + 1} Price`}
+              value={entry.price}
+              onChange={(value) => onPriceChange(entry.id, value)}
+              min={0}
+              step={priceStep}
+              placeholder="e.g., 1.0680"
+              className="col-span-4"
+            />
+            <NumericInput
+              id={`scaleInWeight-${entry.id}`}
+              label="Weight"
+              value={entry.weight}
+              onChange={(value) => onWeightChange(entry.id, value)}
+              min={0}
+              step={1}
+              placeholder="e.g., 1"
+              className="col-span-2"
+            />
+            <div className="mb-4">
+              <button
+                type="button"
+                onClick={() => onRemove(entry.id)}
+                disabled={entries.length <= 2}
+                className="w-full px-2 py-2 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                aria-label={`Remove entry ${index + 1}`}
+              >
+                &times;
+              </button>
+            </div>
+          </div>
+          <FieldIssues issues={issues.filter((issue) => issue.index === index)} />
+        </React.Fragment>
+      ))}
+
+      <button
+        type="button"
+        onClick={onAdd}
+        className="text-tst-blue font-semibold hover:underline transition-colors"
+      >
+        + Add Entry
+      </button>
+    </div>
+  );
+};
+
+export default ScaleInEntryList;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { CurrencyPair, PropFirmCheck, RiskLevel, ScaleInResults, TradeType } from '../types';
+import RiskIndicator from './RiskIndicator';
+import RiskLimitNotice from './RiskLimitNotice';
+
+interface ScaleInResultsPanelProps {
+  results: ScaleInResults;
+  currencyPair: CurrencyPair;
+  tradeType: TradeType;
+  riskLevel: RiskLevel;
+  propFirmCheck: PropFirmCheck | null; // Explains a lot size reduced by prop-firm rules
+  formatCurrency: (amount: number) => string;
+  formatNumber: (num: number, decimals?: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const ScaleInResultsPanel: React.FC<ScaleInResultsPanelProps> = ({
+  results,
+  currencyPair,
+  tradeType,
+  riskLevel,
+  propFirmCheck,
+  formatCurrency,
+  formatNumber,
+  formatLotSize,
+}) => {
+  const rows: { label: string; value: React.ReactNode }[] = [
+    { label: 'Pair', value: currencyPair.symbol },
+    { label: 'Trade Type', value: tradeType === 'buy' ? 'Buy (Long)' : 'Sell (Short)' },
+    {
+      label: 'Risk Level',
+      value: (
+        <>
+          <RiskIndicator level={riskLevel} />
+          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">({formatNumber(results.effectiveRiskPercentage, 2)}%)</span>
+        </>
+      ),
+    },
+    { label: 'Average Entry Price', value: formatNumber(results.averageEntryPrice, currencyPair.digits) },
+    { label: 'Stop Loss Pips (from average)', value: `${formatNumber(results.averageStopLossPips, 1)} pips` },
+    { label: 'Total Risk (all entries filled)', value: formatCurrency(results.totalRiskAmount) },
+    {
+      label: 'Leverage Applied',
+      value: `${results.appliedLeverage}${results.leverageCategory ? ` (${results.leverageCategory} cap)` : ''}`,
+    },
+    { label: 'Margin Required (all entries filled)', value: formatCurrency(results.marginRequired) },
+  ];
+
+  return (
+    <>
+      {/* Scale-In Total Lot Size */}
+      <div className="bg-tst-blue text-tst-white p-6 rounded-lg text-center mb-6 shadow-md">
+        <p className="text-sm font-medium opacity-80 mb-1">Total Scale-In Lot Size</p>
+        <p className="text-5xl font-extrabold">{formatLotSize(results.totalLotSize)}</p>
+        <p className="text-sm font-medium opacity-80 mt-1">across {results.entries.length} entries</p>
+      </div>
+
+      {results.marginAnalysis?.exceedsFreeMargin && (
+        <div className="bg-red-100 dark:bg-red-900 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded mb-6" role="alert">
+          <strong className="font-bold">Insufficient margin.</strong>
+          <span className="block sm:inline ml-2">
+            This trade needs {formatCurrency(results.marginRequired)} of margin but only {formatCurrency(Math.max(0, results.marginAnalysis.freeMarginBefore))} is free; the broker would reject it. At most {formatLotSize(results.marginAnalysis.maxAffordableLotSize)} lots fit.
+          </span>
+        </div>
+      )}
+
+      {results.riskLimitApplied && (
+        <RiskLimitNotice
+          applied={results.riskLimitApplied}
+          check={propFirmCheck}
+          formatCurrency={formatCurrency}
+          formatLotSize={formatLotSize}
+        />
+      )}
+
+      {results.minLotExceedsRisk && (
+        <div className="bg-yellow-100 dark:bg-yellow-900 border border-yellow-400 dark:border-yellow-700 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded mb-6" role="alert">
+          <strong className="font-bold">Minimum lot exceeds risk.</strong>
+          <span className="block sm:inline ml-2">
+            At least one entry was raised to the broker minimum of {formatLotSize(currencyPair.minLot)}, pushing risk to {formatNumber(results.effectiveRiskPercentage, 2)}%.
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {rows.map((row, index) => (
+          <div
+            key={row.label}
+            className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+          >
+            <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+            <span className="font-semibold text-tst-black dark:text-tst-white">{row.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-Entry Allocation, in fill order */}
+      <div className="mt-6">
+        <h3 className="text-lg font-bold text-tst-blue mb-3">Entries (in fill order)</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-2">Entry</th>
+                <th className="py-2 pr-2">Price</th>
+                <th className="py-2 pr-2">Lots</th>
+                <th className="py-2 pr-2">SL Pips</th>
+                <th className="py-2 pr-2">Risk</th>
+                <th className="py-2">Risk if filled up to here</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.entries.map((entry, index) => (
+                <tr key={index} className="border-b border-gray-200 dark:border-gray-700 text-tst-black dark:text-tst-white">
+                  <td className="py-2 pr-2 font-medium">#{index + 1}</td>
+                  <td className="py-2 pr-2">{formatNumber(entry.price, currencyPair.digits)}</td>
+                  <td className="py-2 pr-2">{formatLotSize(entry.lots)}</td>
+                  <td className="py-2 pr-2">{formatNumber(entry.stopLossPips, 1)}</td>
+                  <td className="py-2 pr-2">{formatCurrency(entry.riskAmount)}</td>
+                  <td className="py-2">{formatCurrency(entry.cumulativeRiskAmount)} ({formatNumber(entry.cumulativeRiskPercentage, 2)}%)</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ScaleInResultsPanel;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { SizingFormInputs } from '../types';
+import NumericInput from './NumericInput';
+
+type SizingNumberField = Exclude<keyof SizingFormInputs, 'model' | 'tradeResults'>;
+
+interface SizingModelSettingsProps {
+  values: SizingFormInputs;
+  accountCurrency: string;
+  onNumberChange: (field: SizingNumberField, value: number | '') => void;
+  onTradeResultsChange: (value: string) => void;
+}
+
+const SizingModelSettings: React.FC<SizingModelSettingsProps> = ({
+  values,
+  accountCurrency,
+  onNumberChange,
+  onTradeResultsChange,
+}) => {
+  const fractionInput = (
+    <NumericInput
+      id="sizingFraction"
+      label={values.model === 'kelly' ? 'Kelly Fraction' : 'Fraction of Optimal f'}
+      value={values.fraction}
+      onChange={(value) => onNumberChange('fraction', value)}
+      min={0}
+      max={100}
+      step={5}
+      placeholder="e.g., 50"
+      unit="%"
+    />
+  );
+
+  if (values.model === 'kelly') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        <NumericInput
+          id="sizingWinRate"
+          label="Win Rate"
+          value={values.winRate}
+          onChange={(value) => onNumberChange('winRate', value)}
+          min={0}
+          max={100}
+          step={1}
+          placeholder="e.g., 55"
+          unit="%"
+        />
+        <NumericInput
+          id="sizingAverageWinR"
+          label="Average Win"
+          value={values.averageWinR}
+          onChange={(value) => onNumberChange('averageWinR', value)}
+          min={0}
+          step={0.1}
+          placeholder="e.g., 1.5"
+          unit="R"
+        />
+        {fractionInput}
+      </div>
+    );
+  }
+
+  if (values.model === 'fixedRatio') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+        <NumericInput
+          id="sizingStartingBalance"
+          label="Starting Balance"
+          value={values.startingBalance}
+          onChange={(value) => onNumberChange('startingBalance', value)}
+          min={0}
+          step={100}
+          placeholder="e.g., 10000"
+          unit={accountCurrency}
+        />
+        <NumericInput
+          id="sizingDelta"
+          label="Delta"
+          value={values.delta}
+          onChange={(value) => onNumberChange('delta', value)}
+          min={0}
+          step={100}
+          placeholder="e.g., 1000"
+          unit={accountCurrency}
+        />
+        <NumericInput
+          id="sizingRiskPerUnit"
+          label="Risk per Unit"
+          value={values.riskPerUnit}
+          onChange={(value) => onNumberChange('riskPerUnit', value)}
+          min={0}
+          step={10}
+          placeholder="e.g., 50"
+          unit={accountCurrency}
+        />
+      </div>
+    );
+  }
+
+  if (values.model === 'optimalF') {
+    return (
+      <div>
+        <div className="mb-4">
+          <label
+            htmlFor="sizingTradeResults"
+            className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1"
+          >
+            Trade Results ({accountCurrency})
+          </label>
+          <textarea
+            id="sizingTradeResults"
+            value={values.tradeResults}
+            onChange={(e) => onTradeResultsChange(e.target.value)}
+            rows={3}
+            placeholder="e.g., 120, -80, 45, -60, 200"
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+          />
+        </div>
+        {fractionInput}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default SizingModelSettings;
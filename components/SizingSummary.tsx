@@ -0,0 +1,61 @@
+import React from 'react';
+import { SizingResult } from '../types';
+import { SIZING_MODELS } from '../constants';
+
+interface SizingSummaryProps {
+  sizing: SizingResult;
+  formatCurrency: (amount: number) => string;
+}
+
+const SizingSummary: React.FC<SizingSummaryProps> = ({ sizing, formatCurrency }) => {
+  const { inputs } = sizing;
+  const formatFraction = (fraction: number | null) => (fraction === null ? 'N/A' : `${(fraction * 100).toFixed(2)}%`);
+
+  let rows: { label: string; value: string }[];
+  switch (sizing.model) {
+    case 'kelly':
+      rows = [
+        { label: 'Win Rate / Average Win', value: `${inputs.winRate}% / ${inputs.averageWinR}R` },
+        { label: 'Full Kelly', value: formatFraction(sizing.fullFraction) },
+        { label: `Applied (${inputs.fraction}% Kelly)`, value: formatFraction(sizing.appliedFraction) },
+      ];
+      break;
+    case 'fixedRatio':
+      rows = [
+        { label: 'Starting Balance / Delta', value: `${formatCurrency(inputs.startingBalance)} / ${formatCurrency(inputs.delta)}` },
+        { label: 'Units', value: `${sizing.units} × ${formatCurrency(inputs.riskPerUnit)}` },
+        { label: 'Next Unit At', value: sizing.nextUnitBalance !== null ? formatCurrency(sizing.nextUnitBalance) : 'N/A' },
+      ];
+      break;
+    case 'optimalF':
+    default:
+      rows = [
+        { label: 'Trades / Biggest Loss', value: `${sizing.tradeCount} / ${sizing.biggestLoss !== null ? formatCurrency(sizing.biggestLoss) : 'N/A'}` },
+        { label: 'Optimal f', value: sizing.fullFraction !== null ? sizing.fullFraction.toFixed(4) : 'N/A' },
+        { label: `Applied (${inputs.fraction}% of f)`, value: formatFraction(sizing.appliedFraction) },
+      ];
+      break;
+  }
+  rows.push({ label: 'Risk from Model', value: `${formatCurrency(sizing.riskAmount)} (${sizing.riskPercentage.toFixed(2)}%)` });
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-bold text-tst-blue mb-3">
+        Sizing: {SIZING_MODELS.find((option) => option.value === sizing.model)?.label}
+      </h3>
+      <div className="space-y-4">
+        {rows.map((row, index) => (
+          <div
+            key={row.label}
+            className={`flex justify-between items-center ${index < rows.length - 1 ? 'pb-2 border-b border-gray-200 dark:border-gray-700' : ''}`}
+          >
+            <span className="font-medium text-gray-700 dark:text-gray-300">{row.label}:</span>
+            <span className="font-semibold text-tst-black dark:text-tst-white">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SizingSummary;
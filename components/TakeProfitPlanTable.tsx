@@ -0,0 +1,48 @@
+import React from 'react';
+import { TakeProfitTargetResult } from '../types';
+
+interface TakeProfitPlanTableProps {
+  targets: TakeProfitTargetResult[];
+  digits: number; // Price decimals of the selected instrument
+  formatCurrency: (amount: number) => string;
+  formatNumber: (num: number, decimals?: number) => string;
+  formatLotSize: (lotSize: number) => string;
+}
+
+const TakeProfitPlanTable: React.FC<TakeProfitPlanTableProps> = ({ targets, digits, formatCurrency, formatNumber, formatLotSize }) => (
+  <div className="mt-6">
+    <h3 className="text-lg font-bold text-tst-blue mb-3">Take Profit Plan</h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-700 dark:text-gray-300 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-2 pr-2">Target</th>
+            <th className="py-2 pr-2">Price</th>
+            <th className="py-2 pr-2">Close</th>
+            <th className="py-2 pr-2">Lots</th>
+            <th className="py-2 pr-2">Pips</th>
+            <th className="py-2 pr-2">Exec. Pips</th>
+            <th className="py-2 pr-2">Profit</th>
+            <th className="py-2">R</th>
+          </tr>
+        </thead>
+        <tbody>
+          {targets.map((target, index) => (
+            <tr key={index} className="border-b border-gray-200 dark:border-gray-700 text-tst-black dark:text-tst-white">
+              <td className="py-2 pr-2 font-medium">TP{index + 1}</td>
+              <td className="py-2 pr-2">{formatNumber(target.price, digits)}</td>
+              <td className="py-2 pr-2">{formatNumber(target.closePercent, 0)}%</td>
+              <td className="py-2 pr-2">{formatLotSize(target.lots)}</td>
+              <td className="py-2 pr-2">{formatNumber(target.pips, 1)}</td>
+              <td className="py-2 pr-2">{formatNumber(target.executablePips ?? target.pips, 1)}</td>
+              <td className="py-2 pr-2 text-green-500">{formatCurrency(target.profit)}</td>
+              <td className="py-2">{formatNumber(target.rMultiple, 2)}R</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default TakeProfitPlanTable;
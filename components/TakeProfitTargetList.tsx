@@ -0,0 +1,108 @@
+import React from 'react';
+import { CalculationIssue, TakeProfitTargetInput } from '../types';
+import NumericInput from './NumericInput';
+import FieldIssues from './FieldIssues';
+
+interface TakeProfitTargetListProps {
+  targets: TakeProfitTargetInput[];
+  onPriceChange: (id: string, value: number | '') => void;
+  onPipsChange: (id: string, value: number | '') => void;
+  onClosePercentChange: (id: string, value: number | '') => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  issues?: CalculationIssue[]; // Issues whose index refers to a row in this list
+  priceStep: number;
+  pipsStep: number;
+}
+
+const TakeProfitTargetList: React.FC<TakeProfitTargetListProps> = ({
+  targets,
+  onPriceChange,
+  onPipsChange,
+  onClosePercentChange,
+  onAdd,
+  onRemove,
+  issues = [],
+  priceStep,
+  pipsStep,
+}) => {
+  const totalClosePercent = targets.reduce(
+    (sum, t) => sum + (typeof t.closePercent === 'number' ? t.closePercent : 0),
+    0,
+  );
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <span className="block text-sm font-medium text-tst-black dark:text-tst-white">
+          Take Profit Targets (Optional)
+        </span>
+        <span className={`text-sm ${totalClosePercent > 100 ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+          {totalClosePercent}% of position closed
+        </span>
+      </div>
+
+      {targets.map((target, index) => (
+        <React.Fragment key={target.id}>
+          <div className="grid grid-cols-7 gap-2 items-end">
+            <NumericInput
+              id={`takeProfitPrice-${target.id}`}
+              label={`TP${index + 1} Price`}
+              value={target.priceInput}
+              onChange={(value) => onPriceChange(target.id, value)}
+              min={0}
+              step={priceStep}
+              placeholder="e.g., 1.0800"
+              className="col-span-2"
+            />
+            <NumericInput
+              id={`takeProfitPips-${target.id}`}
+              label={`TP${index + 1} Pips`}
+              value={target.pipsInput}
+              onChange={(value) => onPipsChange(target.id, value)}
+              min={0}
+              step={pipsStep}
+              placeholder="e.g., 100"
+              unit="pips"
+              className="col-span-2"
+            />
+            <NumericInput
+              id={`takeProfitClose-${target.id}`}
+              label="Close"
+              value={target.closePercent}
+              onChange={(value) => onClosePercentChange(target.id, value)}
+              min={0}
+              max={100}
+              step={5}
+              placeholder="e.g., 50"
+              unit="%"
+              className="col-span-2"
+            />
+            <div className="mb-4">
+              <button
+                type="button"
+                onClick={() => onRemove(target.id)}
+                disabled={targets.length === 1}
+                className="w-full px-2 py-2 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                aria-label={`Remove TP${index + 1}`}
+              >
+                &times;
+              </button>
+            </div>
+          </div>
+          <FieldIssues issues={issues.filter((issue) => issue.index === index)} />
+        </React.Fragment>
+      ))}
+
+      <button
+        type="button"
+        onClick={onAdd}
+        className="text-tst-blue font-semibold hover:underline transition-colors"
+      >
+        + Add Target
+      </button>
+    </div>
+  );
+};
+
+export default TakeProfitTargetList;
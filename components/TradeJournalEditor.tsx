@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { CalculationIssue, HistoryEntry, PartialExit, TradeJournal } from '../types';
+import { getPlannedPosition } from '../services/journalService';
+import FieldIssues from './FieldIssues';
+import NumericInput from './NumericInput';
+import TextInput from './TextInput';
+
+type TradeJournalDraft = Omit<TradeJournal, 'outcome'>;
+
+interface TradeJournalEditorProps {
+  entry: HistoryEntry;
+  issues: CalculationIssue[];
+  onSave: (draft: TradeJournalDraft) => void;
+  onCancel: () => void;
+}
+
+const TradeJournalEditor: React.FC<TradeJournalEditorProps> = ({ entry, issues, onSave, onCancel }) => {
+  // Edits stay local until saved, so cancelling leaves the recorded journal untouched
+  const [draft, setDraft] = useState<TradeJournalDraft>(() => ({
+    taken: entry.journal?.taken ?? true,
+    fillPrice: entry.journal?.fillPrice ?? getPlannedPosition(entry)?.entryPrice ?? entry.inputs.entryPrice,
+    // A new journal starts with a partial exit at each planned target before the last
+    partialExits: entry.journal
+      ? entry.journal.partialExits ?? []
+      : (entry.results?.takeProfitTargets ?? []).slice(0, -1).map((target) => ({ price: target.price, lots: target.lots })),
+    exitPrice: entry.journal?.exitPrice ?? '',
+    exitTime: entry.journal?.exitTime ?? '',
+    fees: entry.journal?.fees ?? '',
+    notes: entry.journal?.notes ?? '',
+    tags: entry.journal?.tags ?? [],
+  }));
+  const [tagsInput, setTagsInput] = useState((entry.journal?.tags ?? []).join(', '));
+  const priceStep = entry.inputs.currencyPair.tickSize || 0.00001;
+  const partialExits = draft.partialExits ?? [];
+
+  const updateDraft = <K extends keyof TradeJournalDraft>(field: K, value: TradeJournalDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updatePartialExit = (index: number, field: keyof PartialExit, value: number | '') => {
+    updateDraft('partialExits', partialExits.map((partialExit, i) => (i === index ? { ...partialExit, [field]: value } : partialExit)));
+  };
+
+  return (
+    <div className="w-full mt-4 pt-4 border-t border-gray-300 dark:border-gray-600">
+      <label className="inline-flex items-center mb-4">
+        <input
+          type="checkbox"
+          checked={draft.taken}
+          onChange={(e) => updateDraft('taken', e.target.checked)}
+          className="form-checkbox text-tst-blue h-4 w-4"
+        />
+        <span className="ml-2 text-tst-black dark:text-tst-white">Trade taken</span>
+      </label>
+
+      {draft.taken && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+            <NumericInput
+              id={`journalFill-${entry.id}`}
+              label="Fill Price"
+              value={draft.fillPrice}
+              onChange={(value) => updateDraft('fillPrice', value)}
+              min={0}
+              step={priceStep}
+            />
+            <NumericInput
+              id={`journalExit-${entry.id}`}
+              label={partialExits.length > 0 ? 'Final Exit Price' : 'Exit Price'}
+              value={draft.exitPrice}
+              onChange={(value) => updateDraft('exitPrice', value)}
+              min={0}
+              step={priceStep}
+              placeholder="Leave empty while open"
+            />
+            <div className="mb-4">
+              <label
+                htmlFor={`journalExitTime-${entry.id}`}
+                className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1"
+              >
+                Exit Time
+              </label>
+              <input
+                type="datetime-local"
+                id={`journalExitTime-${entry.id}`}
+                value={draft.exitTime}
+                onChange={(e) => updateDraft('exitTime', e.target.value)}
+                className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+              />
+            </div>
+            <NumericInput
+              id={`journalFees-${entry.id}`}
+              label="Fees"
+              value={draft.fees}
+              onChange={(value) => updateDraft('fees', value)}
+              min={0}
+              step={0.01}
+              placeholder="Commission, swap..."
+              unit={entry.inputs.accountCurrency}
+            />
+          </div>
+          <div className="mb-4">
+            <span className="block text-sm font-medium text-tst-black dark:text-tst-white mb-2">
+              Partial Exits (closed before the final exit)
+            </span>
+            {partialExits.map((partialExit, index) => (
+              <React.Fragment key={index}>
+                <div className="grid grid-cols-5 gap-2 items-end">
+                  <NumericInput
+                    id={`journalPartialPrice-${entry.id}-${index}`}
+                    label={`Exit ${index + 1} Price`}
+                    value={partialExit.price}
+                    onChange={(value) => updatePartialExit(index, 'price', value)}
+                    min={0}
+                    step={priceStep}
+                    className="col-span-2"
+                  />
+                  <NumericInput
+                    id={`journalPartialLots-${entry.id}-${index}`}
+                    label="Lots Closed"
+                    value={partialExit.lots}
+                    onChange={(value) => updatePartialExit(index, 'lots', value)}
+                    min={0}
+                    step={entry.inputs.currencyPair.lotStep || 0.01}
+                    unit="lots"
+                    className="col-span-2"
+                  />
+                  <div className="mb-4">
+                    <button
+                      type="button"
+                      onClick={() => updateDraft('partialExits', partialExits.filter((_, i) => i !== index))}
+                      className="w-full px-2 py-2 bg-gray-300 dark:bg-gray-700 text-tst-black dark:text-tst-white rounded-md hover:bg-gray-400 dark:hover:bg-gray-600 transition-colors duration-200"
+                      aria-label={`Remove exit ${index + 1}`}
+                    >
+                      &times;
+                    </button>
+                  </div>
+                </div>
+                <FieldIssues issues={issues.filter((issue) => issue.index === index)} />
+              </React.Fragment>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft('partialExits', [...partialExits, { price: '', lots: '' }])}
+              className="text-tst-blue font-semibold hover:underline transition-colors"
+            >
+              + Add Partial Exit
+            </button>
+          </div>
+          <TextInput
+            id={`journalTags-${entry.id}`}
+            label="Tags"
+            value={tagsInput}
+            onChange={setTagsInput}
+            placeholder="e.g., breakout, london"
+          />
+          <div className="mb-4">
+            <label
+              htmlFor={`journalNotes-${entry.id}`}
+              className="block text-sm font-medium text-tst-black dark:text-tst-white mb-1"
+            >
+              Notes
+            </label>
+            <textarea
+              id={`journalNotes-${entry.id}`}
+              value={draft.notes}
+              onChange={(e) => updateDraft('notes', e.target.value)}
+              rows={2}
+              className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-tst-blue focus:border-tst-blue bg-white dark:bg-gray-700 text-tst-black dark:text-tst-white sm:text-sm"
+            />
+          </div>
+        </>
+      )}
+
+      <FieldIssues issues={issues.filter((issue) => issue.index === undefined)} />
+
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={() => onSave({ ...draft, tags: tagsInput.split(',').map((tag) => tag.trim()).filter((tag) => tag !== '') })}
+          className="px-4 py-2 bg-tst-blue hover:bg-tst-dark-blue text-white font-semibold rounded-md shadow-sm transition-colors duration-300 focus:outline-none focus:ring-2 focus:ring-tst-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+        >
+          Save Journal
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-tst-blue font-semibold hover:underline transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TradeJournalEditor;
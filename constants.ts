@@ -1,4 +1,4 @@
-import { AccountCurrency, CurrencyPair, Leverage, Option, TradeType } from './types';
+import { AccountCurrency, AccountSettings, CommissionType, AtrTimeframe, CorrelationImportFormat, DailyLossBasis, DrawdownBasis, StopLossMode, CurrencyPair, ExchangeRateProviderId, Leverage, LeverageSchedule, LotRoundingPolicy, MarketDataProviderId, MonteCarloFormInputs, Option, PriceBasis, PropFirmRules, SizingModel, SolveMode, TradeType } from './types';
 
 // --- Mock Exchange Rates ---
 // Rates are primarily relative to USD for conversion purposes.
@@ -15,12 +15,29 @@ export const MOCK_EXCHANGE_RATES: { [key: string]: number } = {
   'NZD': 0.61, // NZD/USD
   'CAD': 0.73, // CAD/USD
   'CHF': 1.11, // CHF/USD (1 USD = ~0.89 CHF)
+  'BTC': 68000.0, // BTC/USD, for BTC-denominated accounts
+  'ETH': 3500.0, // ETH/USD
   // For commodities/crypto base currencies, their "rate to USD" is typically their market price
   // which will be captured by entryPrice for calculations like margin.
   // For cross-currency conversion, these explicit rates are needed.
   // When base is XAU, XAG, BTC, ETH, we rely on entryPrice for USD conversion primarily.
 };
 
+// Date the mock table above was last reviewed; reported as the quote time of static rates
+export const MOCK_EXCHANGE_RATES_AS_OF = Date.parse('2024-06-01T00:00:00Z');
+
+// --- Exchange Rate Providers ---
+export const EXCHANGE_RATE_PROVIDERS: Option<ExchangeRateProviderId>[] = [
+  { value: 'static', label: 'Built-in Table' },
+  { value: 'local', label: 'My Rate Table' },
+  { value: 'http', label: 'JSON Endpoint' },
+];
+
+export const DEFAULT_RATE_ENDPOINT_URL = 'http://localhost:8080/rates.json';
+
+// Rates older than this are highlighted as stale in the results
+export const EXCHANGE_RATE_STALE_AFTER_MS = 24 * 60 * 60 * 1000; // 24 hours
+
 // --- Mock Market Prices for Auto-fill ---
 export const MOCK_MARKET_PRICES: { [symbol: string]: number } = {
   'EUR/USD': 1.0700,
@@ -63,14 +80,50 @@ export const MOCK_MARKET_PRICES: { [symbol: string]: number } = {
 };
 
 
+// --- Market Data Providers ---
+export const MARKET_DATA_PROVIDERS: Option<MarketDataProviderId>[] = [
+  { value: 'mock', label: 'Demo Prices' },
+  { value: 'remote', label: 'WebSocket / HTTP Feed' },
+];
+
+// ws:// or wss:// URLs stream quotes; http:// or https:// URLs are polled
+export const DEFAULT_MARKET_DATA_URL = 'ws://localhost:8080/quotes';
+export const QUOTE_POLL_INTERVAL_MS = 2000;
+export const QUOTE_STALE_AFTER_MS = 10000; // Quotes older than this are flagged as stale
+
 // --- Account Currencies ---
+// Common denominations listed first; any other currency in the active rate table is offered after these
 export const ACCOUNT_CURRENCIES: Option<AccountCurrency>[] = [
   { value: 'USD', label: 'USD' },
-  { value: 'INR', label: 'INR' },
-  { value: 'GBP', label: 'GBP' },
   { value: 'EUR', label: 'EUR' },
+  { value: 'GBP', label: 'GBP' },
+  { value: 'JPY', label: 'JPY' },
+  { value: 'CHF', label: 'CHF' },
+  { value: 'CAD', label: 'CAD' },
+  { value: 'AUD', label: 'AUD' },
+  { value: 'NZD', label: 'NZD' },
+  { value: 'INR', label: 'INR' },
+  { value: 'USDT', label: 'USDT (Tether)' },
+  { value: 'BTC', label: 'BTC (Bitcoin)' },
+  { value: 'ETH', label: 'ETH (Ether)' },
 ];
 
+// Display decimals for currencies whose minor unit is not 2 (crypto has no ISO minor unit)
+const CURRENCY_DECIMALS: { [currency: string]: number } = {
+  'JPY': 0,
+  'BTC': 8,
+  'ETH': 6,
+};
+
+/**
+ * Returns how many decimals to show for amounts in a currency.
+ * @param currency The currency code (e.g., 'USD', 'JPY', 'BTC').
+ * @returns The number of decimals, 2 unless the currency has a different minor unit.
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency] ?? 2;
+}
+
 // --- Leverage Options ---
 export const LEVERAGE_OPTIONS: Option<Leverage>[] = [
   { value: '1:30', label: '1:30' },
@@ -81,95 +134,163 @@ export const LEVERAGE_OPTIONS: Option<Leverage>[] = [
   { value: '1:1000', label: '1:1000' },
 ];
 
+/**
+ * Normalizes typed leverage such as '1:400', '400' or '1/400' to the '1:N' form.
+ * @param value The text entered by the user.
+ * @returns The leverage, or undefined if the text is not a positive ratio.
+ */
+export function parseLeverage(value: string): Leverage | undefined {
+  const match = value.trim().match(/^(?:1\s*[:/]\s*)?(\d+(?:\.\d+)?)$/);
+  const ratio = match ? parseFloat(match[1]) : NaN;
+  return ratio > 0 ? `1:${ratio}` : undefined;
+}
+
+// Typical caps at regulated (e.g., ESMA/FCA) brokers. Gold is 1:20 there, but it
+// shares the commodity category with silver and copper, so the stricter 1:10 applies.
+export const REGULATED_LEVERAGE_SCHEDULE: LeverageSchedule = {
+  'Major FX Pairs': '1:30',
+  'Minor FX Pairs': '1:20',
+  'Commodity Pairs': '1:10',
+  'Indices': '1:20',
+  'Crypto Pairs': '1:2',
+};
+
 // --- Trade Type Options ---
 export const TRADE_TYPES: Option<TradeType>[] = [
   { value: 'buy', label: 'Buy (Long)' },
   { value: 'sell', label: 'Sell (Short)' },
 ];
 
-/**
- * Dynamically determines the pip multiplier based on the currency pair symbol.
- * This logic is based on the provided PRD:
- * - 0.10 for Gold (XAUUSD), Silver (XAGUSD), and Indices (NAS100, US30).
- * - 0.0001 for all other Major & Minor Forex Pairs.
- * @param symbol The symbol of the currency pair (e.g., 'XAU/USD', 'EUR/USD').
- * @returns The pip multiplier for the given symbol.
- */
-export function getPairPipMultiplier(symbol: string): number {
-  if (symbol.includes("XAU") || symbol.includes("XAG") || symbol.includes("NAS100") || symbol.includes("US30")) {
-    return 0.10;
-  } else {
-    return 0.0001;
-  }
-}
+// --- Lot Rounding Options ---
+export const LOT_ROUNDING_OPTIONS: Option<LotRoundingPolicy>[] = [
+  { value: 'floor', label: 'Round down (never exceed risk)' },
+  { value: 'nearest', label: 'Round to nearest step' },
+  { value: 'ceil', label: 'Round up' },
+];
+
+// --- Commission Types ---
+export const COMMISSION_TYPES: Option<CommissionType>[] = [
+  { value: 'perLot', label: 'Per lot (round turn)' },
+  { value: 'perMillion', label: 'Per million notional' },
+];
+
+// --- Solve Modes ---
+export const SOLVE_MODES: Option<SolveMode>[] = [
+  { value: 'lotSize', label: 'Lot Size (from risk and stop loss)' },
+  { value: 'stopLoss', label: 'Max Stop Loss (from lot size and risk)' },
+  { value: 'risk', label: 'Risk (from lot size and stop loss)' },
+  { value: 'accountSize', label: 'Account Size (from lot size, stop loss and risk %)' },
+];
+
+export const SOLVE_BUTTON_LABELS: Record<SolveMode, string> = {
+  lotSize: 'Calculate Lot Size',
+  stopLoss: 'Calculate Max Stop Loss',
+  risk: 'Calculate Risk',
+  accountSize: 'Calculate Account Size',
+};
+
+// --- Entry Price Basis ---
+export const PRICE_BASIS_OPTIONS: Option<PriceBasis>[] = [
+  { value: 'chart', label: 'Chart Price (spread added as a cost)' },
+  { value: 'executable', label: 'Executable Price (ask for buys, bid for sells)' },
+];
+
+// --- Instrument Specifications ---
+// Shared contract specs for each instrument family. Pip size is the unit used for
+// "pips" throughout the app, tick size is the smallest price increment quoted by
+// the broker, and the lot fields describe the volumes the broker accepts.
+type InstrumentSpec = Omit<CurrencyPair, 'symbol' | 'base' | 'quote'>;
+
+const FX_SPEC: InstrumentSpec = {
+  contractSize: 100_000,
+  pipSize: 0.0001,
+  tickSize: 0.00001,
+  digits: 5,
+  minLot: 0.01,
+  maxLot: 100,
+  lotStep: 0.01,
+};
+
+// JPY-quoted pairs are priced with two fewer decimals, so 1 pip = 0.01.
+const JPY_FX_SPEC: InstrumentSpec = {
+  ...FX_SPEC,
+  pipSize: 0.01,
+  tickSize: 0.001,
+  digits: 3,
+};
 
 // --- Currency Pairs ---
 interface CurrencyPairCategory {
   category: string;
-  pairs: Omit<CurrencyPair, 'pipMultiplier'>[]; // Use Omit because pipMultiplier is now dynamic
+  pairs: CurrencyPair[];
 }
 
 export const CURRENCY_PAIRS: CurrencyPairCategory[] = [
   {
     category: 'Major FX Pairs',
     pairs: [
-      { symbol: 'EUR/USD', base: 'EUR', quote: 'USD', contractSize: 100_000 },
-      { symbol: 'GBP/USD', base: 'GBP', quote: 'USD', contractSize: 100_000 },
-      { symbol: 'USD/JPY', base: 'USD', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'USD/CHF', base: 'USD', quote: 'CHF', contractSize: 100_000 },
-      { symbol: 'AUD/USD', base: 'AUD', quote: 'USD', contractSize: 100_000 },
-      { symbol: 'USD/CAD', base: 'USD', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'NZD/USD', base: 'NZD', quote: 'USD', contractSize: 100_000 },
+      { symbol: 'EUR/USD', base: 'EUR', quote: 'USD', ...FX_SPEC },
+      { symbol: 'GBP/USD', base: 'GBP', quote: 'USD', ...FX_SPEC },
+      { symbol: 'USD/JPY', base: 'USD', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'USD/CHF', base: 'USD', quote: 'CHF', ...FX_SPEC },
+      { symbol: 'AUD/USD', base: 'AUD', quote: 'USD', ...FX_SPEC },
+      { symbol: 'USD/CAD', base: 'USD', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'NZD/USD', base: 'NZD', quote: 'USD', ...FX_SPEC },
     ],
   },
   {
     category: 'Minor FX Pairs',
     pairs: [
-      { symbol: 'EUR/GBP', base: 'EUR', quote: 'GBP', contractSize: 100_000 },
-      { symbol: 'EUR/JPY', base: 'EUR', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'GBP/JPY', base: 'GBP', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'AUD/JPY', base: 'AUD', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'CHF/JPY', base: 'CHF', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'EUR/CAD', base: 'EUR', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'GBP/CAD', base: 'GBP', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'AUD/CAD', base: 'AUD', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'AUD/CHF', base: 'AUD', quote: 'CHF', contractSize: 100_000 },
-      { symbol: 'AUD/NZD', base: 'AUD', quote: 'NZD', contractSize: 100_000 },
-      { symbol: 'EURAUD', base: 'EUR', quote: 'AUD', contractSize: 100_000 },
-      { symbol: 'EURNZD', base: 'EUR', quote: 'NZD', contractSize: 100_000 },
-      { symbol: 'GBPAUD', base: 'GBP', quote: 'AUD', contractSize: 100_000 },
-      { symbol: 'GBPCAD', base: 'GBP', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'GBPCHF', base: 'GBP', quote: 'CHF', contractSize: 100_000 },
-      { symbol: 'GBPNZD', base: 'GBP', quote: 'NZD', contractSize: 100_000 },
-      { symbol: 'NZDCAD', base: 'NZD', quote: 'CAD', contractSize: 100_000 },
-      { symbol: 'NZDJPY', base: 'NZD', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'NZDCHF', base: 'NZD', quote: 'CHF', contractSize: 100_000 },
-      { symbol: 'CADJPY', base: 'CAD', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'CHFJPY', base: 'CHF', quote: 'JPY', contractSize: 100_000 },
-      { symbol: 'EURCHF', base: 'EUR', quote: 'CHF', contractSize: 100_000 },
-      { symbol: 'CADCHF', base: 'CAD', quote: 'CHF', contractSize: 100_000 },
+      { symbol: 'EUR/GBP', base: 'EUR', quote: 'GBP', ...FX_SPEC },
+      { symbol: 'EUR/JPY', base: 'EUR', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'GBP/JPY', base: 'GBP', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'AUD/JPY', base: 'AUD', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'CHF/JPY', base: 'CHF', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'EUR/CAD', base: 'EUR', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'GBP/CAD', base: 'GBP', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'AUD/CAD', base: 'AUD', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'AUD/CHF', base: 'AUD', quote: 'CHF', ...FX_SPEC },
+      { symbol: 'AUD/NZD', base: 'AUD', quote: 'NZD', ...FX_SPEC },
+      { symbol: 'EURAUD', base: 'EUR', quote: 'AUD', ...FX_SPEC },
+      { symbol: 'EURNZD', base: 'EUR', quote: 'NZD', ...FX_SPEC },
+      { symbol: 'GBPAUD', base: 'GBP', quote: 'AUD', ...FX_SPEC },
+      { symbol: 'GBPCAD', base: 'GBP', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'GBPCHF', base: 'GBP', quote: 'CHF', ...FX_SPEC },
+      { symbol: 'GBPNZD', base: 'GBP', quote: 'NZD', ...FX_SPEC },
+      { symbol: 'NZDCAD', base: 'NZD', quote: 'CAD', ...FX_SPEC },
+      { symbol: 'NZDJPY', base: 'NZD', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'NZDCHF', base: 'NZD', quote: 'CHF', ...FX_SPEC },
+      { symbol: 'CADJPY', base: 'CAD', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'CHFJPY', base: 'CHF', quote: 'JPY', ...JPY_FX_SPEC },
+      { symbol: 'EURCHF', base: 'EUR', quote: 'CHF', ...FX_SPEC },
+      { symbol: 'CADCHF', base: 'CAD', quote: 'CHF', ...FX_SPEC },
     ],
   },
   {
     category: 'Commodity Pairs',
     pairs: [
-      { symbol: 'XAU/USD', base: 'XAU', quote: 'USD', contractSize: 100 }, // Gold: 1 lot = 100 ounces
-      { symbol: 'XAG/USD', base: 'XAG', quote: 'USD', contractSize: 5000 }, // Silver: 1 lot = 5000 ounces
-      { symbol: 'XCU/USD', base: 'XCU', quote: 'USD', contractSize: 25000 }, // Copper (Assumption, common contract size/multiplier)
+      // Gold: 1 lot = 100 ounces, 1 pip = $0.10
+      { symbol: 'XAU/USD', base: 'XAU', quote: 'USD', contractSize: 100, pipSize: 0.10, tickSize: 0.01, digits: 2, minLot: 0.01, maxLot: 50, lotStep: 0.01 },
+      // Silver: 1 lot = 5000 ounces, 1 pip = $0.10 (same as gold)
+      { symbol: 'XAG/USD', base: 'XAG', quote: 'USD', contractSize: 5000, pipSize: 0.10, tickSize: 0.001, digits: 3, minLot: 0.01, maxLot: 50, lotStep: 0.01 },
+      // Copper (Assumption, common contract size/multiplier)
+      { symbol: 'XCU/USD', base: 'XCU', quote: 'USD', contractSize: 25000, pipSize: 0.001, tickSize: 0.0001, digits: 4, minLot: 0.1, maxLot: 50, lotStep: 0.1 },
     ],
   },
   {
     category: 'Indices',
     pairs: [
-      { symbol: 'NAS100/USD', base: 'NAS100', quote: 'USD', contractSize: 20 },
-      { symbol: 'US30/USD', base: 'US30', quote: 'USD', contractSize: 10 },
+      { symbol: 'NAS100/USD', base: 'NAS100', quote: 'USD', contractSize: 20, pipSize: 0.10, tickSize: 0.01, digits: 2, minLot: 0.1, maxLot: 100, lotStep: 0.1 },
+      { symbol: 'US30/USD', base: 'US30', quote: 'USD', contractSize: 10, pipSize: 0.10, tickSize: 0.01, digits: 2, minLot: 0.1, maxLot: 100, lotStep: 0.1 },
     ],
   },
   {
     category: 'Crypto Pairs',
     pairs: [
-      { symbol: 'BTC/USDT', base: 'BTC', quote: 'USDT', contractSize: 1 }, // Bitcoin: 1 unit
-      { symbol: 'ETH/USD', base: 'ETH', quote: 'USD', contractSize: 1 }, // Ethereum: 1 unit
+      // Bitcoin: 1 lot = 1 BTC, 1 pip = $1
+      { symbol: 'BTC/USDT', base: 'BTC', quote: 'USDT', contractSize: 1, pipSize: 1.0, tickSize: 0.01, digits: 2, minLot: 0.01, maxLot: 10, lotStep: 0.01 },
+      // Ethereum: 1 lot = 1 ETH, 1 pip = $1, like BTC and custom crypto pairs
+      { symbol: 'ETH/USD', base: 'ETH', quote: 'USD', contractSize: 1, pipSize: 1.0, tickSize: 0.01, digits: 2, minLot: 0.01, maxLot: 100, lotStep: 0.01 },
     ],
   },
 ];
@@ -178,9 +299,232 @@ export const ALL_CURRENCY_PAIRS: CurrencyPair[] = CURRENCY_PAIRS.flatMap(
   (category) => category.pairs,
 );
 
+// Placeholder used while the pair input is empty.
+export const EMPTY_CURRENCY_PAIR: CurrencyPair = {
+  symbol: '',
+  base: '',
+  quote: '',
+  contractSize: 0,
+  pipSize: 0,
+  tickSize: 0,
+  digits: 0,
+  minLot: 0,
+  maxLot: 0,
+  lotStep: 0,
+};
+
+/**
+ * Looks up an instrument in the registry by symbol (case-insensitive).
+ * @param symbol The symbol of the currency pair (e.g., 'EUR/USD').
+ * @returns The registered currency pair, or undefined if it is not listed.
+ */
+export function findCurrencyPair(symbol: string): CurrencyPair | undefined {
+  return ALL_CURRENCY_PAIRS.find(
+    (p) => p.symbol.toLowerCase() === symbol.toLowerCase(),
+  );
+}
+
+/**
+ * Looks up which CURRENCY_PAIRS category an instrument belongs to.
+ * @param symbol The instrument symbol (e.g., 'EUR/USD').
+ * @returns The category name, or undefined for custom instruments.
+ */
+export function findCurrencyPairCategory(symbol: string): string | undefined {
+  return CURRENCY_PAIRS.find((category) =>
+    category.pairs.some((p) => p.symbol.toLowerCase() === symbol.toLowerCase()),
+  )?.category;
+}
+
+/**
+ * Builds a best-effort specification for a symbol that is not in the registry.
+ * Only used for custom pairs typed in by the user; listed instruments always
+ * use their registered spec.
+ * @param symbol The custom symbol (e.g., 'USD/SEK').
+ * @returns A currency pair with assumed contract and pip specifications.
+ */
+export function createCustomCurrencyPair(symbol: string): CurrencyPair {
+  let base = symbol;
+  let quote = '';
+  const parts = symbol.split('/');
+  if (parts.length === 2) {
+    base = parts[0];
+    quote = parts[1];
+  }
+  base = base.toUpperCase();
+  quote = quote.toUpperCase();
+
+  let spec: InstrumentSpec = quote === 'JPY' ? JPY_FX_SPEC : FX_SPEC; // Default for FX-like pairs
+  if (base.includes('XAU') || base.includes('XAG')) {
+    spec = { ...FX_SPEC, contractSize: 100, pipSize: 0.10, tickSize: 0.01, digits: 2 }; // e.g., Gold 100oz contract
+  } else if (base.includes('BTC') || base.includes('ETH')) {
+    spec = { ...FX_SPEC, contractSize: 1, pipSize: 1.0, tickSize: 0.01, digits: 2 }; // Crypto typically 1 unit
+  } else if (base.includes('NAS100') || base.includes('US30')) {
+    spec = { ...FX_SPEC, contractSize: 10, pipSize: 0.10, tickSize: 0.01, digits: 2, minLot: 0.1, lotStep: 0.1 }; // Indices often have smaller contract sizes
+  }
+
+  return { symbol, base, quote, ...spec };
+}
+
 // --- Risk Thresholds for UI (arbitrary values for demonstration) ---
 export const RISK_PERCENTAGE_THRESHOLDS = {
   LOW_MAX: 1.0, // <= 1% risk
   MEDIUM_MAX: 2.0, // > 1% and <= 2% risk
   HIGH_MIN: 2.0, // > 2% risk
-};
\ No newline at end of file
+};
+
+// --- Currency Exposure ---
+// Net notional per currency above this share of the account is flagged (500% = 5x the account)
+export const DEFAULT_EXPOSURE_LIMIT_PERCENT = 500;
+
+// --- Correlations (approximate long-run values for demonstration) ---
+// Each entry is [symbolA, symbolB, correlation]; unlisted pairs are treated as uncorrelated
+export const DEFAULT_CORRELATIONS: [string, string, number][] = [
+  ['EUR/USD', 'GBP/USD', 0.85],
+  ['EUR/USD', 'AUD/USD', 0.75],
+  ['EUR/USD', 'NZD/USD', 0.72],
+  ['EUR/USD', 'USD/CHF', -0.92],
+  ['EUR/USD', 'USD/JPY', -0.45],
+  ['EUR/USD', 'USD/CAD', -0.65],
+  ['EUR/USD', 'XAU/USD', 0.55],
+  ['GBP/USD', 'AUD/USD', 0.70],
+  ['GBP/USD', 'NZD/USD', 0.66],
+  ['GBP/USD', 'USD/CHF', -0.80],
+  ['GBP/USD', 'USD/CAD', -0.60],
+  ['AUD/USD', 'NZD/USD', 0.92],
+  ['AUD/USD', 'USD/CAD', -0.70],
+  ['AUD/USD', 'XAU/USD', 0.60],
+  ['USD/CHF', 'USD/JPY', 0.55],
+  ['USD/JPY', 'EUR/JPY', 0.70],
+  ['USD/JPY', 'GBP/JPY', 0.68],
+  ['EUR/JPY', 'GBP/JPY', 0.90],
+  ['EUR/JPY', 'AUD/JPY', 0.85],
+  ['GBP/JPY', 'AUD/JPY', 0.82],
+  ['XAU/USD', 'XAG/USD', 0.85],
+  ['NAS100/USD', 'US30/USD', 0.88],
+  ['BTC/USDT', 'ETH/USD', 0.85],
+];
+export const CORRELATION_WARNING_THRESHOLD = 0.7; // |correlation| at or above which trades count as one idea
+export const CORRELATION_IMPORT_FORMATS: Option<CorrelationImportFormat>[] = [
+  { value: 'matrix', label: 'Correlation table' },
+  { value: 'prices', label: 'Price history (compute)' },
+];
+
+// --- ATR Stop Loss ---
+export const STOP_LOSS_MODES: Option<StopLossMode>[] = [
+  { value: 'manual', label: 'Price / Pips' },
+  { value: 'atr', label: 'ATR Multiple' },
+];
+export const ATR_TIMEFRAMES: Option<AtrTimeframe>[] = [
+  { value: 'M1', label: '1 Minute' },
+  { value: 'M5', label: '5 Minutes' },
+  { value: 'M15', label: '15 Minutes' },
+  { value: 'M30', label: '30 Minutes' },
+  { value: 'H1', label: '1 Hour' },
+  { value: 'H4', label: '4 Hours' },
+  { value: 'D1', label: 'Daily' },
+  { value: 'W1', label: 'Weekly' },
+];
+export const ATR_TIMEFRAME_MINUTES: Record<AtrTimeframe, number> = {
+  M1: 1,
+  M5: 5,
+  M15: 15,
+  M30: 30,
+  H1: 60,
+  H4: 240,
+  D1: 1440,
+  W1: 10080,
+};
+export const DEFAULT_ATR_PERIOD = 14;
+export const DEFAULT_ATR_MULTIPLIER = 1.5;
+export const MAX_STORED_CANDLES = 5000; // Per instrument, most recent kept, to stay within localStorage limits
+
+// --- Position Sizing Models ---
+export const SIZING_MODELS: Option<SizingModel>[] = [
+  { value: 'fixed', label: 'Fixed Risk (% or amount)' },
+  { value: 'kelly', label: 'Kelly Criterion' },
+  { value: 'fixedRatio', label: 'Fixed Ratio (Ryan Jones)' },
+  { value: 'optimalF', label: 'Optimal f (Ralph Vince)' },
+];
+export const DEFAULT_KELLY_FRACTION = 50; // Half Kelly; full Kelly is rarely tolerable in practice
+
+// --- Journal ---
+export const JOURNAL_DIRECTION_OPTIONS: Option<TradeType | 'all'>[] = [
+  { value: 'all', label: 'All Directions' },
+  { value: 'buy', label: 'Buy' },
+  { value: 'sell', label: 'Sell' },
+];
+
+// --- Monte Carlo Simulator ---
+export const DEFAULT_MONTE_CARLO_INPUTS: MonteCarloFormInputs = {
+  riskPercentage: 1,
+  tradeCount: 200,
+  runCount: 5000,
+  seed: 42,
+  winRate: 50,
+  averageRR: 1.5,
+  useJournalR: false,
+  drawdownLevel: 20,
+  ruinLevel: 50,
+};
+export const MAX_MONTE_CARLO_RUNS = 20000;
+export const MAX_MONTE_CARLO_TRADES = 2000;
+export const MONTE_CARLO_FAN_STEPS = 50; // Points per fan chart band
+
+// --- Prop-Firm Rules (typical challenge styles, not any firm's exact terms) ---
+export const PROP_FIRM_PRESETS: PropFirmRules[] = [
+  {
+    id: 'preset-two-step',
+    name: '2-Step Challenge',
+    dailyLossPercent: 5,
+    dailyLossBasis: 'initial',
+    maxDrawdownPercent: 10,
+    drawdownBasis: 'initial',
+    maxLotsPerTrade: '',
+  },
+  {
+    id: 'preset-one-step',
+    name: '1-Step Challenge',
+    dailyLossPercent: 3,
+    dailyLossBasis: 'dayStart',
+    maxDrawdownPercent: 6,
+    drawdownBasis: 'trailing',
+    maxLotsPerTrade: '',
+  },
+  {
+    id: 'preset-instant',
+    name: 'Instant Funding',
+    dailyLossPercent: 4,
+    dailyLossBasis: 'dayStart',
+    maxDrawdownPercent: 8,
+    drawdownBasis: 'trailing',
+    maxLotsPerTrade: 5,
+  },
+];
+export const DAILY_LOSS_BASIS_OPTIONS: Option<DailyLossBasis>[] = [
+  { value: 'initial', label: '% of Initial Balance' },
+  { value: 'dayStart', label: "% of Today's Starting Balance" },
+];
+export const DRAWDOWN_BASIS_OPTIONS: Option<DrawdownBasis>[] = [
+  { value: 'initial', label: 'Static (from Initial Balance)' },
+  { value: 'trailing', label: 'Trailing (from Highest Balance)' },
+];
+
+// --- Account Profiles ---
+// Form defaults when no account profile is active
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  accountCurrency: 'USD',
+  accountSize: 10000,
+  leverage: '1:500',
+  leverageSchedule: null,
+  riskType: 'percentage',
+  riskValue: 1, // 1% of the account
+  lotRounding: 'floor', // Never exceed risk by default
+  lotRules: { minLot: '', maxLot: '', lotStep: '' }, // Use each instrument's registered volumes
+  commission: '',
+  commissionType: 'perLot',
+  marginCallLevel: 100,
+  stopOutLevel: 50,
+};
+
+// --- Calculation History ---
+export const HISTORY_PAGE_SIZE = 10;
@@ -0,0 +1,35 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+
+/**
+ * State that is read from localStorage on the first render and written back whenever it changes.
+ * Reading in the state initializer, rather than in a mount effect, means the first save already
+ * holds the stored value, so a save that runs before the load (as under StrictMode) cannot wipe it.
+ * @param key The localStorage key.
+ * @param defaultValue The value used when nothing is stored or the stored value cannot be read.
+ * @param label Names the setting in console errors (e.g., 'open positions').
+ * @returns The state and its setter, as from `useState`.
+ */
+export function usePersistentState<T>(key: string, defaultValue: T | (() => T), label: string): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const storedValue = localStorage.getItem(key);
+      if (storedValue) {
+        return JSON.parse(storedValue) as T;
+      }
+    } catch (error) {
+      console.error(`Failed to load ${label} from localStorage`, error);
+      localStorage.removeItem(key); // Clear corrupted settings
+    }
+    return defaultValue instanceof Function ? defaultValue() : defaultValue;
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to save ${label} to localStorage`, error); // e.g., over the storage quota
+    }
+  }, [key, label, value]);
+
+  return [value, setValue];
+}
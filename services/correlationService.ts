@@ -0,0 +1,174 @@
+import { CorrelationImportFormat, CorrelationMatrix } from '../types';
+import { ALL_CURRENCY_PAIRS } from '../constants';
+
+/**
+ * Builds a matrix from a list of pairwise correlations.
+ * @param entries [symbolA, symbolB, correlation] triples.
+ * @returns The matrix, with each pair stored under both symbols.
+ */
+export function createCorrelationMatrix(entries: [string, string, number][]): CorrelationMatrix {
+  return entries.reduce(
+    (matrix, [a, b, value]) => setCorrelation(matrix, a, b, value),
+    {} as CorrelationMatrix,
+  );
+}
+
+/**
+ * Looks up the correlation between two instruments.
+ * @param matrix The correlation matrix.
+ * @param a The first symbol.
+ * @param b The second symbol.
+ * @returns 1 for the same instrument, the stored value, or 0 when the pair is unknown.
+ */
+export function getCorrelation(matrix: CorrelationMatrix, a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  return matrix[a]?.[b] ?? 0;
+}
+
+/**
+ * Returns a copy of the matrix with one pair updated.
+ * @param matrix The correlation matrix.
+ * @param a The first symbol.
+ * @param b The second symbol.
+ * @param value The correlation, clamped to [-1, 1].
+ * @returns The updated matrix.
+ */
+export function setCorrelation(matrix: CorrelationMatrix, a: string, b: string, value: number): CorrelationMatrix {
+  if (a === b) {
+    return matrix;
+  }
+  const clamped = Math.max(-1, Math.min(1, value));
+  return {
+    ...matrix,
+    [a]: { ...matrix[a], [b]: clamped },
+    [b]: { ...matrix[b], [a]: clamped },
+  };
+}
+
+/**
+ * Reads a CSV of correlations or of price history into a matrix.
+ * 'matrix' accepts a square table (header row of symbols, then one row per symbol)
+ * or one "symbolA,symbolB,correlation" line per pair.
+ * 'prices' expects a header of "date,SYMBOL1,SYMBOL2,..." and one row of closes per period,
+ * oldest first; correlations are computed from log returns.
+ * @param text The CSV file contents.
+ * @param format Which kind of CSV the text holds.
+ * @returns The parsed or computed matrix.
+ */
+export function importCorrelationCsv(text: string, format: CorrelationImportFormat): CorrelationMatrix {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell !== ''));
+  if (rows.length === 0) {
+    throw new Error('The CSV file is empty.');
+  }
+  return format === 'prices' ? computeCorrelationsFromPrices(rows) : parseCorrelationRows(rows);
+}
+
+/**
+ * Parses a square correlation table or a list of pairwise correlations.
+ * @param rows The CSV cells, row by row.
+ * @returns The matrix.
+ */
+function parseCorrelationRows(rows: string[][]): CorrelationMatrix {
+  const isPairList = rows.every((cells) => cells.length === 3 && !isNaN(parseFloat(cells[2])));
+  const entries: [string, string, number][] = [];
+
+  if (isPairList) {
+    rows.forEach(([a, b, value]) => {
+      entries.push([normalizeSymbol(a), normalizeSymbol(b), parseCorrelationValue(value)]);
+    });
+  } else {
+    const symbols = rows[0].slice(1).map(normalizeSymbol);
+    rows.slice(1).forEach((cells) => {
+      const rowSymbol = normalizeSymbol(cells[0]);
+      cells.slice(1).forEach((value, index) => {
+        if (value !== '' && symbols[index]) {
+          entries.push([rowSymbol, symbols[index], parseCorrelationValue(value)]);
+        }
+      });
+    });
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No correlations were found in the CSV file.');
+  }
+  return createCorrelationMatrix(entries);
+}
+
+/**
+ * Computes Pearson correlations of log returns between every pair of price columns.
+ * Pairs need at least 10 periods where both instruments have a return.
+ * @param rows The CSV cells, row by row; the first column (date) is ignored.
+ * @returns The matrix.
+ */
+function computeCorrelationsFromPrices(rows: string[][]): CorrelationMatrix {
+  const symbols = rows[0].slice(1).map(normalizeSymbol);
+  if (symbols.length < 2) {
+    throw new Error('Price history needs at least two instrument columns.');
+  }
+
+  // Log return per period and column; NaN where either close is missing
+  const prices = rows.slice(1).map((cells) => symbols.map((_, index) => parseFloat(cells[index + 1])));
+  const returns = prices.slice(1).map((row, t) => row.map((price, index) => {
+    const previous = prices[t][index];
+    return price > 0 && previous > 0 ? Math.log(price / previous) : NaN;
+  }));
+
+  const entries: [string, string, number][] = [];
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const pairs = returns
+        .filter((row) => !isNaN(row[i]) && !isNaN(row[j]))
+        .map((row) => [row[i], row[j]]);
+      if (pairs.length < 10) {
+        continue;
+      }
+      const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+      const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+      let covariance = 0;
+      let varianceX = 0;
+      let varianceY = 0;
+      pairs.forEach(([x, y]) => {
+        covariance += (x - meanX) * (y - meanY);
+        varianceX += (x - meanX) ** 2;
+        varianceY += (y - meanY) ** 2;
+      });
+      if (varianceX > 0 && varianceY > 0) {
+        entries.push([symbols[i], symbols[j], covariance / Math.sqrt(varianceX * varianceY)]);
+      }
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error('Not enough overlapping prices to compute correlations (at least 10 periods are needed).');
+  }
+  return createCorrelationMatrix(entries);
+}
+
+/**
+ * Reads a correlation cell.
+ * @param value The raw cell.
+ * @returns The correlation.
+ */
+function parseCorrelationValue(value: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < -1 || parsed > 1) {
+    throw new Error(`"${value}" is not a correlation between -1 and 1.`);
+  }
+  return parsed;
+}
+
+/**
+ * Maps a symbol as written in a CSV (e.g., 'EURUSD' or 'eur/usd') to the app's symbol.
+ * @param raw The symbol from the file.
+ * @returns The matching symbol from ALL_CURRENCY_PAIRS, or the input in upper case.
+ */
+function normalizeSymbol(raw: string): string {
+  const compact = raw.replace(/[^a-z0-9]/gi, '').toUpperCase();
+  const match = ALL_CURRENCY_PAIRS.find((p) => p.symbol.replace(/[^a-z0-9]/gi, '').toUpperCase() === compact);
+  return match ? match.symbol : raw.toUpperCase();
+}
@@ -0,0 +1,173 @@
+import {
+  ExchangeRate,
+  ExchangeRateProvider,
+  ExchangeRateProviderId,
+  ExchangeRateTable,
+  LocalExchangeRateInput,
+} from '../types';
+import { MOCK_EXCHANGE_RATES, MOCK_EXCHANGE_RATES_AS_OF } from '../constants';
+
+/**
+ * Provider backed by the built-in mock table.
+ * The rates are reported with the date the table was last reviewed, so they show as stale.
+ * @returns A provider serving `MOCK_EXCHANGE_RATES`.
+ */
+export function createStaticRateProvider(): ExchangeRateProvider {
+  return {
+    id: 'static',
+    label: 'Built-in Table',
+    getRates: async () => {
+      const rates: ExchangeRateTable = {};
+      Object.entries(MOCK_EXCHANGE_RATES).forEach(([currency, rateToUSD]) => {
+        rates[currency] = {
+          currency,
+          rateToUSD,
+          timestamp: MOCK_EXCHANGE_RATES_AS_OF,
+          source: 'Built-in table',
+        };
+      });
+      return rates;
+    },
+  };
+}
+
+/**
+ * Provider backed by a table the user maintains in the app.
+ * Rows with an empty currency or a non-positive rate are skipped.
+ * @param rows The rows of the user's rate table.
+ * @returns A provider serving the user's rates, each timestamped with its last edit.
+ */
+export function createLocalRateProvider(rows: LocalExchangeRateInput[]): ExchangeRateProvider {
+  return {
+    id: 'local',
+    label: 'My Rate Table',
+    getRates: async () => {
+      const rates: ExchangeRateTable = {};
+      rows.forEach((row) => {
+        const currency = row.currency.trim().toUpperCase();
+        if (currency && typeof row.rateToUSD === 'number' && row.rateToUSD > 0) {
+          rates[currency] = {
+            currency,
+            rateToUSD: row.rateToUSD,
+            timestamp: row.updatedAt,
+            source: 'My rate table',
+          };
+        }
+      });
+      return rates;
+    },
+  };
+}
+
+/**
+ * Provider that fetches rates from a JSON endpoint (e.g., a local server or file).
+ * The response uses the common "units per base" layout:
+ *
+ *   { "base": "USD", "timestamp": "2024-06-01T12:00:00Z", "rates": { "EUR": 0.926, "JPY": 156.0 } }
+ *
+ * `base` defaults to USD; when it is another currency, `rates` must include USD.
+ * `timestamp` may be an ISO string or epoch seconds/milliseconds; without it the fetch time is used.
+ * @param url The endpoint URL.
+ * @returns A provider serving the endpoint's rates converted to USD values.
+ */
+export function createHttpRateProvider(url: string): ExchangeRateProvider {
+  return {
+    id: 'http',
+    label: 'JSON Endpoint',
+    getRates: async (signal?: AbortSignal) => {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`Rate endpoint responded with ${response.status} ${response.statusText}`.trim());
+      }
+      const body = await response.json();
+      return parseRateResponse(body, url, Date.now());
+    },
+  };
+}
+
+/**
+ * Converts a "units per base" rate response into a table of USD values.
+ * @param body The parsed JSON response.
+ * @param source The source recorded on each rate.
+ * @param fetchedAt Fallback quote time when the response carries none.
+ * @returns The rates keyed by currency.
+ */
+function parseRateResponse(body: unknown, source: string, fetchedAt: number): ExchangeRateTable {
+  const payload = body as { base?: unknown; timestamp?: unknown; rates?: unknown };
+  if (!payload || typeof payload.rates !== 'object' || payload.rates === null) {
+    throw new Error('Rate endpoint response has no "rates" object.');
+  }
+
+  const base = typeof payload.base === 'string' ? payload.base.toUpperCase() : 'USD';
+  const unitsPerBase: { [currency: string]: number } = { [base]: 1 };
+  Object.entries(payload.rates as { [currency: string]: unknown }).forEach(([currency, value]) => {
+    if (typeof value === 'number' && value > 0) {
+      unitsPerBase[currency.toUpperCase()] = value;
+    }
+  });
+
+  const usdPerBase = unitsPerBase['USD'];
+  if (!usdPerBase) {
+    throw new Error(`Rate endpoint response has no USD rate for base ${base}.`);
+  }
+
+  const timestamp = parseTimestamp(payload.timestamp) ?? fetchedAt;
+  const rates: ExchangeRateTable = {};
+  Object.entries(unitsPerBase).forEach(([currency, units]) => {
+    // 1 unit of currency = (1 / units) base = (usdPerBase / units) USD
+    rates[currency] = { currency, rateToUSD: usdPerBase / units, timestamp, source };
+  });
+  return rates;
+}
+
+/**
+ * Reads a timestamp given as an ISO string, epoch seconds or epoch milliseconds.
+ * @param value The raw timestamp.
+ * @returns Epoch milliseconds, or undefined if the value is not a usable timestamp.
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && value > 0) {
+    // Values below ~2001 in milliseconds are treated as seconds
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Builds the provider selected in the settings.
+ * @param id The selected provider.
+ * @param localRates The user's rate table, used by the 'local' provider.
+ * @param endpointUrl The endpoint URL, used by the 'http' provider.
+ * @returns The matching provider.
+ */
+export function createExchangeRateProvider(
+  id: ExchangeRateProviderId,
+  localRates: LocalExchangeRateInput[],
+  endpointUrl: string,
+): ExchangeRateProvider {
+  switch (id) {
+    case 'local':
+      return createLocalRateProvider(localRates);
+    case 'http':
+      return createHttpRateProvider(endpointUrl);
+    case 'static':
+    default:
+      return createStaticRateProvider();
+  }
+}
+
+/**
+ * Picks the rates for the given currencies from a table, skipping USD (always 1).
+ * @param rates The rate table.
+ * @param currencies The currencies a calculation converted through.
+ * @returns The rates found, without duplicates.
+ */
+export function pickExchangeRates(rates: ExchangeRateTable, currencies: string[]): ExchangeRate[] {
+  return Array.from(new Set(currencies))
+    .filter((currency) => currency !== 'USD' && rates[currency])
+    .map((currency) => rates[currency]);
+}
@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'vitest';
+import { CalculationInputs, ExchangeRateTable, ReverseInputs, ScaleInEntry } from '../types';
+import { findCurrencyPair } from '../constants';
+import { calculateLotSize, calculateReverse, calculateScaleInPlan } from './forexCalculatorService';
+
+const createRate = (currency: string, rateToUSD: number) => ({ currency, rateToUSD, timestamp: 0, source: 'Test' });
+
+const rates: ExchangeRateTable = {
+  EUR: createRate('EUR', 1.1),
+  GBP: createRate('GBP', 1.25),
+  JPY: createRate('JPY', 1 / 150),
+};
+
+// A 50-pip EUR/USD buy on a 10,000 USD account, with no costs and chart-price levels
+const createInputs = (overrides: Partial<CalculationInputs> = {}): CalculationInputs => ({
+  accountCurrency: 'USD',
+  accountSize: 10000,
+  leverage: '1:100',
+  leverageSchedule: {},
+  riskType: 'amount',
+  riskValue: 100,
+  currencyPair: findCurrencyPair('EUR/USD'),
+  entryPrice: 1.1,
+  stopLossPrice: 1.095,
+  takeProfitTargets: [],
+  tradeType: 'buy',
+  lotRounding: 'floor',
+  spreadPips: 0,
+  commission: 0,
+  commissionType: 'perLot',
+  exchangeRates: rates,
+  priceBasis: 'chart',
+  equity: 0,
+  usedMargin: 0,
+  marginCallLevel: 100,
+  stopOutLevel: 50,
+  ...overrides,
+});
+
+const calculate = (overrides: Partial<CalculationInputs> = {}) => {
+  const outcome = calculateLotSize(createInputs(overrides));
+  if (outcome.success === false) {
+    throw new Error(outcome.errors.map((error) => error.message).join('; '));
+  }
+  return outcome.results;
+};
+
+describe('calculateLotSize', () => {
+  describe('pip value', () => {
+    it('sizes a USD-quoted pair at 10 USD per pip per lot', () => {
+      const results = calculate();
+      expect(results.stopLossPips).toBeCloseTo(50);
+      expect(results.finalLotSize).toBe(0.2);
+      expect(results.riskPerPip).toBeCloseTo(2);
+      expect(results.totalRiskAmount).toBeCloseTo(100);
+    });
+
+    it('converts the pip value of a JPY-quoted pair to the account currency', () => {
+      // 1 pip = 1,000 JPY per lot = 6.67 USD, so 50 pips risk 333.33 USD per lot
+      const results = calculate({ currencyPair: findCurrencyPair('USD/JPY'), entryPrice: 150, stopLossPrice: 149.5 });
+      expect(results.stopLossPips).toBeCloseTo(50);
+      expect(results.unroundedLotSize).toBeCloseTo(0.3);
+      expect(results.riskPerPip).toBeCloseTo(results.finalLotSize * (1000 / 150));
+    });
+
+    it('converts the pip value of a cross pair through both rates', () => {
+      // 1 pip on EUR/GBP = 10 GBP per lot = 12.5 USD, valued in a EUR account at 11.36 EUR
+      const results = calculate({
+        accountCurrency: 'EUR',
+        currencyPair: findCurrencyPair('EUR/GBP'),
+        entryPrice: 0.88,
+        stopLossPrice: 0.875,
+      });
+      expect(results.riskPerPip / results.finalLotSize).toBeCloseTo(12.5 / 1.1);
+    });
+  });
+
+  describe('lot rounding', () => {
+    // 123 USD over 50 pips at 10 USD per pip is 0.246 lots before rounding
+    it.each([
+      ['floor', 0.24],
+      ['nearest', 0.25],
+      ['ceil', 0.25],
+    ] as const)('rounds with the %s policy', (lotRounding, expected) => {
+      const results = calculate({ riskValue: 123, lotRounding });
+      expect(results.unroundedLotSize).toBeCloseTo(0.246);
+      expect(results.finalLotSize).toBe(expected);
+    });
+
+    it('keeps a lot size already on the step grid despite floating-point noise', () => {
+      // 150 / 500 = 0.3, which divides by the 0.01 step as 29.999999999999996
+      expect(calculate({ riskValue: 150 }).finalLotSize).toBe(0.3);
+    });
+
+    it('raises the lot size to the broker minimum and flags the extra risk', () => {
+      const results = calculate({ riskValue: 2 });
+      expect(results.finalLotSize).toBe(0.01);
+      expect(results.minLotExceedsRisk).toBe(true);
+      expect(results.totalRiskAmount).toBeCloseTo(5);
+    });
+
+    it('caps the lot size at the broker maximum', () => {
+      const results = calculate({ riskValue: 100_000, accountSize: 1_000_000 });
+      expect(results.finalLotSize).toBe(100);
+      expect(results.maxLotCapped).toBe(true);
+    });
+  });
+
+  describe('trading costs', () => {
+    it('adds the spread to the stop loss distance', () => {
+      const results = calculate({ spreadPips: 2 });
+      expect(results.executableStopLossPips).toBeCloseTo(52);
+      expect(results.unroundedLotSize).toBeCloseTo(100 / 520);
+      expect(results.finalLotSize).toBe(0.19);
+      expect(results.spreadCost).toBeCloseTo(0.19 * 2 * 10);
+    });
+
+    it('charges a commission per lot', () => {
+      const results = calculate({ commission: 7 });
+      expect(results.unroundedLotSize).toBeCloseTo(100 / 507);
+      expect(results.commissionCost).toBeCloseTo(0.19 * 7);
+    });
+
+    it('charges a commission per million of notional, valued at the entry price', () => {
+      // One lot at 1.1000 is 110,000 USD of notional, so 30 per million costs 3.30 per lot
+      const results = calculate({ commission: 30, commissionType: 'perMillion' });
+      expect(results.unroundedLotSize).toBeCloseTo(100 / 503.3);
+      expect(results.commissionCost).toBeCloseTo(results.finalLotSize * 3.3);
+    });
+
+    it('values the notional for a per-million commission in the account currency', () => {
+      // 110,000 USD is 100,000 EUR, so 30 per million costs 3 EUR per lot
+      const results = calculate({ accountCurrency: 'EUR', commission: 30, commissionType: 'perMillion' });
+      expect(results.commissionCost / results.finalLotSize).toBeCloseTo(3);
+    });
+
+    it('counts every cost in the total risk', () => {
+      const results = calculate({ spreadPips: 1.5, commission: 7 });
+      expect(results.totalRiskAmount).toBeCloseTo(results.stopLossAmount + results.spreadCost + results.commissionCost);
+      expect(results.totalRiskAmount).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe('price basis', () => {
+    it('adds the spread to a stop measured from chart prices', () => {
+      const results = calculate({ spreadPips: 2, priceBasis: 'chart' });
+      expect(results.stopLossPips).toBeCloseTo(50);
+      expect(results.executableStopLossPips).toBeCloseTo(52);
+    });
+
+    it('takes a stop measured from the fill price as already holding the spread', () => {
+      const results = calculate({ spreadPips: 2, priceBasis: 'executable' });
+      expect(results.stopLossPips).toBeCloseTo(48);
+      expect(results.executableStopLossPips).toBeCloseTo(50);
+      expect(results.finalLotSize).toBe(0.2);
+      expect(results.spreadCost).toBeCloseTo(0.2 * 2 * 10);
+    });
+
+    it('takes the spread off a take profit measured from chart prices', () => {
+      const results = calculate({ spreadPips: 2, takeProfitTargets: [{ price: 1.11, closePercent: 100 }] });
+      expect(results.takeProfitPips).toBeCloseTo(100);
+      expect(results.executableTakeProfitPips).toBeCloseTo(98);
+    });
+
+    it('measures a sell from the same prices in the other direction', () => {
+      const results = calculate({ tradeType: 'sell', stopLossPrice: 1.105, spreadPips: 2, priceBasis: 'executable' });
+      expect(results.stopLossPips).toBeCloseTo(48);
+      expect(results.executableStopLossPips).toBeCloseTo(50);
+    });
+  });
+
+  describe('broker lot rules', () => {
+    it('rounds to the account lot step in place of the instrument step', () => {
+      expect(calculate({ riskValue: 123, lotRules: { minLot: '', maxLot: '', lotStep: 0.1 } }).finalLotSize).toBe(0.2);
+    });
+
+    it('clamps to the account minimum and maximum lots', () => {
+      expect(calculate({ riskValue: 2, lotRules: { minLot: 0.1, maxLot: '', lotStep: '' } }).finalLotSize).toBe(0.1);
+      expect(calculate({ lotRules: { minLot: '', maxLot: 0.05, lotStep: '' } }).finalLotSize).toBe(0.05);
+    });
+
+    it('rejects a minimum lot above the maximum lot', () => {
+      const outcome = calculateLotSize(createInputs({ lotRules: { minLot: 5, maxLot: 2, lotStep: '' } }));
+      expect(outcome.success).toBe(false);
+      if (outcome.success === false) {
+        expect(outcome.errors.map((error) => error.code)).toContain('INVALID_LOT_RULES');
+      }
+    });
+  });
+});
+
+describe('calculateScaleInPlan', () => {
+  // Two buys sharing a stop at 1.0900: 100 pips (1,000 USD per lot) and 50 pips (500 USD per lot) from the stop
+  const entries: ScaleInEntry[] = [{ price: 1.1, weight: 1 }, { price: 1.095, weight: 1 }];
+  const plan = (planEntries: ScaleInEntry[], overrides: Partial<CalculationInputs> = {}) =>
+    calculateScaleInPlan({ ...createInputs({ stopLossPrice: 1.09, ...overrides }), entries: planEntries });
+
+  it('splits the lots by weight so the combined loss at the stop fits the risk budget', () => {
+    const outcome = plan(entries);
+    if (outcome.success === false) {
+      throw new Error(outcome.errors[0].message);
+    }
+    // 100 USD / (0.5 * 1,000 + 0.5 * 500) = 0.1333 lots, 0.0667 per entry, floored to 0.06
+    expect(outcome.results.unroundedTotalLotSize).toBeCloseTo(100 / 750);
+    expect(outcome.results.entries.map((entry) => entry.lots)).toEqual([0.06, 0.06]);
+    expect(outcome.results.totalLotSize).toBe(0.12);
+    expect(outcome.results.totalRiskAmount).toBeCloseTo(90);
+    expect(outcome.results.riskPerPip).toBeCloseTo(1.2);
+  });
+
+  it('reports the lot-weighted average entry and the cumulative risk in fill order', () => {
+    const outcome = plan([{ price: 1.095, weight: 2 }, { price: 1.1, weight: 1 }]);
+    if (outcome.success === false) {
+      throw new Error(outcome.errors[0].message);
+    }
+    const { entries: legs, averageEntryPrice } = outcome.results;
+    // A buy's limit orders fill from the highest price down
+    expect(legs.map((leg) => leg.price)).toEqual([1.1, 1.095]);
+    expect(averageEntryPrice).toBeCloseTo((legs[0].lots * 1.1 + legs[1].lots * 1.095) / (legs[0].lots + legs[1].lots));
+    expect(legs[0].cumulativeRiskAmount).toBeCloseTo(legs[0].riskAmount);
+    expect(legs[1].cumulativeRiskAmount).toBeCloseTo(legs[0].riskAmount + legs[1].riskAmount);
+  });
+
+  it('rejects an entry on the wrong side of the stop loss', () => {
+    const outcome = plan([{ price: 1.1, weight: 1 }, { price: 1.085, weight: 1 }]);
+    expect(outcome.success).toBe(false);
+    if (outcome.success === false) {
+      expect(outcome.errors).toContainEqual(expect.objectContaining({ code: 'ENTRY_WRONG_SIDE', index: 1 }));
+    }
+  });
+
+  it('needs at least two entries', () => {
+    const outcome = plan([{ price: 1.1, weight: 1 }]);
+    expect(outcome.success).toBe(false);
+    if (outcome.success === false) {
+      expect(outcome.errors.map((error) => error.code)).toContain('INVALID_SCALE_IN_ENTRIES');
+    }
+  });
+});
+
+describe('calculateReverse', () => {
+  const solve = (solveFor: ReverseInputs['solveFor'], lotSize: number, overrides: Partial<CalculationInputs> = {}) => {
+    const outcome = calculateReverse({ ...createInputs(overrides), solveFor, lotSize });
+    if (outcome.success === false) {
+      throw new Error(outcome.errors.map((error) => error.message).join('; '));
+    }
+    return outcome.results;
+  };
+
+  it('solves the widest stop loss within the risk budget', () => {
+    const results = solve('stopLoss', 0.2);
+    expect(results.stopLossPrice).toBe(1.095);
+    expect(results.riskAmount).toBeCloseTo(100);
+  });
+
+  it('rounds a solved stop loss down to whole ticks', () => {
+    // 100 USD on 0.3 lots allows 33.33 pips, which is 333 ticks of 0.00001
+    const results = solve('stopLoss', 0.3);
+    expect(results.stopLossPrice).toBe(1.09667);
+    expect(results.riskAmount).toBeLessThanOrEqual(100);
+  });
+
+  it('leaves room for the spread and commission in a solved stop loss', () => {
+    // 100 USD on 0.2 lots with 7 USD commission per lot leaves 49.3 pips, less the 2-pip spread
+    const results = solve('stopLoss', 0.2, { spreadPips: 2, commission: 7 });
+    expect(results.stopLossPips).toBeCloseTo(47.3);
+    expect(results.riskAmount).toBeCloseTo(100);
+  });
+
+  it('solves the risk of a lot size and stop loss', () => {
+    const results = solve('risk', 0.5);
+    expect(results.riskAmount).toBeCloseTo(250);
+    expect(results.riskPercentage).toBeCloseTo(2.5);
+  });
+
+  it('solves the account size at which a trade risks the target percentage', () => {
+    const results = solve('accountSize', 0.5, { riskType: 'percentage', riskValue: 2 });
+    expect(results.accountSize).toBeCloseTo(12500);
+    expect(results.riskPercentage).toBeCloseTo(2);
+  });
+
+  it('reports a risk budget that does not cover the trading costs', () => {
+    const outcome = calculateReverse({ ...createInputs({ riskValue: 5, commission: 7 }), solveFor: 'stopLoss', lotSize: 1 });
+    expect(outcome.success).toBe(false);
+    if (outcome.success === false) {
+      expect(outcome.errors.map((error) => error.code)).toContain('CALCULATION_FAILED');
+    }
+  });
+});
@@ -1,30 +1,68 @@
 import {
   AccountCurrency,
+  BrokerLotRules,
   CalculationInputs,
+  CalculationField,
+  CalculationIssue,
+  CalculationOutcome,
   CalculationResults,
+  CommissionType,
+  CorrelatedPosition,
+  CorrelationRisk,
+  CorrelationRiskInputs,
+  CorrelationRiskTrade,
+  CurrencyExposure,
   CurrencyPair,
+  ExchangeRateTable,
+  ExposureBreakdown,
+  ExposureInputs,
   Leverage,
-  TradeType, // Import TradeType
+  LeverageSchedule,
+  LotRoundingPolicy,
+  MarginAnalysis,
+  OpenPositionRisk,
+  PortfolioInputs,
+  PortfolioRisk,
+  PriceBasis,
+  ReverseInputs,
+  ReverseResults,
+  RiskLimit,
+  ScaleInEntryResult,
+  ScaleInInputs,
+  ScaleInResults,
+  TakeProfitTarget,
+  TakeProfitTargetResult,
+  TradeType,
 } from '../types';
-import { MOCK_EXCHANGE_RATES, getPairPipMultiplier, MOCK_MARKET_PRICES } from '../constants'; // Import getPairPipMultiplier and MOCK_MARKET_PRICES
+import { findCurrencyPairCategory } from '../constants';
+import { pickExchangeRates } from './exchangeRateService';
+import { getCorrelation } from './correlationService';
 
 /**
  * Helper to get the exchange rate from a currency to USD.
- * This is primarily for fiat currencies used in cross-conversions.
- * For commodities/crypto, their 'rate' is their current price against USD, which is dynamic.
- * These are mock rates for currency conversion of account/pip values.
+ * USD is the pivot currency and is always 1; every other currency must come from
+ * the active rate provider. Callers validate with `hasExchangeRate` first, so a
+ * missing rate yields NaN rather than a silently wrong conversion.
  * @param currency The currency symbol (e.g., 'EUR', 'INR').
+ * @param rates The rate table from the active provider.
  * @returns The value of 1 unit of `currency` in USD.
  */
-function getExchangeRateToUSD(currency: string): number {
-  const rate = MOCK_EXCHANGE_RATES[currency];
-  if (!rate) {
-    // If a direct rate isn't found, it might be a commodity/crypto base (like XAU, BTC)
-    // or an unknown currency. Assume 1.0, but usually entryPrice handles this for base values.
-    console.warn(`Missing mock exchange rate for ${currency}. Assuming 1.0 for direct conversion.`);
-    return 1.0;
-  }
-  return rate;
+function getExchangeRateToUSD(currency: string, rates: ExchangeRateTable): number {
+  if (currency === 'USD') {
+    return 1;
+  }
+  const rate = rates[currency];
+  return rate && rate.rateToUSD > 0 ? rate.rateToUSD : NaN;
+}
+
+/**
+ * Checks whether a currency can be converted, i.e. has a rate to USD.
+ * @param currency The currency symbol (e.g., 'EUR', 'INR').
+ * @param rates The rate table from the active provider.
+ * @returns True if a rate is available.
+ */
+function hasExchangeRate(currency: string, rates: ExchangeRateTable): boolean {
+  return getExchangeRateToUSD(currency, rates) > 0;
 }
 
 /**
@@ -32,18 +70,33 @@ function getExchangeRateToUSD(currency: string): number {
  * @param amount The amount to convert.
  * @param fromCurrency The original currency.
  * @param toCurrency The target currency.
+ * @param rates The rate table from the active provider.
  * @returns The converted amount.
  */
 function convertCurrency(
   amount: number,
   fromCurrency: string,
   toCurrency: string,
+  rates: ExchangeRateTable,
 ): number {
   if (fromCurrency === toCurrency) {
     return amount;
   }
-  const amountInUSD = amount * getExchangeRateToUSD(fromCurrency);
-  return amountInUSD / getExchangeRateToUSD(toCurrency);
+  const amountInUSD = amount * getExchangeRateToUSD(fromCurrency, rates);
+  return amountInUSD / getExchangeRateToUSD(toCurrency, rates);
+}
+
+/**
+ * Lists the currencies a trade's pip value and margin are converted through.
+ * Pip value needs the quote currency; margin on a cross pair also needs the base.
+ * @param currencyPair The currency pair.
+ * @param accountCurrency The user's account currency.
+ * @returns The currencies that need a rate to USD.
+ */
+function getRequiredRateCurrencies(currencyPair: CurrencyPair, accountCurrency: AccountCurrency): string[] {
+  const { base, quote } = currencyPair;
+  const isUsdPair = ['USD', 'USDT'].includes(base) || ['USD', 'USDT'].includes(quote);
+  return isUsdPair ? [quote, accountCurrency] : [quote, base, accountCurrency];
 }
 
 /**
@@ -56,11 +109,11 @@ function convertCurrency(
 function calculatePipsDistance(
   price1: number,
   price2: number,
-  currencyPair: CurrencyPair, // Changed to take CurrencyPair
+  currencyPair: CurrencyPair,
 ): number {
-  const pipMultiplier = getPairPipMultiplier(currencyPair.symbol); // Get dynamic pip multiplier
-  if (pipMultiplier === 0) return 0; // Avoid division by zero
-  return Math.abs(price1 - price2) / pipMultiplier;
+  const { pipSize } = currencyPair;
+  if (pipSize === 0) return 0; // Avoid division by zero
+  return Math.abs(price1 - price2) / pipSize;
 }
 
 /**
@@ -69,30 +122,103 @@ function calculatePipsDistance(
  *
  * @param currencyPair The selected currency pair.
  * @param accountCurrency The user's account currency.
+ * @param rates The rate table from the active provider.
  * @returns The value of one pip in the account currency for a standard lot.
  */
 function calculatePipValue(
   currencyPair: CurrencyPair,
   accountCurrency: AccountCurrency,
+  rates: ExchangeRateTable,
 ): number {
-  const { quote, contractSize } = currencyPair;
-  const pipMultiplier = getPairPipMultiplier(currencyPair.symbol); // Get dynamic pip multiplier
+  const { quote, contractSize, pipSize } = currencyPair;
 
-  // Pip value in quote currency = pipMultiplier * contractSize (per lot)
+  // Pip value in quote currency = pipSize * contractSize (per lot)
   // For EUR/USD: 0.0001 * 100,000 = $10 USD
   // For USD/JPY: 0.01 * 100,000 = 1000 JPY
-  // For XAU/USD: 0.01 * 100 = $1 USD (assuming 1 pip = $0.01, 1 lot = 100 oz)
+  // For XAU/USD: 0.10 * 100 = $10 USD (1 pip = $0.10, 1 lot = 100 oz)
   // For BTC/USDT: 1.0 * 1 = $1 USDT
-  let pipValueInQuoteCurrency = pipMultiplier * contractSize;
+  const pipValueInQuoteCurrency = pipSize * contractSize;
   
   // Convert pip value from quote currency to account currency
   return convertCurrency(
     pipValueInQuoteCurrency,
     quote,
     accountCurrency,
+    rates,
   );
 }
 
+/**
+ * Calculates the round-turn trading costs for one standard lot.
+ * The spread is paid once when the position is opened; commission is charged
+ * either as a flat amount per lot or per million of notional traded.
+ * @param currencyPair The currency pair.
+ * @param entryPrice The entry price (used to value the notional for per-million commission).
+ * @param accountCurrency The user's account currency.
+ * @param spreadPips The spread in pips.
+ * @param commission The round-turn commission, in account currency.
+ * @param commissionType Whether the commission is per lot or per million notional.
+ * @param pipValuePerStandardLot The pip value for one lot in account currency.
+ * @param rates The rate table from the active provider.
+ * @returns The spread and commission costs for one lot, in account currency.
+ */
+function calculateCostsPerLot(
+  currencyPair: CurrencyPair,
+  entryPrice: number,
+  accountCurrency: AccountCurrency,
+  spreadPips: number,
+  commission: number,
+  commissionType: CommissionType,
+  pipValuePerStandardLot: number,
+  rates: ExchangeRateTable,
+): { spreadCost: number; commissionCost: number } {
+  const spreadCost = Math.max(0, spreadPips) * pipValuePerStandardLot;
+
+  let commissionCost = Math.max(0, commission);
+  if (commissionType === 'perMillion') {
+    // Notional of one lot = contractSize units of base, valued at entry price in the quote currency
+    const notionalInAccountCurrency = convertCurrency(
+      currencyPair.contractSize * entryPrice,
+      currencyPair.quote,
+      accountCurrency,
+      rates,
+    );
+    commissionCost = (commissionCost * notionalInAccountCurrency) / 1_000_000;
+  }
+
+  return { spreadCost, commissionCost };
+}
+
+/**
+ * Reads the N out of a '1:N' leverage.
+ * @param leverage The leverage (e.g., '1:500').
+ * @returns The ratio, or NaN if the leverage is malformed.
+ */
+function getLeverageRatio(leverage: Leverage): number {
+  return parseFloat(String(leverage).split(':')[1]);
+}
+
+/**
+ * Picks the leverage that applies to an instrument: the account leverage,
+ * lowered to the cap of the instrument's category when the schedule has one.
+ * @param leverage The account leverage.
+ * @param leverageSchedule Caps keyed by CURRENCY_PAIRS category.
+ * @param currencyPair The currency pair.
+ * @returns The effective leverage and the category whose cap applied, if any.
+ */
+function resolveLeverage(
+  leverage: Leverage,
+  leverageSchedule: LeverageSchedule,
+  currencyPair: CurrencyPair,
+): { leverage: Leverage; category: string | null } {
+  const category = findCurrencyPairCategory(currencyPair.symbol);
+  const cap = category ? leverageSchedule[category] : undefined;
+  if (cap && getLeverageRatio(cap) < getLeverageRatio(leverage)) {
+    return { leverage: cap, category };
+  }
+  return { leverage, category: null };
+}
+
 /**
  * Calculates the required margin for a given trade.
  * @param lotSize The calculated lot size.
@@ -100,6 +226,7 @@ function calculatePipValue(
  * @param currencyPair The currency pair.
  * @param entryPrice The entry price of the trade (needed to value the position in USD for certain pairs).
  * @param accountCurrency The user's account currency.
+ * @param rates The rate table from the active provider.
  * @returns The margin required in the account currency.
  */
 function calculateMarginRequired(
@@ -108,9 +235,10 @@ function calculateMarginRequired(
   currencyPair: CurrencyPair,
   entryPrice: number,
   accountCurrency: AccountCurrency,
+  rates: ExchangeRateTable,
 ): number {
-  const leverageRatio = parseFloat(leverage.split(':')[1]);
-  if (leverageRatio === 0) return Infinity; // Prevent division by zero
+  const leverageRatio = getLeverageRatio(leverage);
+  if (!(leverageRatio > 0)) return Infinity; // Prevent division by zero
 
   const { base, contractSize } = currencyPair;
 
@@ -129,136 +257,738 @@ function calculateMarginRequired(
     // Cross pair (e.g., EUR/JPY, AUD/CAD). Convert base currency value to USD.
     // Value of base currency portion: lotSize * contractSize units of base.
     // Convert these units to USD using the exchange rate.
-    totalPositionValueInUSD = lotSize * contractSize * getExchangeRateToUSD(base);
+    totalPositionValueInUSD = lotSize * contractSize * getExchangeRateToUSD(base, rates);
   }
 
   const marginInUSD = totalPositionValueInUSD / leverageRatio;
-  return convertCurrency(marginInUSD, 'USD', accountCurrency);
+  return convertCurrency(marginInUSD, 'USD', accountCurrency, rates);
 }
 
 /**
- * Simulates fetching a market price for a given currency pair.
- * @param symbol The symbol of the currency pair (e.g., 'EUR/USD').
- * @returns A promise that resolves with the mock market price.
+ * Compares a trade's margin with the account and simulates an adverse move until
+ * the margin call and stop-out levels. The move is measured on this trade alone;
+ * equity starts net of its opening costs, and margin held by other positions stays fixed.
+ * @param inputs The account margin inputs (equity, used margin and broker levels).
+ * @param lotSize The trade's total lot size.
+ * @param marginRequired The margin the trade needs, in account currency.
+ * @param marginPerLot The margin one lot needs, in account currency.
+ * @param openingCosts Spread and commission paid on the trade, in account currency.
+ * @param entryPrice The price adverse moves are measured from.
+ * @param tradeType The trade direction.
+ * @param currencyPair The currency pair.
+ * @param pipValuePerStandardLot The pip value for one lot in account currency.
+ * @returns Free margin, margin level, the largest affordable lot size and the adverse moves.
  */
-export async function fetchMarketPrice(symbol: string): Promise<number | undefined> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(MOCK_MARKET_PRICES[symbol]);
-    }, 500); // Simulate network delay
+function analyzeMargin(
+  inputs: Pick<CalculationInputs, 'accountSize' | 'equity' | 'usedMargin' | 'marginCallLevel' | 'stopOutLevel'>,
+  lotSize: number,
+  marginRequired: number,
+  marginPerLot: number,
+  openingCosts: number,
+  entryPrice: number,
+  tradeType: TradeType,
+  currencyPair: CurrencyPair,
+  pipValuePerStandardLot: number,
+): MarginAnalysis {
+  const equity = inputs.equity > 0 ? inputs.equity : inputs.accountSize;
+  const usedMargin = Math.max(0, inputs.usedMargin);
+  const totalUsedMargin = usedMargin + marginRequired;
+  const freeMarginBefore = equity - usedMargin;
+  const freeMarginAfter = freeMarginBefore - marginRequired;
+
+  // Largest volume the free margin can hold, on the step grid and within the broker maximum
+  let maxAffordableLotSize = 0;
+  if (marginPerLot > 0 && freeMarginBefore > 0) {
+    const affordable = Math.min(
+      snapToLotStep(freeMarginBefore / marginPerLot, currencyPair.lotStep, 'floor'),
+      currencyPair.maxLot,
+    );
+    maxAffordableLotSize = affordable >= currencyPair.minLot ? affordable : 0;
+  }
+
+  // Margin level = equity / used margin; solve for the pips lost that bring it down to `level`
+  const lossPerPip = lotSize * pipValuePerStandardLot;
+  const adverseMove = (level: number): { pips: number | null; price: number | null } => {
+    if (!(totalUsedMargin > 0) || !(lossPerPip > 0)) {
+      return { pips: null, price: null };
+    }
+    const equityAtLevel = (totalUsedMargin * level) / 100;
+    const pips = Math.max(0, (equity - openingCosts - equityAtLevel) / lossPerPip);
+    const priceMove = pips * currencyPair.pipSize;
+    const price = tradeType === 'buy' ? entryPrice - priceMove : entryPrice + priceMove;
+    return { pips, price: price > 0 ? price : null };
+  };
+  const marginCall = adverseMove(inputs.marginCallLevel);
+  const stopOut = adverseMove(inputs.stopOutLevel);
+
+  return {
+    equity,
+    totalUsedMargin,
+    freeMarginBefore,
+    freeMarginAfter,
+    marginLevel: totalUsedMargin > 0 ? (equity / totalUsedMargin) * 100 : null,
+    exceedsFreeMargin: marginRequired > freeMarginBefore,
+    maxAffordableLotSize,
+    marginCallPips: marginCall.pips,
+    marginCallPrice: marginCall.price,
+    stopOutPips: stopOut.pips,
+    stopOutPrice: stopOut.price,
+  };
+}
+
+/**
+ * Reduces a lot size so it respects a risk limit's loss allowance and volume cap.
+ * The result stays on the volume step grid and is never raised to the minimum lot.
+ * @param lotSize The lot size after rounding.
+ * @param lossPerLot Loss at the stop loss per lot, trading costs included.
+ * @param currencyPair The currency pair (provides lotStep).
+ * @param riskLimit The limit to apply, if any.
+ * @returns The limited lot size and which cap, if any, reduced it.
+ */
+function applyRiskLimit(
+  lotSize: number,
+  lossPerLot: number,
+  currencyPair: CurrencyPair,
+  riskLimit: RiskLimit | undefined,
+): { lotSize: number; applied: 'risk' | 'lots' | null } {
+  if (!riskLimit) {
+    return { lotSize, applied: null };
+  }
+  let limited = lotSize;
+  let applied: 'risk' | 'lots' | null = null;
+  if (riskLimit.maxRiskAmount !== null && lossPerLot > 0 && limited * lossPerLot > riskLimit.maxRiskAmount) {
+    limited = snapToLotStep(riskLimit.maxRiskAmount / lossPerLot, currencyPair.lotStep, 'floor');
+    applied = 'risk';
+  }
+  if (riskLimit.maxLotSize !== null && limited > riskLimit.maxLotSize) {
+    limited = snapToLotStep(riskLimit.maxLotSize, currencyPair.lotStep, 'floor');
+    applied = 'lots';
+  }
+  return { lotSize: limited, applied };
+}
+
+/**
+ * Builds the error returned when a risk limit leaves no room for even the minimum lot.
+ * @param riskLimit The binding limit.
+ * @param currencyPair The currency pair (provides minLot).
+ * @param field The field the error is reported on.
+ * @returns The error.
+ */
+function createRiskLimitError(riskLimit: RiskLimit, currencyPair: CurrencyPair, field: CalculationField): CalculationIssue {
+  const { maxRiskAmount } = riskLimit;
+  let reason: string;
+  if (maxRiskAmount === null) {
+    reason = `at most ${riskLimit.maxLotSize} lots are allowed per trade`;
+  } else if (maxRiskAmount > 0) {
+    reason = `only ${maxRiskAmount.toFixed(2)} of risk remains, less than the ${currencyPair.minLot} lot minimum would lose`;
+  } else {
+    reason = 'no loss allowance remains';
+  }
+  return {
+    code: 'RISK_LIMIT_REACHED',
+    severity: 'error',
+    field,
+    message: `Trade blocked by the ${riskLimit.label}: ${reason}.`,
+  };
+}
+
+/**
+ * Replaces the instrument's volume limits with the account broker's, where set.
+ * @param currencyPair The instrument spec from the registry.
+ * @param lotRules The account's limits; empty fields keep the instrument's value.
+ * @returns The instrument spec with the minimum lot, maximum lot and volume step the broker uses.
+ */
+export function applyLotRules(currencyPair: CurrencyPair, lotRules?: BrokerLotRules): CurrencyPair {
+  if (!currencyPair || !lotRules) {
+    return currencyPair;
+  }
+  const pick = (value: number | '', registered: number) => (typeof value === 'number' && value > 0 ? value : registered);
+  return {
+    ...currencyPair,
+    minLot: pick(lotRules.minLot, currencyPair.minLot),
+    maxLot: pick(lotRules.maxLot, currencyPair.maxLot),
+    lotStep: pick(lotRules.lotStep, currencyPair.lotStep),
+  };
+}
+
+/**
+ * Rounds a raw lot size to the broker's volume step and clamps it to the
+ * instrument's minimum and maximum volume.
+ * @param lotSize The unrounded lot size.
+ * @param currencyPair The currency pair (provides minLot, maxLot and lotStep).
+ * @param policy 'floor' never exceeds the risk budget, 'nearest' rounds half up, 'ceil' rounds up.
+ * @returns The rounded lot size plus flags describing any min/max clamping.
+ */
+function roundLotSize(
+  lotSize: number,
+  currencyPair: CurrencyPair,
+  policy: LotRoundingPolicy,
+): { lotSize: number; minLotApplied: boolean; maxLotApplied: boolean } {
+  const { minLot, maxLot, lotStep } = currencyPair;
+  let rounded = snapToLotStep(lotSize, lotStep, policy);
+
+  let minLotApplied = false;
+  let maxLotApplied = false;
+  if (rounded < minLot) {
+    rounded = minLot;
+    minLotApplied = true;
+  } else if (rounded > maxLot) {
+    rounded = maxLot;
+    maxLotApplied = true;
+  }
+
+  return { lotSize: rounded, minLotApplied, maxLotApplied };
+}
+
+/**
+ * Snaps a lot size onto the volume step grid without applying min/max limits.
+ * @param lotSize The lot size to snap.
+ * @param lotStep The broker's volume step.
+ * @param policy The rounding direction.
+ * @returns The lot size as a whole number of steps.
+ */
+function snapToLotStep(
+  lotSize: number,
+  lotStep: number,
+  policy: LotRoundingPolicy,
+): number {
+  const steps = lotSize / lotStep;
+  // Small epsilon absorbs floating point noise (e.g., 0.3 / 0.1 = 2.9999999999999996)
+  const epsilon = 1e-9;
+  let roundedSteps: number;
+  switch (policy) {
+    case 'ceil':
+      roundedSteps = Math.ceil(steps - epsilon);
+      break;
+    case 'nearest':
+      roundedSteps = Math.round(steps);
+      break;
+    case 'floor':
+    default:
+      roundedSteps = Math.floor(steps + epsilon);
+      break;
+  }
+
+  // Keep the result on the step grid without floating point artifacts
+  const stepDecimals = (lotStep.toString().split('.')[1] || '').length;
+  return parseFloat((roundedSteps * lotStep).toFixed(stepDecimals));
+}
+
+/**
+ * Converts an entry-to-level distance into chart-price and executable distances.
+ * With a 'chart' basis the spread is paid on top of the chart distance; with an
+ * 'executable' basis the entry is the fill price and the level is the price that
+ * triggers the exit, so the spread is already inside the measured distance.
+ * @param measuredPips The distance between the entered prices, in pips.
+ * @param spreadPips The spread in pips.
+ * @param priceBasis How the entry price relates to bid and ask.
+ * @param isStopLoss True for a stop loss (the spread adds to it), false for a take profit (the spread eats into it).
+ * @returns The chart-price distance and the distance actually lost or captured.
+ */
+function getLevelDistances(
+  measuredPips: number,
+  spreadPips: number,
+  priceBasis: PriceBasis,
+  isStopLoss: boolean,
+): { chartPips: number; executablePips: number } {
+  const spread = Math.max(0, spreadPips);
+  const sign = isStopLoss ? 1 : -1;
+  if (priceBasis === 'executable') {
+    return { chartPips: Math.max(0, measuredPips - sign * spread), executablePips: measuredPips };
+  }
+  return { chartPips: measuredPips, executablePips: measuredPips + sign * spread };
+}
+
+/**
+ * Splits the final position across take-profit targets.
+ * Each partial close is rounded down to the volume step; when the plan closes
+ * 100% of the position, the last target takes whatever rounding left over so
+ * the position is fully closed.
+ * @param finalLotSize The total position size.
+ * @param targets The take-profit levels with their close percentages.
+ * @param entryPrice The entry price.
+ * @param stopLossPips The stop loss distance in pips.
+ * @param currencyPair The currency pair.
+ * @param pipValuePerStandardLot The pip value for one lot in account currency.
+ * @param spreadPips The spread in pips.
+ * @param priceBasis How the entry price relates to bid and ask.
+ * @param commissionPerLot Round-turn commission for one lot in account currency.
+ * @returns The per-target lots, chart and executable pips, net profit and R multiple.
+ */
+function allocateTakeProfitTargets(
+  finalLotSize: number,
+  targets: CalculationInputs['takeProfitTargets'],
+  entryPrice: number,
+  stopLossPips: number,
+  currencyPair: CurrencyPair,
+  pipValuePerStandardLot: number,
+  spreadPips: number,
+  priceBasis: PriceBasis,
+  commissionPerLot: number,
+): TakeProfitTargetResult[] {
+  const validTargets = targets.filter((t) => t.price > 0 && t.closePercent > 0);
+  const totalPercent = validTargets.reduce((sum, t) => sum + t.closePercent, 0);
+  const stepDecimals = (currencyPair.lotStep.toString().split('.')[1] || '').length;
+
+  let allocatedLots = 0;
+  return validTargets.map((target, index) => {
+    let lots = snapToLotStep((finalLotSize * target.closePercent) / 100, currencyPair.lotStep, 'floor');
+    if (index === validTargets.length - 1 && totalPercent >= 100) {
+      lots = parseFloat((finalLotSize - allocatedLots).toFixed(stepDecimals));
+    }
+    allocatedLots += lots;
+
+    const distances = getLevelDistances(
+      calculatePipsDistance(entryPrice, target.price, currencyPair),
+      spreadPips,
+      priceBasis,
+      false,
+    );
+    return {
+      price: target.price,
+      closePercent: target.closePercent,
+      lots,
+      pips: distances.chartPips,
+      executablePips: distances.executablePips,
+      profit: lots * distances.executablePips * pipValuePerStandardLot - lots * commissionPerLot,
+      rMultiple: stopLossPips > 0 ? distances.chartPips / stopLossPips : 0,
+    };
   });
 }
 
+/**
+ * Checks whether a price lies on the losing side of an entry for the trade direction.
+ * @param tradeType The trade direction.
+ * @param entryPrice The entry price.
+ * @param price The price to check.
+ * @returns True if reaching `price` would lose money (below entry for buys, above for sells).
+ */
+function isOnLossSide(tradeType: TradeType, entryPrice: number, price: number): boolean {
+  return tradeType === 'buy' ? price < entryPrice : price > entryPrice;
+}
+
+/**
+ * Validates stop loss and take profit placement against the trade direction.
+ * A buy needs its stop below entry and its targets above; a sell the opposite.
+ * @param tradeType The trade direction.
+ * @param entryPrice The entry price.
+ * @param stopLossPrice The stop loss price (ignored when not positive).
+ * @param takeProfitTargets The take profit targets; `index` on issues refers to this list.
+ * @returns Errors for inverted levels and warnings for unusual but valid placements.
+ */
+export function validateTradeLevels(
+  tradeType: TradeType,
+  entryPrice: number,
+  stopLossPrice: number,
+  takeProfitTargets: TakeProfitTarget[],
+): CalculationIssue[] {
+  const issues: CalculationIssue[] = [];
+  if (entryPrice <= 0) {
+    return issues;
+  }
+  const side = tradeType === 'buy' ? 'below' : 'above';
+  const oppositeSide = tradeType === 'buy' ? 'above' : 'below';
+  const direction = tradeType === 'buy' ? 'Buy' : 'Sell';
+
+  const stopLossValid = stopLossPrice > 0 && isOnLossSide(tradeType, entryPrice, stopLossPrice);
+  if (stopLossPrice > 0 && stopLossPrice !== entryPrice && !stopLossValid) {
+    issues.push({
+      code: 'STOP_WRONG_SIDE',
+      severity: 'error',
+      field: 'stopLoss',
+      message: `For a ${direction}, the Stop Loss must be ${side} the Entry Price.`,
+    });
+  }
+
+  takeProfitTargets.forEach((target, index) => {
+    if (target.price <= 0) {
+      return;
+    }
+    if (target.price === entryPrice || isOnLossSide(tradeType, entryPrice, target.price)) {
+      issues.push({
+        code: 'TAKE_PROFIT_WRONG_SIDE',
+        severity: 'error',
+        field: 'takeProfit',
+        message: `For a ${direction}, the Take Profit must be ${oppositeSide} the Entry Price.`,
+        index,
+      });
+    } else if (stopLossValid && Math.abs(target.price - entryPrice) < Math.abs(entryPrice - stopLossPrice)) {
+      issues.push({
+        code: 'TAKE_PROFIT_INSIDE_STOP',
+        severity: 'warning',
+        field: 'takeProfit',
+        message: 'Take Profit is closer to entry than the Stop Loss (R:R below 1:1).',
+        index,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates scale-in entries against a shared stop loss for the trade direction.
+ * @param tradeType The trade direction.
+ * @param entryPrices The scale-in entry prices; `index` on issues refers to this list.
+ * @param stopLossPrice The shared stop loss price.
+ * @returns Errors for entries on the wrong side of the stop loss.
+ */
+export function validateScaleInLevels(
+  tradeType: TradeType,
+  entryPrices: number[],
+  stopLossPrice: number,
+): CalculationIssue[] {
+  if (stopLossPrice <= 0) {
+    return [];
+  }
+  const side = tradeType === 'buy' ? 'above' : 'below';
+  const direction = tradeType === 'buy' ? 'Buy' : 'Sell';
+  return entryPrices.flatMap((price, index): CalculationIssue[] => (
+    price > 0 && !isOnLossSide(tradeType, price, stopLossPrice)
+      ? [{
+        code: 'ENTRY_WRONG_SIDE',
+        severity: 'error',
+        field: 'scaleInEntries',
+        message: `For a ${direction}, every entry must be ${side} the Stop Loss.`,
+        index,
+      }]
+      : []
+  ));
+}
+
+/**
+ * Validates the inputs shared by single-entry and scale-in calculations:
+ * account, risk, instrument, stop loss and the exchange rates needed for conversion.
+ * @param inputs The shared calculation inputs.
+ * @returns The errors found, empty if the inputs are usable.
+ */
+function validateCommonInputs(
+  inputs: Omit<CalculationInputs, 'entryPrice' | 'takeProfitTargets' | 'priceBasis' | 'lotRounding'>,
+): CalculationIssue[] {
+  const {
+    accountCurrency,
+    accountSize,
+    leverage,
+    leverageSchedule,
+    riskType,
+    riskValue,
+    currencyPair,
+    stopLossPrice,
+    exchangeRates,
+    equity,
+    usedMargin,
+    marginCallLevel,
+    stopOutLevel,
+  } = inputs;
+  const errors: CalculationIssue[] = [];
+
+  if (!(accountSize > 0)) {
+    errors.push({
+      code: 'INVALID_ACCOUNT_SIZE',
+      severity: 'error',
+      field: 'accountSize',
+      message: 'Account Size must be a positive number.',
+    });
+  }
+  if (!(getLeverageRatio(leverage) > 0)) {
+    errors.push({
+      code: 'INVALID_LEVERAGE',
+      severity: 'error',
+      field: 'leverage',
+      message: 'Leverage must be a positive ratio such as 1:100.',
+    });
+  }
+  const category = currencyPair ? findCurrencyPairCategory(currencyPair.symbol) : undefined;
+  if (category && leverageSchedule[category] && !(getLeverageRatio(leverageSchedule[category]) > 0)) {
+    errors.push({
+      code: 'INVALID_LEVERAGE',
+      severity: 'error',
+      field: 'leverage',
+      message: `The leverage cap for ${category} must be a positive ratio such as 1:30.`,
+    });
+  }
+  if (!(riskValue > 0) || (riskType === 'percentage' && riskValue > 100)) {
+    errors.push({
+      code: 'INVALID_RISK_VALUE',
+      severity: 'error',
+      field: 'riskValue',
+      message: riskType === 'percentage'
+        ? 'Risk Percentage must be greater than 0% and at most 100%.'
+        : 'Risk Amount must be a positive number.',
+    });
+  }
+  if (!currencyPair || !currencyPair.symbol || !(currencyPair.contractSize > 0) || !(currencyPair.pipSize > 0) || !(currencyPair.lotStep > 0)) {
+    errors.push({
+      code: 'INVALID_INSTRUMENT',
+      severity: 'error',
+      field: 'currencyPair',
+      message: 'Please select a valid currency pair.',
+    });
+  } else {
+    const required = getRequiredRateCurrencies(currencyPair, accountCurrency)
+      .filter((currency) => currency !== accountCurrency);
+    required.filter((c) => !hasExchangeRate(c, exchangeRates)).forEach((currency) => {
+      errors.push({
+        code: 'MISSING_RATE',
+        severity: 'error',
+        field: 'currencyPair',
+        message: `No exchange rate is available for ${currency}, so ${currencyPair.symbol} cannot be converted to ${accountCurrency}.`,
+      });
+    });
+  }
+  const { lotRules } = inputs;
+  if (lotRules && [lotRules.minLot, lotRules.maxLot, lotRules.lotStep].some((value) => value !== '' && !(value > 0))) {
+    errors.push({
+      code: 'INVALID_LOT_RULES',
+      severity: 'error',
+      field: 'lotRules',
+      message: 'Broker Min Lot, Max Lot and Lot Step must be positive, or empty to use the instrument defaults.',
+    });
+  } else if (currencyPair && lotRules) {
+    const { minLot, maxLot } = applyLotRules(currencyPair, lotRules);
+    if (minLot > maxLot) {
+      errors.push({
+        code: 'INVALID_LOT_RULES',
+        severity: 'error',
+        field: 'lotRules',
+        message: `Broker Min Lot (${minLot}) cannot be above Max Lot (${maxLot}).`,
+      });
+    }
+  }
+  if (!hasExchangeRate(accountCurrency, exchangeRates)) {
+    errors.push({
+      code: 'MISSING_RATE',
+      severity: 'error',
+      field: 'accountCurrency',
+      message: `No exchange rate is available for the account currency ${accountCurrency}.`,
+    });
+  }
+  if (!(equity >= 0)) {
+    errors.push({
+      code: 'INVALID_EQUITY',
+      severity: 'error',
+      field: 'equity',
+      message: 'Equity must be a positive number, or empty to use the Account Size.',
+    });
+  }
+  if (!(usedMargin >= 0)) {
+    errors.push({
+      code: 'INVALID_USED_MARGIN',
+      severity: 'error',
+      field: 'usedMargin',
+      message: 'Used Margin cannot be negative.',
+    });
+  }
+  if (!(stopOutLevel > 0) || !(marginCallLevel >= stopOutLevel)) {
+    errors.push({
+      code: 'INVALID_MARGIN_LEVELS',
+      severity: 'error',
+      field: 'marginLevels',
+      message: 'Stop-Out Level must be positive and no higher than the Margin Call Level.',
+    });
+  }
+  if (!(stopLossPrice > 0)) {
+    errors.push({
+      code: 'INVALID_STOP_LOSS',
+      severity: 'error',
+      field: 'stopLoss',
+      message: 'Stop Loss Price must be defined and positive.',
+    });
+  }
+
+  return errors;
+}
+
 /**
  * Calculates all relevant Forex lot size metrics.
  * @param inputs The input parameters for the calculation.
- * @returns An object containing all calculated results.
+ * @returns The results and any warnings, or the list of errors that prevented the calculation.
  */
 export function calculateLotSize(
   inputs: CalculationInputs,
-): CalculationResults {
+): CalculationOutcome<CalculationResults> {
   const {
     accountCurrency,
     accountSize,
     leverage,
+    leverageSchedule,
     riskType,
     riskValue,
-    currencyPair,
     entryPrice,
     stopLossPrice,
-    takeProfitPrice,
-    tradeType, // No direct use in current calculation logic but included in inputs
+    takeProfitTargets,
+    tradeType,
+    lotRounding,
+    spreadPips,
+    commission,
+    commissionType,
+    exchangeRates,
+    priceBasis,
   } = inputs;
+  const currencyPair = applyLotRules(inputs.currencyPair, inputs.lotRules);
 
   // Validate inputs
-  if (accountSize <= 0 || riskValue <= 0 || entryPrice <= 0 || stopLossPrice <= 0) {
-    return {
-      finalLotSize: 0,
-      totalRiskAmount: 0,
-      riskPerPip: 0,
-      stopLossPips: 0,
-      takeProfitPips: null,
-      potentialProfitAtTP: null,
-      marginRequired: 0,
-      riskToRewardRatio: null,
-      lotSizeCategory: 'micro',
-      effectiveRiskPercentage: 0,
-    };
+  const errors = validateCommonInputs(inputs);
+  if (!(entryPrice > 0)) {
+    errors.push({
+      code: 'INVALID_ENTRY_PRICE',
+      severity: 'error',
+      field: 'entryPrice',
+      message: 'Entry Price must be a positive number.',
+    });
+  } else if (stopLossPrice > 0 && currencyPair.tickSize > 0 && Math.abs(entryPrice - stopLossPrice) < currencyPair.tickSize) {
+    errors.push({
+      code: 'STOP_TOO_CLOSE',
+      severity: 'error',
+      field: 'stopLoss',
+      message: 'Stop Loss Price is too close to Entry Price (minimum 1 tick distance).',
+    });
+  }
+
+  // Rows without a price are ignored, so `index` on issues still refers to the caller's list
+  const totalClosePercent = takeProfitTargets
+    .filter((t) => t.price > 0)
+    .reduce((sum, t) => sum + t.closePercent, 0);
+  takeProfitTargets.forEach((target, index) => {
+    if (target.price > 0 && !(target.closePercent > 0)) {
+      errors.push({
+        code: 'INVALID_TAKE_PROFIT_PLAN',
+        severity: 'error',
+        field: 'takeProfit',
+        message: 'Each Take Profit target needs a close percentage above 0%.',
+        index,
+      });
+    }
+  });
+  if (totalClosePercent > 100) {
+    errors.push({
+      code: 'INVALID_TAKE_PROFIT_PLAN',
+      severity: 'error',
+      field: 'takeProfit',
+      message: 'All Take Profit targets together cannot close more than 100% of the position.',
+    });
+  }
+
+  const levelIssues = validateTradeLevels(tradeType, entryPrice, stopLossPrice, takeProfitTargets);
+  errors.push(...levelIssues.filter((issue) => issue.severity === 'error'));
+  const warnings = levelIssues.filter((issue) => issue.severity === 'warning');
+
+  if (errors.length > 0) {
+    return { success: false, errors };
   }
 
   // 1. Calculate Total Risk Amount in Account Currency
-  let totalRiskAmount =
+  const totalRiskAmount =
     riskType === 'percentage'
       ? (accountSize * riskValue) / 100
       : riskValue;
 
-  // 2. Calculate Stop Loss Pips (distance from entry to SL)
-  const stopLossPips = calculatePipsDistance(
-    entryPrice,
-    stopLossPrice,
-    currencyPair, // Pass currencyPair
+  // 2. Calculate Stop Loss Pips (distance from entry to SL), on the chart and as executed
+  const stopLossDistances = getLevelDistances(
+    calculatePipsDistance(entryPrice, stopLossPrice, currencyPair),
+    spreadPips,
+    priceBasis,
+    true,
   );
-
-  if (stopLossPips === 0) {
-    return {
-      finalLotSize: 0,
-      totalRiskAmount,
-      riskPerPip: 0,
-      stopLossPips: 0,
-      takeProfitPips: null,
-      potentialProfitAtTP: null,
-      marginRequired: 0,
-      riskToRewardRatio: null,
-      lotSizeCategory: 'micro',
-      effectiveRiskPercentage: (totalRiskAmount / accountSize) * 100,
-    };
-  }
+  const stopLossPips = stopLossDistances.chartPips;
+  const executableStopLossPips = stopLossDistances.executablePips;
 
   // 3. Calculate Pip Value in Account Currency (for a standard lot)
   const pipValuePerStandardLot = calculatePipValue(
     currencyPair, // Pass currencyPair
     accountCurrency,
+    exchangeRates,
   );
 
-  // 4. Calculate Recommended Lot Size
-  // Lot Size = Total Risk Amount / (Stop Loss Pips * Pip Value Per Standard Lot)
-  let recommendedLotSize =
-    totalRiskAmount / (stopLossPips * pipValuePerStandardLot);
-  
-  // Round lot size to practical values (e.g., 2 decimal places for standard lots)
-  const finalLotSize = Math.max(0.01, parseFloat(recommendedLotSize.toFixed(2)));
+  // 4. Calculate Trading Costs per Lot (spread + round-turn commission)
+  const costsPerLot = calculateCostsPerLot(
+    currencyPair,
+    entryPrice,
+    accountCurrency,
+    spreadPips,
+    commission,
+    commissionType,
+    pipValuePerStandardLot,
+    exchangeRates,
+  );
+
+  // 5. Calculate Recommended Lot Size
+  // Lot Size = Total Risk Amount / (Executable SL Pips * Pip Value Per Standard Lot + Commission Per Lot)
+  // so that the loss at SL, spread included, plus commission equals the risk budget
+  const recommendedLotSize =
+    totalRiskAmount / (executableStopLossPips * pipValuePerStandardLot + costsPerLot.commissionCost);
+
+  // Round lot size to the broker's volume step, within min/max volume
+  const rounding = roundLotSize(recommendedLotSize, currencyPair, lotRounding);
 
-  // 5. Recalculate Total Risk Amount based on finalLotSize (for accuracy)
-  const actualRiskAmount = finalLotSize * stopLossPips * pipValuePerStandardLot;
+  // Account rules (e.g., a prop-firm daily loss limit) may cap the volume further or block the trade
+  const lossPerLot = executableStopLossPips * pipValuePerStandardLot + costsPerLot.commissionCost;
+  const { riskLimit } = inputs;
+  const limited = applyRiskLimit(rounding.lotSize, lossPerLot, currencyPair, riskLimit);
+  if (riskLimit && limited.lotSize < currencyPair.minLot) {
+    return { success: false, errors: [createRiskLimitError(riskLimit, currencyPair, 'riskValue')] };
+  }
+  const finalLotSize = limited.lotSize;
+
+  // 6. Recalculate Total Risk Amount based on finalLotSize (for accuracy)
+  const stopLossAmount = finalLotSize * stopLossPips * pipValuePerStandardLot;
+  const spreadCost = finalLotSize * (executableStopLossPips - stopLossPips) * pipValuePerStandardLot;
+  const commissionCost = finalLotSize * costsPerLot.commissionCost;
+  const actualRiskAmount = stopLossAmount + spreadCost + commissionCost;
   const effectiveRiskPercentage = (actualRiskAmount / accountSize) * 100;
 
-  // 6. Calculate Risk per Pip
+  // 7. Calculate Risk per Pip
   const riskPerPip = finalLotSize * pipValuePerStandardLot;
 
-  // 7. Calculate Potential Profit at TP and Take Profit Pips
+  // 8. Allocate the position across Take Profit targets (net of trading costs)
+  const targetResults = allocateTakeProfitTargets(
+    finalLotSize,
+    takeProfitTargets,
+    entryPrice,
+    stopLossPips,
+    currencyPair,
+    pipValuePerStandardLot,
+    spreadPips,
+    priceBasis,
+    costsPerLot.commissionCost,
+  );
+
   let potentialProfitAtTP: number | null = null;
   let takeProfitPips: number | null = null;
+  let executableTakeProfitPips: number | null = null;
   let riskToRewardRatio: number | null = null;
 
-  if (takeProfitPrice && takeProfitPrice > 0) {
-    takeProfitPips = calculatePipsDistance(
-      entryPrice,
-      takeProfitPrice,
-      currencyPair, // Pass currencyPair
-    );
-    potentialProfitAtTP = finalLotSize * (takeProfitPips || 0) * pipValuePerStandardLot;
+  const targetLots = targetResults.reduce((sum, t) => sum + t.lots, 0);
+  if (targetResults.length > 0 && targetLots > 0) {
+    // Plan totals are weighted by the volume closed at each target
+    potentialProfitAtTP = targetResults.reduce((sum, t) => sum + t.profit, 0);
+    takeProfitPips = targetResults.reduce((sum, t) => sum + t.lots * t.pips, 0) / targetLots;
+    executableTakeProfitPips = targetResults.reduce((sum, t) => sum + t.lots * t.executablePips, 0) / targetLots;
     if (stopLossPips > 0) {
-      riskToRewardRatio = (takeProfitPips || 0) / stopLossPips;
+      riskToRewardRatio = takeProfitPips / stopLossPips;
     }
   }
 
-  // 8. Calculate Margin Required
+  // 9. Calculate Margin Required, at the leverage allowed for this instrument
+  const appliedLeverage = resolveLeverage(leverage, leverageSchedule, currencyPair);
   const marginRequired = calculateMarginRequired(
     finalLotSize,
-    leverage,
+    appliedLeverage.leverage,
     currencyPair,
     entryPrice, // Pass entryPrice for margin calculation
     accountCurrency,
+    exchangeRates,
+  );
+  const marginAnalysis = analyzeMargin(
+    inputs,
+    finalLotSize,
+    marginRequired,
+    calculateMarginRequired(1, appliedLeverage.leverage, currencyPair, entryPrice, accountCurrency, exchangeRates),
+    spreadCost + commissionCost,
+    entryPrice,
+    tradeType,
+    currencyPair,
+    pipValuePerStandardLot,
   );
 
   // Determine lot size category for display purposes
@@ -269,16 +999,642 @@ export function calculateLotSize(
     lotSizeCategory = 'mini';
   }
 
+  if (!isFinite(recommendedLotSize) || !isFinite(actualRiskAmount) || !isFinite(marginRequired)) {
+    return {
+      success: false,
+      errors: [{
+        code: 'CALCULATION_FAILED',
+        severity: 'error',
+        field: 'stopLoss',
+        message: 'The lot size could not be calculated from these inputs. Please check the Stop Loss distance and account values.',
+      }],
+    };
+  }
+
   return {
-    finalLotSize: isNaN(finalLotSize) ? 0 : finalLotSize,
-    totalRiskAmount: isNaN(actualRiskAmount) ? 0 : actualRiskAmount,
-    riskPerPip: isNaN(riskPerPip) ? 0 : riskPerPip,
-    stopLossPips: isNaN(stopLossPips) ? 0 : stopLossPips,
-    takeProfitPips: isNaN(takeProfitPips as number) ? null : takeProfitPips, // Store calculated TP Pips
-    potentialProfitAtTP: isNaN(potentialProfitAtTP as number) ? null : potentialProfitAtTP,
-    marginRequired: isNaN(marginRequired) ? 0 : marginRequired,
-    riskToRewardRatio: isNaN(riskToRewardRatio as number) ? null : riskToRewardRatio,
-    lotSizeCategory,
-    effectiveRiskPercentage: isNaN(effectiveRiskPercentage) ? 0 : effectiveRiskPercentage,
+    success: true,
+    warnings,
+    results: {
+      finalLotSize,
+      totalRiskAmount: actualRiskAmount,
+      riskPerPip,
+      stopLossPips,
+      executableStopLossPips,
+      takeProfitPips,
+      executableTakeProfitPips,
+      potentialProfitAtTP,
+      marginRequired,
+      appliedLeverage: appliedLeverage.leverage,
+      leverageCategory: appliedLeverage.category,
+      marginAnalysis,
+      riskToRewardRatio,
+      lotSizeCategory,
+      effectiveRiskPercentage,
+      unroundedLotSize: recommendedLotSize,
+      // Only flag when the broker minimum actually pushes risk over the budget
+      minLotExceedsRisk: rounding.minLotApplied && actualRiskAmount > totalRiskAmount,
+      maxLotCapped: rounding.maxLotApplied,
+      riskLimitApplied: limited.applied,
+      stopLossAmount,
+      spreadCost,
+      commissionCost,
+      takeProfitTargets: targetResults,
+      exchangeRatesUsed: pickExchangeRates(exchangeRates, getRequiredRateCurrencies(currencyPair, accountCurrency)),
+    },
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Plans a scale-in: several entries sharing one stop loss.
+ * Lots are split across entries by weight so that, if every entry fills and the
+ * stop loss is hit, the combined loss (including trading costs) equals the risk budget.
+ * @param inputs The shared trade parameters plus the list of entries.
+ * @returns Per-entry lots and risk, the average entry price and the cumulative risk by fill order,
+ *          or the list of errors that prevented the calculation.
+ */
+export function calculateScaleInPlan(
+  inputs: ScaleInInputs,
+): CalculationOutcome<ScaleInResults> {
+  const {
+    accountCurrency,
+    accountSize,
+    leverage,
+    leverageSchedule,
+    riskType,
+    riskValue,
+    stopLossPrice,
+    tradeType,
+    lotRounding,
+    spreadPips,
+    commission,
+    commissionType,
+    exchangeRates,
+    priceBasis,
+    entries,
+  } = inputs;
+  const currencyPair = applyLotRules(inputs.currencyPair, inputs.lotRules);
+
+  // Validate inputs
+  const errors = validateCommonInputs(inputs);
+  const validEntries = entries.filter((e) => e.price > 0);
+  if (validEntries.length < 2) {
+    errors.push({
+      code: 'INVALID_SCALE_IN_ENTRIES',
+      severity: 'error',
+      field: 'scaleInEntries',
+      message: 'Scale-in needs at least two entry prices.',
+    });
+  }
+  entries.forEach((entry, index) => {
+    if (entry.price <= 0) {
+      return;
+    }
+    if (!(entry.weight > 0)) {
+      errors.push({
+        code: 'INVALID_SCALE_IN_ENTRIES',
+        severity: 'error',
+        field: 'scaleInEntries',
+        message: 'Each entry needs a positive weight.',
+        index,
+      });
+    }
+    if (stopLossPrice > 0 && Math.abs(entry.price - stopLossPrice) < currencyPair.tickSize) {
+      errors.push({
+        code: 'STOP_TOO_CLOSE',
+        severity: 'error',
+        field: 'scaleInEntries',
+        message: 'This entry is too close to the Stop Loss Price (minimum 1 tick distance).',
+        index,
+      });
+    }
+  });
+  errors.push(...validateScaleInLevels(tradeType, entries.map((e) => e.price), stopLossPrice));
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const totalRiskAmount =
+    riskType === 'percentage'
+      ? (accountSize * riskValue) / 100
+      : riskValue;
+
+  const pipValuePerStandardLot = calculatePipValue(currencyPair, accountCurrency, exchangeRates);
+  const totalWeight = validEntries.reduce((sum, e) => sum + e.weight, 0);
+
+  // Loss per lot at each entry = executable SL distance * pip value + commission per lot,
+  // as in calculateLotSize, so executable entry prices do not pay the spread twice
+  const legs = validEntries.map((entry) => {
+    const stopLossDistances = getLevelDistances(
+      calculatePipsDistance(entry.price, stopLossPrice, currencyPair),
+      spreadPips,
+      priceBasis,
+      true,
+    );
+    const costs = calculateCostsPerLot(
+      currencyPair,
+      entry.price,
+      accountCurrency,
+      spreadPips,
+      commission,
+      commissionType,
+      pipValuePerStandardLot,
+      exchangeRates,
+    );
+    const spreadCostPerLot = (stopLossDistances.executablePips - stopLossDistances.chartPips) * pipValuePerStandardLot;
+    return {
+      entry,
+      share: entry.weight / totalWeight,
+      stopLossPips: stopLossDistances.chartPips,
+      lossPerLot: stopLossDistances.executablePips * pipValuePerStandardLot + costs.commissionCost,
+      costsPerLot: spreadCostPerLot + costs.commissionCost,
+    };
+  });
+
+  // Solve for the total lots L such that sum(share_i * L * lossPerLot_i) = risk budget
+  const weightedLossPerLot = legs.reduce((sum, leg) => sum + leg.share * leg.lossPerLot, 0);
+  const unroundedTotalLotSize = totalRiskAmount / weightedLossPerLot;
+  if (!isFinite(unroundedTotalLotSize) || unroundedTotalLotSize <= 0) {
+    return {
+      success: false,
+      errors: [{
+        code: 'CALCULATION_FAILED',
+        severity: 'error',
+        field: 'scaleInEntries',
+        message: 'The scale-in plan could not be calculated from these inputs. Please check the entry prices and Stop Loss Price.',
+      }],
+    };
+  }
+
+  // Account rules cap the total before it is split; each leg is then floored to stay within them
+  const limited = applyRiskLimit(unroundedTotalLotSize, weightedLossPerLot, currencyPair, inputs.riskLimit);
+  const plannedTotalLotSize = limited.applied ? limited.lotSize : unroundedTotalLotSize;
+  const legRounding = limited.applied ? 'floor' : lotRounding;
+
+  let minLotExceedsRisk = false;
+  const roundedLegs = legs.map((leg) => {
+    const rounding = roundLotSize(plannedTotalLotSize * leg.share, currencyPair, legRounding);
+    if (rounding.minLotApplied) {
+      minLotExceedsRisk = true;
+    }
+    return { ...leg, lots: rounding.lotSize, riskAmount: rounding.lotSize * leg.lossPerLot };
+  });
+
+  // Limit orders fill in price order: buys fill from the highest entry down, sells from the lowest up
+  roundedLegs.sort((a, b) => (tradeType === 'buy' ? b.entry.price - a.entry.price : a.entry.price - b.entry.price));
+
+  let cumulativeRisk = 0;
+  const entryResults: ScaleInEntryResult[] = roundedLegs.map((leg) => {
+    cumulativeRisk += leg.riskAmount;
+    return {
+      price: leg.entry.price,
+      weight: leg.entry.weight,
+      lots: leg.lots,
+      stopLossPips: leg.stopLossPips,
+      riskAmount: leg.riskAmount,
+      cumulativeRiskAmount: cumulativeRisk,
+      cumulativeRiskPercentage: (cumulativeRisk / accountSize) * 100,
+    };
+  });
+
+  const totalLotSize = entryResults.reduce((sum, e) => sum + e.lots, 0);
+  const limitRisk = entryResults.reduce((sum, e) => sum + e.riskAmount, 0);
+  const { riskLimit } = inputs;
+  if (riskLimit && (
+    (riskLimit.maxRiskAmount !== null && limitRisk > riskLimit.maxRiskAmount + 1e-9)
+    || (riskLimit.maxLotSize !== null && totalLotSize > riskLimit.maxLotSize + 1e-9)
+  )) {
+    // Minimum lots on each leg already break the limit
+    return { success: false, errors: [createRiskLimitError(riskLimit, currencyPair, 'riskValue')] };
+  }
+  const averageEntryPrice = totalLotSize > 0
+    ? entryResults.reduce((sum, e) => sum + e.lots * e.price, 0) / totalLotSize
+    : 0;
+  const averageStopLossPips = getLevelDistances(
+    calculatePipsDistance(averageEntryPrice, stopLossPrice, currencyPair),
+    spreadPips,
+    priceBasis,
+    true,
+  ).chartPips;
+  const actualRiskAmount = entryResults.reduce((sum, e) => sum + e.riskAmount, 0);
+  const appliedLeverage = resolveLeverage(leverage, leverageSchedule, currencyPair);
+  const marginRequired = entryResults.reduce(
+    (sum, e) => sum + calculateMarginRequired(e.lots, appliedLeverage.leverage, currencyPair, e.price, accountCurrency, exchangeRates),
+    0,
+  );
+  const stepDecimals = (currencyPair.lotStep.toString().split('.')[1] || '').length;
+  const openingCosts = roundedLegs.reduce((sum, leg) => sum + leg.lots * leg.costsPerLot, 0);
+  const marginAnalysis = analyzeMargin(
+    inputs,
+    totalLotSize,
+    marginRequired,
+    totalLotSize > 0 ? marginRequired / totalLotSize : 0,
+    openingCosts,
+    averageEntryPrice,
+    tradeType,
+    currencyPair,
+    pipValuePerStandardLot,
+  );
+
+  return {
+    success: true,
+    warnings: [],
+    results: {
+      entries: entryResults,
+      totalLotSize: parseFloat(totalLotSize.toFixed(stepDecimals)),
+      unroundedTotalLotSize,
+      averageEntryPrice,
+      averageStopLossPips,
+      riskPerPip: totalLotSize * pipValuePerStandardLot,
+      totalRiskAmount: actualRiskAmount,
+      effectiveRiskPercentage: (actualRiskAmount / accountSize) * 100,
+      marginRequired,
+      appliedLeverage: appliedLeverage.leverage,
+      leverageCategory: appliedLeverage.category,
+      marginAnalysis,
+      minLotExceedsRisk: minLotExceedsRisk && actualRiskAmount > totalRiskAmount,
+      riskLimitApplied: limited.applied,
+      exchangeRatesUsed: pickExchangeRates(exchangeRates, getRequiredRateCurrencies(currencyPair, accountCurrency)),
+    },
+  };
+}
+
+/**
+ * Solves the trade for a variable other than the lot size, reusing the pip value,
+ * cost and conversion logic of `calculateLotSize`:
+ * - 'stopLoss': the widest stop (on the tick grid) that keeps the loss within the risk budget;
+ * - 'risk': the risk amount and percentage of a given lot size and stop;
+ * - 'accountSize': the account size at which the trade risks the target percentage.
+ * @param inputs The trade parameters, the fixed lot size and the variable to solve for.
+ * @returns The solved trade, or the list of errors that prevented the calculation.
+ */
+export function calculateReverse(
+  inputs: ReverseInputs,
+): CalculationOutcome<ReverseResults> {
+  const {
+    solveFor,
+    lotSize,
+    accountCurrency,
+    leverage,
+    leverageSchedule,
+    riskType,
+    riskValue,
+    entryPrice,
+    tradeType,
+    spreadPips,
+    commission,
+    commissionType,
+    exchangeRates,
+    priceBasis,
+  } = inputs;
+  const currencyPair = applyLotRules(inputs.currencyPair, inputs.lotRules);
+
+  // Validate inputs, skipping the one being solved for
+  const solvedField: CalculationIssue['field'] = solveFor === 'stopLoss' ? 'stopLoss' : solveFor === 'risk' ? 'riskValue' : 'accountSize';
+  const errors = validateCommonInputs(inputs).filter((issue) => issue.field !== solvedField);
+  if (solveFor === 'accountSize' && riskType !== 'percentage') {
+    errors.push({
+      code: 'INVALID_RISK_VALUE',
+      severity: 'error',
+      field: 'riskValue',
+      message: 'Enter the target risk as a percentage to solve for the account size.',
+    });
+  }
+  if (!(lotSize > 0) || lotSize < currencyPair.minLot || lotSize > currencyPair.maxLot) {
+    errors.push({
+      code: 'INVALID_LOT_SIZE',
+      severity: 'error',
+      field: 'lotSize',
+      message: `Lot Size must be between the broker minimum of ${currencyPair.minLot} and maximum of ${currencyPair.maxLot}.`,
+    });
+  }
+  if (!(entryPrice > 0)) {
+    errors.push({
+      code: 'INVALID_ENTRY_PRICE',
+      severity: 'error',
+      field: 'entryPrice',
+      message: 'Entry Price must be a positive number.',
+    });
+  } else if (solveFor !== 'stopLoss') {
+    if (inputs.stopLossPrice > 0 && currencyPair.tickSize > 0 && Math.abs(entryPrice - inputs.stopLossPrice) < currencyPair.tickSize) {
+      errors.push({
+        code: 'STOP_TOO_CLOSE',
+        severity: 'error',
+        field: 'stopLoss',
+        message: 'Stop Loss Price is too close to Entry Price (minimum 1 tick distance).',
+      });
+    }
+    errors.push(...validateTradeLevels(tradeType, entryPrice, inputs.stopLossPrice, []));
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const pipValuePerStandardLot = calculatePipValue(currencyPair, accountCurrency, exchangeRates);
+  const costsPerLot = calculateCostsPerLot(
+    currencyPair,
+    entryPrice,
+    accountCurrency,
+    spreadPips,
+    commission,
+    commissionType,
+    pipValuePerStandardLot,
+    exchangeRates,
+  );
+
+  let stopLossPrice = inputs.stopLossPrice;
+  if (solveFor === 'stopLoss') {
+    // Invert Lot Size = Risk / (Executable SL Pips * Pip Value + Commission) for the executable SL pips
+    const riskBudget = riskType === 'percentage' ? (inputs.accountSize * riskValue) / 100 : riskValue;
+    const executablePips = (riskBudget / lotSize - costsPerLot.commissionCost) / pipValuePerStandardLot;
+    const measuredPips = priceBasis === 'chart' ? executablePips - Math.max(0, spreadPips) : executablePips;
+    // Round the distance down to whole ticks so the stop never exceeds the budget
+    const ticks = Math.floor((measuredPips * currencyPair.pipSize) / currencyPair.tickSize + 1e-9);
+    const priceDistance = ticks * currencyPair.tickSize;
+    const solvedPrice = tradeType === 'buy' ? entryPrice - priceDistance : entryPrice + priceDistance;
+    if (!isFinite(ticks) || ticks < 1 || solvedPrice <= 0) {
+      return {
+        success: false,
+        errors: [{
+          code: 'CALCULATION_FAILED',
+          severity: 'error',
+          field: 'riskValue',
+          message: 'The risk budget does not cover the trading costs of this lot size, so no stop loss fits. Lower the lot size or raise the risk.',
+        }],
+      };
+    }
+    stopLossPrice = parseFloat(solvedPrice.toFixed(currencyPair.digits));
+  }
+
+  const stopLossDistances = getLevelDistances(
+    calculatePipsDistance(entryPrice, stopLossPrice, currencyPair),
+    spreadPips,
+    priceBasis,
+    true,
+  );
+  const stopLossAmount = lotSize * stopLossDistances.chartPips * pipValuePerStandardLot;
+  const spreadCost = lotSize * (stopLossDistances.executablePips - stopLossDistances.chartPips) * pipValuePerStandardLot;
+  const commissionCost = lotSize * costsPerLot.commissionCost;
+  const riskAmount = stopLossAmount + spreadCost + commissionCost;
+  const accountSize = solveFor === 'accountSize' ? riskAmount / (riskValue / 100) : inputs.accountSize;
+
+  const appliedLeverage = resolveLeverage(leverage, leverageSchedule, currencyPair);
+  const marginRequired = calculateMarginRequired(
+    lotSize,
+    appliedLeverage.leverage,
+    currencyPair,
+    entryPrice,
+    accountCurrency,
+    exchangeRates,
+  );
+
+  if (!isFinite(riskAmount) || !isFinite(accountSize) || !isFinite(marginRequired)) {
+    return {
+      success: false,
+      errors: [{
+        code: 'CALCULATION_FAILED',
+        severity: 'error',
+        field: 'lotSize',
+        message: 'The trade could not be solved from these inputs. Please check the lot size, Stop Loss and account values.',
+      }],
+    };
+  }
+
+  // A fixed lot size cannot be reduced here, so account rules can only warn
+  const warnings: CalculationIssue[] = [];
+  const { riskLimit } = inputs;
+  if (riskLimit) {
+    const { maxRiskAmount, maxLotSize } = riskLimit;
+    if (maxLotSize !== null && lotSize > maxLotSize + 1e-9) {
+      warnings.push({
+        code: 'RISK_LIMIT_EXCEEDED',
+        severity: 'warning',
+        field: 'lotSize',
+        message: `This lot size is above the ${maxLotSize} lots allowed per trade.`,
+      });
+    } else if (maxRiskAmount !== null && riskAmount > maxRiskAmount + 1e-9) {
+      warnings.push({
+        code: 'RISK_LIMIT_EXCEEDED',
+        severity: 'warning',
+        field: 'lotSize',
+        message: `This trade risks more than the ${maxRiskAmount.toFixed(2)} remaining under the ${riskLimit.label}.`,
+      });
+    }
+  }
+
+  return {
+    success: true,
+    warnings,
+    results: {
+      solveFor,
+      lotSize,
+      accountSize,
+      riskAmount,
+      riskPercentage: (riskAmount / accountSize) * 100,
+      stopLossPrice,
+      stopLossPips: stopLossDistances.chartPips,
+      executableStopLossPips: stopLossDistances.executablePips,
+      riskPerPip: lotSize * pipValuePerStandardLot,
+      stopLossAmount,
+      spreadCost,
+      commissionCost,
+      marginRequired,
+      appliedLeverage: appliedLeverage.leverage,
+      leverageCategory: appliedLeverage.category,
+      exchangeRatesUsed: pickExchangeRates(exchangeRates, getRequiredRateCurrencies(currencyPair, accountCurrency)),
+    },
+  };
+}
+
+/**
+ * Sums the risk to stops and the margin of the positions already open, and
+ * optionally adds a newly calculated trade to show it in the context of that exposure.
+ * Risk is measured from entry to stop without trading costs, which are already paid.
+ * @param inputs The account and the open positions.
+ * @param newTrade The risk and margin of the trade being planned, if any.
+ * @returns Per-position risk and margin plus portfolio totals.
+ */
+export function calculatePortfolioRisk(
+  inputs: PortfolioInputs,
+  newTrade?: { riskAmount: number; marginRequired: number },
+): PortfolioRisk {
+  const { accountCurrency, accountSize, leverage, leverageSchedule, exchangeRates, positions } = inputs;
+
+  const positionResults = positions.map((position): OpenPositionRisk => {
+    const { currencyPair, tradeType } = position;
+    const lotSize = typeof position.lotSize === 'number' ? position.lotSize : 0;
+    const entryPrice = typeof position.entryPrice === 'number' ? position.entryPrice : 0;
+    const stopLossPrice = typeof position.stopLossPrice === 'number' ? position.stopLossPrice : 0;
+    const unassessed = (issue: string): OpenPositionRisk => ({
+      id: position.id,
+      riskAmount: null,
+      riskPercentage: null,
+      marginRequired: null,
+      issue,
+    });
+
+    if (!(lotSize > 0) || !(entryPrice > 0)) {
+      return unassessed('Enter the lot size and entry price.');
+    }
+    const missing = getRequiredRateCurrencies(currencyPair, accountCurrency)
+      .filter((currency) => !hasExchangeRate(currency, exchangeRates));
+    if (missing.length > 0) {
+      return unassessed(`No exchange rate is available for ${missing.join(', ')}.`);
+    }
+
+    const appliedLeverage = resolveLeverage(leverage, leverageSchedule, currencyPair);
+    const marginRequired = calculateMarginRequired(
+      lotSize,
+      appliedLeverage.leverage,
+      currencyPair,
+      entryPrice,
+      accountCurrency,
+      exchangeRates,
+    );
+    if (!(stopLossPrice > 0)) {
+      return { id: position.id, riskAmount: null, riskPercentage: null, marginRequired, issue: 'No stop loss: risk is unlimited.' };
+    }
+
+    // A stop at or beyond entry on the profit side no longer risks the account
+    const riskAmount = isOnLossSide(tradeType, entryPrice, stopLossPrice)
+      ? lotSize * calculatePipsDistance(entryPrice, stopLossPrice, currencyPair) * calculatePipValue(currencyPair, accountCurrency, exchangeRates)
+      : 0;
+    return {
+      id: position.id,
+      riskAmount,
+      riskPercentage: accountSize > 0 ? (riskAmount / accountSize) * 100 : null,
+      marginRequired,
+      issue: null,
+    };
+  });
+
+  const openRiskAmount = positionResults.reduce((sum, p) => sum + (p.riskAmount ?? 0), 0);
+  const openMarginRequired = positionResults.reduce((sum, p) => sum + (p.marginRequired ?? 0), 0);
+  const totalRiskAmount = openRiskAmount + (newTrade?.riskAmount ?? 0);
+
+  return {
+    positions: positionResults,
+    openRiskAmount,
+    openMarginRequired,
+    unprotectedCount: positionResults.filter((p) => p.marginRequired !== null && p.riskAmount === null).length,
+    newTradeRiskAmount: newTrade?.riskAmount ?? null,
+    newTradeMarginRequired: newTrade?.marginRequired ?? null,
+    totalRiskAmount,
+    totalRiskPercentage: accountSize > 0 ? (totalRiskAmount / accountSize) * 100 : 0,
+    totalMarginRequired: openMarginRequired + (newTrade?.marginRequired ?? 0),
+  };
+}
+
+/**
+ * Splits positions into their currency legs and nets them per currency.
+ * Buying one lot of BASE/QUOTE is long `contractSize` BASE and short
+ * `contractSize * entryPrice` QUOTE; both legs are valued through the quote currency,
+ * so only the quote rate is needed (commodities and indices have no rate of their own).
+ * @param inputs The account, the positions to decompose and the exposure limit.
+ * @returns Net units and account-currency notional per currency, flagged above the limit.
+ */
+export function calculateCurrencyExposure(inputs: ExposureInputs): ExposureBreakdown {
+  const { accountCurrency, accountSize, exchangeRates, positions, limitPercent } = inputs;
+  const totals: { [currency: string]: { units: number; notional: number } } = {};
+  let skippedCount = 0;
+
+  const addLeg = (currency: string, units: number, notional: number) => {
+    const total = totals[currency] ?? { units: 0, notional: 0 };
+    totals[currency] = { units: total.units + units, notional: total.notional + notional };
+  };
+
+  positions.forEach((position) => {
+    const { currencyPair, tradeType } = position;
+    const lotSize = typeof position.lotSize === 'number' ? position.lotSize : 0;
+    const entryPrice = typeof position.entryPrice === 'number' ? position.entryPrice : 0;
+    if (!(lotSize > 0) || !(entryPrice > 0) || !currencyPair.base || !currencyPair.quote
+      || !hasExchangeRate(currencyPair.quote, exchangeRates)) {
+      skippedCount++;
+      return;
+    }
+
+    const direction = tradeType === 'buy' ? 1 : -1;
+    const baseUnits = direction * lotSize * currencyPair.contractSize;
+    const quoteUnits = -baseUnits * entryPrice;
+    const quoteNotional = convertCurrency(quoteUnits, currencyPair.quote, accountCurrency, exchangeRates);
+    addLeg(currencyPair.base, baseUnits, -quoteNotional);
+    addLeg(currencyPair.quote, quoteUnits, quoteNotional);
+  });
+
+  const currencies = Object.entries(totals)
+    .map(([currency, total]): CurrencyExposure => {
+      const accountPercentage = accountSize > 0 ? (Math.abs(total.notional) / accountSize) * 100 : 0;
+      return {
+        currency,
+        units: total.units,
+        notional: total.notional,
+        accountPercentage,
+        exceedsLimit: currency !== accountCurrency && limitPercent > 0 && accountPercentage > limitPercent,
+      };
+    })
+    // Legs that cancel out (e.g., long and short the same pair) are not exposure
+    .filter((exposure) => Math.abs(exposure.notional) >= 0.005)
+    .sort((a, b) => Math.abs(b.notional) - Math.abs(a.notional));
+
+  return { currencies, skippedCount };
+}
+
+/**
+ * Checks a new trade against correlated open positions.
+ * Combined risk treats each trade's risk to stop as a volatility and adds them with
+ * their correlations: sqrt(sum_i sum_j r_i * r_j * rho_ij), where rho is flipped for
+ * opposite directions. Fully correlated trades add up; uncorrelated ones partly offset.
+ * @param inputs The correlation matrix, the new trade and the open positions.
+ * @returns The correlated positions, combined risk and a suggested lot size when correlation concentrates the risk.
+ */
+export function calculateCorrelationRisk(inputs: CorrelationRiskInputs): CorrelationRisk {
+  const { matrix, threshold, accountSize, newTrade, lotSize, currencyPair, positions } = inputs;
+  const direction = (trade: CorrelationRiskTrade) => (trade.tradeType === 'buy' ? 1 : -1);
+  const effectiveCorrelation = (a: CorrelationRiskTrade, b: CorrelationRiskTrade) =>
+    getCorrelation(matrix, a.symbol, b.symbol) * direction(a) * direction(b);
+
+  // Sum of r_i * r_j * rho_ij over the open positions only
+  let openVariance = 0;
+  positions.forEach((a) => {
+    positions.forEach((b) => {
+      openVariance += a.riskAmount * b.riskAmount * effectiveCorrelation(a, b);
+    });
+  });
+  openVariance = Math.max(0, openVariance);
+  // Cross term between the new trade (per unit of its risk) and the open positions
+  const crossTerm = positions.reduce((sum, p) => sum + p.riskAmount * effectiveCorrelation(newTrade, p), 0);
+
+  const newRisk = newTrade.riskAmount;
+  const combinedRiskAmount = Math.sqrt(Math.max(0, openVariance + 2 * newRisk * crossTerm + newRisk * newRisk));
+  const simpleRiskAmount = positions.reduce((sum, p) => sum + p.riskAmount, newRisk);
+
+  const correlatedPositions: CorrelatedPosition[] = positions
+    .map((p) => ({
+      id: p.id,
+      symbol: p.symbol,
+      correlation: getCorrelation(matrix, newTrade.symbol, p.symbol),
+      effectiveCorrelation: effectiveCorrelation(newTrade, p),
+    }))
+    .filter((p) => Math.abs(p.correlation) >= threshold)
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+  // Solve V + 2rC + r^2 = V + R^2 for r: the risk at which the trade adds as much to the
+  // combined figure as an uncorrelated trade of the full size would
+  let suggestedLotSize: number | null = null;
+  if (crossTerm > 0 && newRisk > 0 && correlatedPositions.some((p) => p.effectiveCorrelation > 0)) {
+    const allowedRisk = -crossTerm + Math.sqrt(crossTerm * crossTerm + newRisk * newRisk);
+    if (allowedRisk < newRisk) {
+      const scaled = snapToLotStep((lotSize * allowedRisk) / newRisk, currencyPair.lotStep, 'floor');
+      suggestedLotSize = scaled >= currencyPair.minLot ? scaled : 0;
+    }
+  }
+
+  return {
+    correlatedPositions,
+    simpleRiskAmount,
+    combinedRiskAmount,
+    combinedRiskPercentage: accountSize > 0 ? (combinedRiskAmount / accountSize) * 100 : 0,
+    suggestedLotSize,
+  };
+}
@@ -0,0 +1,229 @@
+import { HistoryEntry, HistoryFilter, HistoryPage, HistoryStore } from '../types';
+
+const DATABASE_NAME = 'forexCalculator';
+const DATABASE_VERSION = 2; // 2 added the timestamp and pinned indexes
+const HISTORY_STORE_NAME = 'history';
+const TIMESTAMP_INDEX_NAME = 'timestamp';
+const PINNED_INDEX_NAME = 'pinnedTimestamp';
+const LEGACY_HISTORY_KEY = 'forexCalculatorHistory'; // localStorage blob used before the IndexedDB store
+
+// An entry as stored: pinned entries repeat their timestamp under `pinnedTimestamp`,
+// so the pinned index holds only them and lists them without a walk over the whole store
+type HistoryRecord = HistoryEntry & { pinnedTimestamp?: string };
+
+/**
+ * Creates a history store backed by IndexedDB, which has no practical size limit
+ * for this data, unlike the 5 MB localStorage quota shared with the other settings.
+ * The database is opened on first use.
+ * @returns The history store.
+ */
+export function createIndexedDbHistoryStore(): HistoryStore {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database = database ?? openDatabase();
+    return database;
+  };
+
+  return {
+    getAll: async () => {
+      const db = await getDatabase();
+      return new Promise<HistoryEntry[]>((resolve, reject) => {
+        const request = db.transaction(HISTORY_STORE_NAME, 'readonly').objectStore(HISTORY_STORE_NAME).getAll();
+        request.onsuccess = () => resolve((request.result as HistoryRecord[]).map(fromRecord));
+        request.onerror = () => reject(request.error);
+      });
+    },
+    list: async (filter, offset, limit) => {
+      const db = await getDatabase();
+      const range = toTimestampRange(filter);
+      const page: HistoryPage = { entries: [], hasMore: false };
+      if (range === null) {
+        return page;
+      }
+      let skipped = 0;
+      // Stops the walk at the first match past the page, which shows that another page follows
+      const visit = (entry: HistoryEntry) => {
+        if (!matchesHistoryFilter(entry, filter)) {
+          return true;
+        }
+        if (skipped < offset) {
+          skipped += 1;
+          return true;
+        }
+        if (page.entries.length < limit) {
+          page.entries.push(entry);
+          return true;
+        }
+        page.hasMore = true;
+        return false;
+      };
+      // Pinned entries are listed first, then the rest, each newest first
+      const walkedPinned = await walkIndex(db, PINNED_INDEX_NAME, range, visit);
+      if (walkedPinned && !filter.pinnedOnly) {
+        await walkIndex(db, TIMESTAMP_INDEX_NAME, range, (entry) => entry.pinned || visit(entry));
+      }
+      return page;
+    },
+    save: async (entries) => {
+      const db = await getDatabase();
+      await runWriteTransaction(db, (store) => entries.forEach((entry) => store.put(toRecord(entry))));
+    },
+    remove: async (ids) => {
+      const db = await getDatabase();
+      await runWriteTransaction(db, (store) => ids.forEach((id) => store.delete(id)));
+    },
+  };
+}
+
+/**
+ * Moves history saved in localStorage by earlier versions into the store, converting
+ * the locale-formatted timestamps to ISO 8601. The localStorage copy is removed once saved.
+ * @param store The store to move the entries into.
+ */
+export async function migrateLocalStorageHistory(store: HistoryStore): Promise<void> {
+  const storedHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!storedHistory) {
+    return;
+  }
+  let entries: HistoryEntry[];
+  try {
+    entries = JSON.parse(storedHistory);
+  } catch (error) {
+    console.error("Failed to read history from localStorage", error);
+    localStorage.removeItem(LEGACY_HISTORY_KEY); // Clear corrupted history
+    return;
+  }
+  await store.save(entries.map((entry) => ({ ...entry, timestamp: toIsoTimestamp(entry) })));
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = (event) => {
+      const store = event.oldVersion < 1
+        ? request.result.createObjectStore(HISTORY_STORE_NAME, { keyPath: 'id' })
+        : request.transaction.objectStore(HISTORY_STORE_NAME);
+      if (event.oldVersion < 2) {
+        store.createIndex(TIMESTAMP_INDEX_NAME, 'timestamp');
+        store.createIndex(PINNED_INDEX_NAME, 'pinnedTimestamp');
+        // Entries pinned before the index existed need the key it reads
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            return;
+          }
+          if (cursor.value.pinned) {
+            cursor.update(toRecord(cursor.value));
+          }
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runWriteTransaction(db: IDBDatabase, write: (store: IDBObjectStore) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE_NAME, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    write(transaction.objectStore(HISTORY_STORE_NAME));
+  });
+}
+
+/**
+ * Visits the entries of an index from the newest timestamp down.
+ * @param visit Called with each entry; returning false ends the walk.
+ * @returns Whether the walk reached the end of the range.
+ */
+function walkIndex(
+  db: IDBDatabase,
+  indexName: string,
+  range: IDBKeyRange | undefined,
+  visit: (entry: HistoryEntry) => boolean,
+): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(HISTORY_STORE_NAME, 'readonly')
+      .objectStore(HISTORY_STORE_NAME)
+      .index(indexName)
+      .openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(true);
+      } else if (visit(fromRecord(cursor.value))) {
+        cursor.continue();
+      } else {
+        resolve(false);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toRecord(entry: HistoryEntry): HistoryRecord {
+  return entry.pinned ? { ...entry, pinnedTimestamp: entry.timestamp } : entry;
+}
+
+function fromRecord(record: HistoryRecord): HistoryEntry {
+  const { pinnedTimestamp, ...entry } = record;
+  return entry;
+}
+
+/**
+ * Converts the filter's date range to a range of ISO 8601 timestamps, which sort in time order.
+ * Date inputs give local calendar days; the range includes the whole "to" day.
+ * @returns The key range, undefined when no dates are set, or null when "from" is after "to".
+ */
+function toTimestampRange(filter: HistoryFilter): IDBKeyRange | undefined | null {
+  const from = filter.from ? new Date(`${filter.from}T00:00`).toISOString() : null;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).toISOString() : null;
+  if (from && to) {
+    return from <= to ? IDBKeyRange.bound(from, to) : null;
+  }
+  if (from) {
+    return IDBKeyRange.lowerBound(from);
+  }
+  return to ? IDBKeyRange.upperBound(to) : undefined;
+}
+
+/**
+ * Checks an entry against the filter fields other than the date range, which the index covers.
+ * Tags live on the trade journal, so the tag filter only matches journaled entries.
+ */
+function matchesHistoryFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  const tag = filter.tag.trim().toLowerCase();
+  const search = filter.search.trim().toLowerCase();
+  return (!filter.pinnedOnly || !!entry.pinned)
+    && (!filter.symbol || entry.inputs.currencyPair.symbol === filter.symbol)
+    && (filter.tradeType === 'all' || entry.inputs.tradeType === filter.tradeType)
+    && (!filter.profileId || entry.profile?.id === filter.profileId)
+    && (!tag || (entry.journal?.tags ?? []).some((t) => t.toLowerCase() === tag))
+    && (!search || getSearchText(entry).includes(search));
+}
+
+/**
+ * Reads the calculation time of an entry saved with a locale-formatted timestamp.
+ * IDs are creation times in epoch milliseconds, which is more reliable than
+ * parsing a locale string whose day/month order is unknown.
+ */
+function toIsoTimestamp(entry: HistoryEntry): string {
+  const fromId = Number(entry.id);
+  const time = Number.isFinite(fromId) && fromId > 0 ? fromId : Date.parse(entry.timestamp);
+  return new Date(isNaN(time) ? Date.now() : time).toISOString();
+}
+
+function getSearchText(entry: HistoryEntry): string {
+  return [
+    entry.inputs.currencyPair.symbol,
+    entry.notes,
+    entry.journal?.notes,
+    ...(entry.journal?.tags ?? []),
+    entry.profile?.name,
+  ].filter(Boolean).join(' ').toLowerCase();
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { CalculationResults, HistoryEntry, ScaleInResults, TradeJournal, TradeOutcome } from '../types';
+import { findCurrencyPair } from '../constants';
+import { calculateJournalStats, calculateTradeOutcome, filterJournalEntries, getPlannedPosition } from './journalService';
+
+// A 0.2-lot EUR/USD buy from 1.1000 risking 100 USD, at 2 USD per pip
+const createEntry = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id: '1767225600000',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  inputs: {
+    accountSize: 10000,
+    currencyPair: findCurrencyPair('EUR/USD'),
+    tradeType: 'buy',
+    entryPrice: 1.1,
+  } as HistoryEntry['inputs'],
+  results: { finalLotSize: 0.2, riskPerPip: 2, totalRiskAmount: 100 } as CalculationResults,
+  ...overrides,
+});
+
+const createJournal = (overrides: Partial<TradeJournal> = {}): TradeJournal => ({
+  taken: true,
+  fillPrice: 1.1,
+  partialExits: [],
+  exitPrice: 1.11,
+  exitTime: '',
+  fees: '',
+  notes: '',
+  tags: [],
+  outcome: null,
+  ...overrides,
+});
+
+const measure = (entry: HistoryEntry, journal: TradeJournal) => {
+  const outcome = calculateTradeOutcome(entry, journal);
+  if (outcome.success === false) {
+    throw new Error(outcome.errors.map((error) => error.message).join('; '));
+  }
+  return outcome.results;
+};
+
+describe('calculateTradeOutcome', () => {
+  it('values the move from fill to exit with the planned pip value, net of fees', () => {
+    // 99 pips on 0.2 lots at 10 USD per pip per lot, less 4 USD of fees
+    const outcome = measure(createEntry(), createJournal({ fillPrice: 1.1001, fees: 4 }));
+    expect(outcome.realizedPips).toBeCloseTo(99);
+    expect(outcome.grossProfit).toBeCloseTo(198);
+    expect(outcome.netProfit).toBeCloseTo(194);
+    expect(outcome.rMultiple).toBeCloseTo(1.94);
+    expect(outcome.entrySlippagePips).toBeCloseTo(1);
+  });
+
+  it('measures a sell from fill down to exit', () => {
+    const entry = createEntry({ inputs: { ...createEntry().inputs, tradeType: 'sell' } });
+    const outcome = measure(entry, createJournal({ exitPrice: 1.095 }));
+    expect(outcome.realizedPips).toBeCloseTo(50);
+    expect(outcome.rMultiple).toBeCloseTo(1);
+  });
+
+  it('closes each partial exit at its own price and the rest at the final exit', () => {
+    // 0.1 lots out at +50 pips, the remaining 0.1 at +100 pips
+    const outcome = measure(createEntry(), createJournal({ partialExits: [{ price: 1.105, lots: 0.1 }] }));
+    expect(outcome.grossProfit).toBeCloseTo(150);
+    expect(outcome.realizedPips).toBeCloseTo(75);
+  });
+
+  it('rejects partial exits that close the whole planned position', () => {
+    const outcome = calculateTradeOutcome(createEntry(), createJournal({ partialExits: [{ price: 1.105, lots: 0.2 }] }));
+    expect(outcome.success).toBe(false);
+  });
+
+  it('rejects an entry without calculation results', () => {
+    const outcome = calculateTradeOutcome(createEntry({ results: null }), createJournal());
+    expect(outcome.success).toBe(false);
+  });
+
+  it('measures a scale-in plan as one position at its average entry', () => {
+    const scaleInResults = { totalLotSize: 0.12, averageEntryPrice: 1.0975, riskPerPip: 1.2, totalRiskAmount: 90 } as ScaleInResults;
+    const entry = createEntry({ results: null, scaleInResults });
+    expect(getPlannedPosition(entry)).toEqual({ lotSize: 0.12, entryPrice: 1.0975, riskPerPip: 1.2, riskAmount: 90 });
+    const outcome = measure(entry, createJournal({ fillPrice: 1.0975, exitPrice: 1.09 }));
+    expect(outcome.netProfit).toBeCloseTo(-90);
+    expect(outcome.rMultiple).toBeCloseTo(-1);
+    expect(outcome.entrySlippagePips).toBeCloseTo(0);
+  });
+});
+
+describe('journal statistics', () => {
+  const createClosedEntry = (id: number, exitTime: string, netProfit: number, journal: Partial<TradeJournal> = {}) => createEntry({
+    id: String(id),
+    journal: createJournal({
+      exitTime,
+      outcome: { netProfit, rMultiple: netProfit / 100 } as TradeOutcome,
+      ...journal,
+    }),
+  });
+  const entries = [
+    createClosedEntry(4, '2026-01-04T10:00', 50),
+    createClosedEntry(1, '2026-01-01T10:00', 200, { tags: ['Breakout'] }),
+    createClosedEntry(3, '2026-01-03T10:00', -100),
+    createClosedEntry(2, '2026-01-02T10:00', -100),
+    createEntry({ id: '5', journal: createJournal({ outcome: null }) }), // Still open
+    createEntry({ id: '6' }), // Never journaled
+  ];
+  const noFilter = { symbol: '', tradeType: 'all', from: '', to: '', tag: '' } as const;
+
+  it('selects closed trades in exit order', () => {
+    expect(filterJournalEntries(entries, noFilter).map((entry) => entry.id)).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('filters by tag and exit date', () => {
+    expect(filterJournalEntries(entries, { ...noFilter, tag: 'breakout' }).map((entry) => entry.id)).toEqual(['1']);
+    expect(filterJournalEntries(entries, { ...noFilter, from: '2026-01-02', to: '2026-01-03' }).map((entry) => entry.id)).toEqual(['2', '3']);
+  });
+
+  it('summarizes win rate, profit factor, streaks and drawdown', () => {
+    const stats = calculateJournalStats(filterJournalEntries(entries, noFilter));
+    expect(stats.tradeCount).toBe(4);
+    expect(stats.winRate).toBe(50);
+    expect(stats.netProfit).toBe(50);
+    expect(stats.profitFactor).toBeCloseTo(250 / 200);
+    expect(stats.longestLosingStreak).toBe(2);
+    // Equity peaks at 10,200 after the first trade and falls to 10,000
+    expect(stats.maxDrawdown).toBe(200);
+    expect(stats.maxDrawdownPercentage).toBeCloseTo((200 / 10200) * 100);
+    expect(stats.equityCurve.map((point) => point.equity)).toEqual([10000, 10200, 10100, 10000, 10050]);
+  });
+});
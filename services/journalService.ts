@@ -0,0 +1,251 @@
+import { CalculationIssue, CalculationOutcome, EquityPoint, HistoryEntry, JournalFilter, JournalStats, PlannedPosition, TradeJournal, TradeOutcome } from '../types';
+
+/**
+ * Reads the planned position from a history entry's results.
+ * @param entry The history entry.
+ * @returns The lots, entry and risk the calculation planned, or null when the entry has no results.
+ */
+export function getPlannedPosition(entry: HistoryEntry): PlannedPosition | null {
+  if (entry.scaleInResults) {
+    return {
+      lotSize: entry.scaleInResults.totalLotSize,
+      entryPrice: entry.scaleInResults.averageEntryPrice,
+      riskPerPip: entry.scaleInResults.riskPerPip,
+      riskAmount: entry.scaleInResults.totalRiskAmount,
+    };
+  }
+  if (entry.reverseResults) {
+    return {
+      lotSize: entry.reverseResults.lotSize,
+      entryPrice: entry.inputs.entryPrice,
+      riskPerPip: entry.reverseResults.riskPerPip,
+      riskAmount: entry.reverseResults.riskAmount,
+    };
+  }
+  if (entry.results) {
+    return {
+      lotSize: entry.results.finalLotSize,
+      entryPrice: entry.inputs.entryPrice,
+      riskPerPip: entry.results.riskPerPip,
+      riskAmount: entry.results.totalRiskAmount,
+    };
+  }
+  return null;
+}
+
+/**
+ * Computes the realized result of a journaled trade from its fill and exit prices.
+ * Each partial exit closes its own lots; the final exit closes the rest of the planned lot size.
+ * P/L is valued with the stored calculation's pip value per lot, so it uses the exchange rates of the plan.
+ * A scale-in plan is measured as one position at its average entry.
+ * @param entry The history entry holding the planned trade and its results.
+ * @param journal The recorded fill, exits and fees.
+ * @returns The realized P/L and R multiple, or the errors that prevented them.
+ */
+export function calculateTradeOutcome(
+  entry: HistoryEntry,
+  journal: Pick<TradeJournal, 'fillPrice' | 'partialExits' | 'exitPrice' | 'fees'>,
+): CalculationOutcome<TradeOutcome> {
+  const { fillPrice, exitPrice, fees } = journal;
+  const partialExits = journal.partialExits ?? [];
+  const { currencyPair, tradeType } = entry.inputs;
+  const position = getPlannedPosition(entry);
+  const errors: CalculationIssue[] = [];
+
+  if (!position) {
+    errors.push({
+      code: 'INVALID_TRADE_OUTCOME',
+      severity: 'error',
+      field: 'journal',
+      message: 'This entry has no calculation results to measure the trade against.',
+    });
+  }
+  if (typeof fillPrice !== 'number' || !(fillPrice > 0)) {
+    errors.push({
+      code: 'INVALID_TRADE_OUTCOME',
+      severity: 'error',
+      field: 'journal',
+      message: 'Fill Price must be a positive number.',
+    });
+  }
+  if (typeof exitPrice !== 'number' || !(exitPrice > 0)) {
+    errors.push({
+      code: 'INVALID_TRADE_OUTCOME',
+      severity: 'error',
+      field: 'journal',
+      message: 'Exit Price must be a positive number.',
+    });
+  }
+  partialExits.forEach((partialExit, index) => {
+    if (typeof partialExit.price !== 'number' || !(partialExit.price > 0)) {
+      errors.push({
+        code: 'INVALID_TRADE_OUTCOME',
+        severity: 'error',
+        field: 'journal',
+        index,
+        message: `Partial exit ${index + 1}: Price must be a positive number.`,
+      });
+    }
+    if (typeof partialExit.lots !== 'number' || !(partialExit.lots > 0)) {
+      errors.push({
+        code: 'INVALID_TRADE_OUTCOME',
+        severity: 'error',
+        field: 'journal',
+        index,
+        message: `Partial exit ${index + 1}: Lots must be a positive number.`,
+      });
+    }
+  });
+  const partialLots = partialExits.reduce((sum, partialExit) => sum + (typeof partialExit.lots === 'number' ? partialExit.lots : 0), 0);
+  // A small tolerance absorbs floating-point error in the lot sums
+  if (position && partialLots >= position.lotSize - 1e-9) {
+    errors.push({
+      code: 'INVALID_TRADE_OUTCOME',
+      severity: 'error',
+      field: 'journal',
+      message: `Partial exits must close less than the planned ${position.lotSize} lots, leaving some for the final exit.`,
+    });
+  }
+  if (fees !== '' && !(fees >= 0)) {
+    errors.push({
+      code: 'INVALID_TRADE_OUTCOME',
+      severity: 'error',
+      field: 'journal',
+      message: 'Fees cannot be negative.',
+    });
+  }
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const direction = tradeType === 'buy' ? 1 : -1;
+  const fill = fillPrice as number;
+  const exit = exitPrice as number;
+  const totalFees = typeof fees === 'number' ? fees : 0;
+
+  const pipValuePerLot = position.riskPerPip / position.lotSize;
+  const closes = [
+    ...partialExits.map((partialExit) => ({ price: partialExit.price as number, lots: partialExit.lots as number })),
+    { price: exit, lots: position.lotSize - partialLots },
+  ];
+  const grossProfit = closes.reduce(
+    (sum, close) => sum + ((direction * (close.price - fill)) / currencyPair.pipSize) * close.lots * pipValuePerLot,
+    0,
+  );
+  const realizedPips = grossProfit / position.riskPerPip;
+  const netProfit = grossProfit - totalFees;
+  const plannedEntry = typeof position.entryPrice === 'number' && position.entryPrice > 0 ? position.entryPrice : fill;
+
+  return {
+    success: true,
+    warnings: [],
+    results: {
+      realizedPips,
+      grossProfit,
+      fees: totalFees,
+      netProfit,
+      rMultiple: position.riskAmount > 0 ? netProfit / position.riskAmount : null,
+      entrySlippagePips: (direction * (fill - plannedEntry)) / currencyPair.pipSize,
+    },
+  };
+}
+
+/**
+ * Selects the journaled trades with an outcome that match a filter.
+ * @param entries The history entries.
+ * @param filter Instrument, direction, exit date range and tag; empty values match everything.
+ * @returns The matching entries, ordered by exit time, oldest first.
+ */
+export function filterJournalEntries(entries: HistoryEntry[], filter: JournalFilter): HistoryEntry[] {
+  // Date inputs give local calendar days; the range includes the whole "to" day
+  const from = filter.from ? new Date(`${filter.from}T00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  const tag = filter.tag.trim().toLowerCase();
+
+  return entries
+    .filter((entry) => entry.journal?.taken && entry.journal.outcome)
+    .filter((entry) => !filter.symbol || entry.inputs.currencyPair.symbol === filter.symbol)
+    .filter((entry) => filter.tradeType === 'all' || entry.inputs.tradeType === filter.tradeType)
+    .filter((entry) => {
+      const closedAt = getCloseTime(entry);
+      return closedAt >= from && closedAt <= to;
+    })
+    .filter((entry) => !tag || (entry.journal.tags ?? []).some((t) => t.toLowerCase() === tag))
+    .sort((a, b) => getCloseTime(a) - getCloseTime(b));
+}
+
+/**
+ * Summarizes the performance of journaled trades.
+ * The equity curve starts from the account size recorded with the first trade.
+ * @param entries Journaled entries with outcomes, oldest first (see filterJournalEntries).
+ * @returns Win rate, averages, expectancy, profit factor, streaks, drawdown and the equity curve.
+ */
+export function calculateJournalStats(entries: HistoryEntry[]): JournalStats {
+  const outcomes = entries.map((entry) => entry.journal.outcome as TradeOutcome);
+  const wins = outcomes.filter((o) => o.netProfit > 0);
+  const losses = outcomes.filter((o) => o.netProfit < 0);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const averageOf = (values: number[]) => (values.length > 0 ? sum(values) / values.length : null);
+  const rMultiples = (list: TradeOutcome[]) => list.filter((o) => o.rMultiple !== null).map((o) => o.rMultiple as number);
+
+  const grossWin = sum(wins.map((o) => o.netProfit));
+  const grossLoss = -sum(losses.map((o) => o.netProfit));
+  const netProfit = sum(outcomes.map((o) => o.netProfit));
+
+  let longestLosingStreak = 0;
+  let streak = 0;
+  outcomes.forEach((o) => {
+    streak = o.netProfit < 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  });
+
+  const firstAccountSize = entries.length > 0 ? entries[0].inputs.accountSize : 0;
+  let equity = typeof firstAccountSize === 'number' ? firstAccountSize : 0;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownPercentage = 0;
+  const equityCurve: EquityPoint[] = [];
+  if (entries.length > 0) {
+    equityCurve.push({ time: Number(entries[0].id), equity, drawdown: 0 });
+  }
+  entries.forEach((entry, index) => {
+    equity += outcomes[index].netProfit;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercentage = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+    equityCurve.push({ time: getCloseTime(entry), equity, drawdown });
+  });
+
+  const lossRs = rMultiples(losses);
+  return {
+    tradeCount: outcomes.length,
+    winCount: wins.length,
+    lossCount: losses.length,
+    winRate: outcomes.length > 0 ? (wins.length / outcomes.length) * 100 : 0,
+    averageWin: averageOf(wins.map((o) => o.netProfit)) ?? 0,
+    averageLoss: grossLoss > 0 ? grossLoss / losses.length : 0,
+    averageWinR: averageOf(rMultiples(wins)),
+    averageLossR: lossRs.length > 0 ? -sum(lossRs) / lossRs.length : null,
+    expectancy: outcomes.length > 0 ? netProfit / outcomes.length : 0,
+    expectancyR: averageOf(rMultiples(outcomes)),
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    netProfit,
+    longestLosingStreak,
+    maxDrawdown,
+    maxDrawdownPercentage,
+    equityCurve,
+  };
+}
+
+/**
+ * When a journaled trade closed.
+ * @param entry The history entry.
+ * @returns The recorded exit time, or the time the calculation was saved when no exit time was entered.
+ */
+function getCloseTime(entry: HistoryEntry): number {
+  const exitTime = entry.journal?.exitTime ? new Date(entry.journal.exitTime).getTime() : NaN;
+  return isNaN(exitTime) ? Number(entry.id) : exitTime;
+}
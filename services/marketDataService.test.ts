@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { MarketQuote } from '../types';
+import { getExecutablePrice } from './marketDataService';
+
+describe('getExecutablePrice', () => {
+  const quote: MarketQuote = { symbol: 'EUR/USD', bid: 1.1, ask: 1.1002, timestamp: 0, source: 'Test' };
+
+  it('fills a buy at the ask', () => {
+    expect(getExecutablePrice(quote, 'buy')).toBe(1.1002);
+  });
+
+  it('fills a sell at the bid', () => {
+    expect(getExecutablePrice(quote, 'sell')).toBe(1.1);
+  });
+});
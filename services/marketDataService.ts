@@ -0,0 +1,249 @@
+import { MarketDataProvider, MarketDataProviderId, MarketQuote, TradeType } from '../types';
+import { MOCK_MARKET_PRICES, QUOTE_POLL_INTERVAL_MS, findCurrencyPair } from '../constants';
+
+/**
+ * Builds a mock quote around the mid price in `MOCK_MARKET_PRICES`.
+ * The spread is one pip, and `drift` moves the mid by whole ticks to imitate a live market.
+ * @param symbol The symbol of the currency pair (e.g., 'EUR/USD').
+ * @param drift Number of ticks to move the mid price.
+ * @returns The quote, or undefined if there is no mock price for the symbol.
+ */
+function createMockQuote(symbol: string, drift: number): MarketQuote | undefined {
+  const mid = MOCK_MARKET_PRICES[symbol];
+  if (!mid) {
+    return undefined;
+  }
+  const pair = findCurrencyPair(symbol);
+  const tickSize = pair?.tickSize ?? mid * 0.00001;
+  const halfSpread = (pair?.pipSize ?? mid * 0.0001) / 2;
+  const digits = pair?.digits ?? 5;
+  const movedMid = mid + drift * tickSize;
+  return {
+    symbol,
+    bid: parseFloat((movedMid - halfSpread).toFixed(digits)),
+    ask: parseFloat((movedMid + halfSpread).toFixed(digits)),
+    timestamp: Date.now(),
+    source: 'Demo prices',
+  };
+}
+
+/**
+ * Provider serving the built-in demo prices with a simulated network delay.
+ * Subscriptions random-walk the price a few ticks at a time.
+ * @returns The mock provider.
+ */
+export function createMockMarketDataProvider(): MarketDataProvider {
+  return {
+    id: 'mock',
+    label: 'Demo Prices',
+    getQuote: (symbol: string, signal?: AbortSignal) => new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        resolve(createMockQuote(symbol, 0));
+      }, 500); // Simulate network delay
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException('Quote request was cancelled.', 'AbortError'));
+      });
+    }),
+    subscribe: (symbol, onQuote, onError) => {
+      let drift = 0;
+      const emit = () => {
+        const quote = createMockQuote(symbol, drift);
+        if (quote) {
+          onQuote(quote);
+        } else {
+          onError(new Error(`No demo price is available for ${symbol}.`));
+        }
+      };
+      const timeoutId = setTimeout(emit, 500); // Simulate network delay for the first quote
+      const intervalId = setInterval(() => {
+        drift += Math.round((Math.random() - 0.5) * 4);
+        emit();
+      }, QUOTE_POLL_INTERVAL_MS);
+      return () => {
+        clearTimeout(timeoutId);
+        clearInterval(intervalId);
+      };
+    },
+  };
+}
+
+/**
+ * Reads a quote message of the form { "symbol", "bid", "ask", "timestamp" }.
+ * `timestamp` may be epoch milliseconds or an ISO string; without it the receive time is used.
+ * @param data The parsed JSON message.
+ * @param source The source recorded on the quote.
+ * @returns The quote, or undefined if the message is not a valid quote.
+ */
+function parseQuote(data: unknown, source: string): MarketQuote | undefined {
+  const message = data as { symbol?: unknown; bid?: unknown; ask?: unknown; timestamp?: unknown };
+  if (!message || typeof message.symbol !== 'string' || typeof message.bid !== 'number' || typeof message.ask !== 'number') {
+    return undefined;
+  }
+  if (!(message.bid > 0) || message.ask < message.bid) {
+    return undefined;
+  }
+  let timestamp = Date.now();
+  if (typeof message.timestamp === 'number') {
+    timestamp = message.timestamp;
+  } else if (typeof message.timestamp === 'string' && !isNaN(Date.parse(message.timestamp))) {
+    timestamp = Date.parse(message.timestamp);
+  }
+  return { symbol: message.symbol, bid: message.bid, ask: message.ask, timestamp, source };
+}
+
+/**
+ * Fetches a single quote over HTTP: GET `<url>?symbol=EUR%2FUSD`.
+ * @param url The endpoint URL.
+ * @param symbol The symbol to quote.
+ * @param signal Optional signal to cancel the request.
+ * @returns The quote for the symbol.
+ */
+async function fetchHttpQuote(url: string, symbol: string, signal?: AbortSignal): Promise<MarketQuote> {
+  const separator = url.includes('?') ? '&' : '?';
+  const response = await fetch(`${url}${separator}symbol=${encodeURIComponent(symbol)}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Quote endpoint responded with ${response.status} ${response.statusText}`.trim());
+  }
+  const quote = parseQuote(await response.json(), url);
+  if (!quote) {
+    throw new Error(`Quote endpoint returned no valid quote for ${symbol}.`);
+  }
+  return quote;
+}
+
+/**
+ * Opens a WebSocket, subscribes to a symbol and forwards its quotes.
+ * After connecting it sends { "type": "subscribe", "symbol": "EUR/USD" } and
+ * expects quote messages back; messages for other symbols are ignored.
+ * @param url The ws:// or wss:// URL.
+ * @param symbol The symbol to stream.
+ * @param onQuote Called for each quote.
+ * @param onError Called when the connection fails or closes unexpectedly.
+ * @returns A function that closes the connection.
+ */
+function subscribeWebSocket(
+  url: string,
+  symbol: string,
+  onQuote: (quote: MarketQuote) => void,
+  onError: (error: Error) => void,
+): () => void {
+  let closedByClient = false;
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch (error) {
+    // Report asynchronously so callers always receive the unsubscribe function first
+    setTimeout(() => onError(error instanceof Error ? error : new Error(String(error))), 0);
+    return () => {};
+  }
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: 'subscribe', symbol }));
+  };
+  socket.onmessage = (event: MessageEvent) => {
+    try {
+      const quote = parseQuote(JSON.parse(String(event.data)), url);
+      if (quote && quote.symbol === symbol) {
+        onQuote(quote);
+      }
+    } catch {
+      // Ignore messages that are not JSON (e.g., heartbeats)
+    }
+  };
+  socket.onerror = () => {
+    onError(new Error(`Could not connect to ${url}.`));
+  };
+  socket.onclose = () => {
+    if (!closedByClient) {
+      onError(new Error(`Connection to ${url} was closed.`));
+    }
+  };
+
+  return () => {
+    closedByClient = true;
+    socket.close();
+  };
+}
+
+/**
+ * Provider for a live feed, e.g. a local stand-in server.
+ * ws:// and wss:// URLs stream quotes over a WebSocket; http:// and https:// URLs
+ * are queried per symbol and polled every `QUOTE_POLL_INTERVAL_MS` for subscriptions.
+ * @param url The feed URL.
+ * @returns The remote provider.
+ */
+export function createRemoteMarketDataProvider(url: string): MarketDataProvider {
+  const isWebSocket = /^wss?:\/\//i.test(url);
+
+  const subscribe: MarketDataProvider['subscribe'] = (symbol, onQuote, onError) => {
+    if (isWebSocket) {
+      return subscribeWebSocket(url, symbol, onQuote, onError);
+    }
+    const controller = new AbortController();
+    const poll = () => {
+      fetchHttpQuote(url, symbol, controller.signal)
+        .then(onQuote)
+        .catch((error: Error) => {
+          if (!controller.signal.aborted) {
+            onError(error);
+          }
+        });
+    };
+    poll();
+    const intervalId = setInterval(poll, QUOTE_POLL_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      clearInterval(intervalId);
+    };
+  };
+
+  return {
+    id: 'remote',
+    label: 'WebSocket / HTTP Feed',
+    getQuote: (symbol: string, signal?: AbortSignal) => {
+      if (!isWebSocket) {
+        return fetchHttpQuote(url, symbol, signal);
+      }
+      // Resolve with the first streamed quote, then disconnect
+      return new Promise((resolve, reject) => {
+        const unsubscribe = subscribe(
+          symbol,
+          (quote) => {
+            unsubscribe();
+            resolve(quote);
+          },
+          (error) => {
+            unsubscribe();
+            reject(error);
+          },
+        );
+        signal?.addEventListener('abort', () => {
+          unsubscribe();
+          reject(new DOMException('Quote request was cancelled.', 'AbortError'));
+        });
+      });
+    },
+    subscribe,
+  };
+}
+
+/**
+ * Builds the provider selected in the settings.
+ * @param id The selected provider.
+ * @param url The feed URL, used by the 'remote' provider.
+ * @returns The matching provider.
+ */
+export function createMarketDataProvider(id: MarketDataProviderId, url: string): MarketDataProvider {
+  return id === 'remote' ? createRemoteMarketDataProvider(url) : createMockMarketDataProvider();
+}
+
+/**
+ * Price a market order fills at: the ask for buys, the bid for sells.
+ * @param quote The quote.
+ * @param tradeType The trade direction.
+ * @returns The executable entry price.
+ */
+export function getExecutablePrice(quote: MarketQuote, tradeType: TradeType): number {
+  return tradeType === 'buy' ? quote.ask : quote.bid;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MonteCarloInputs } from '../types';
+import { createSeededRandom, runMonteCarlo } from './monteCarloService';
+
+const createInputs = (overrides: Partial<MonteCarloInputs> = {}): MonteCarloInputs => ({
+  startingBalance: 10000,
+  riskPercentage: 1,
+  tradeCount: 100,
+  runCount: 500,
+  seed: 42,
+  winRate: 50,
+  averageRR: 2,
+  rDistribution: [],
+  drawdownLevel: 20,
+  ruinLevel: 50,
+  ...overrides,
+});
+
+const simulate = (overrides: Partial<MonteCarloInputs> = {}) => {
+  const outcome = runMonteCarlo(createInputs(overrides));
+  if (outcome.success === false) {
+    throw new Error(outcome.errors.map((error) => error.message).join('; '));
+  }
+  return outcome.results;
+};
+
+describe('runMonteCarlo', () => {
+  it('repeats the same runs for the same seed', () => {
+    expect(simulate()).toEqual(simulate());
+    expect(simulate({ seed: 7 }).finalBalance).not.toEqual(simulate().finalBalance);
+  });
+
+  it('compounds a fixed fraction of the current balance', () => {
+    // Every trade wins 1R at 1% risk
+    const results = simulate({ winRate: 100, averageRR: 1, tradeCount: 10 });
+    expect(results.finalBalance.p5).toBeCloseTo(10000 * 1.01 ** 10);
+    expect(results.finalBalance.p95).toBeCloseTo(10000 * 1.01 ** 10);
+    expect(results.maxDrawdown.p95).toBe(0);
+    expect(results.ruinProbability).toBe(0);
+  });
+
+  it('stops a run once it falls to the ruin level', () => {
+    // Losing 10% a trade first reaches a 50% loss after 7 trades, at 0.9^7 of the balance
+    const results = simulate({ winRate: 0, riskPercentage: 10, tradeCount: 20 });
+    expect(results.ruinProbability).toBe(100);
+    expect(results.drawdownProbability).toBe(100);
+    expect(results.finalBalance.p50).toBeCloseTo(10000 * 0.9 ** 7);
+  });
+
+  it('draws R multiples from the journaled distribution when one is given', () => {
+    const results = simulate({ rDistribution: [2], tradeCount: 10 });
+    expect(results.finalBalance.p50).toBeCloseTo(10000 * 1.02 ** 10);
+  });
+
+  it('reports the balance percentiles from the start to the last trade', () => {
+    const results = simulate();
+    expect(results.fan[0]).toEqual({ trade: 0, balance: { p5: 10000, p25: 10000, p50: 10000, p75: 10000, p95: 10000 } });
+    expect(results.fan[results.fan.length - 1].trade).toBe(100);
+    expect(results.fan[results.fan.length - 1].balance).toEqual(results.finalBalance);
+    const { p5, p25, p50, p75, p95 } = results.finalBalance;
+    expect([p5, p25, p50, p75, p95]).toEqual([p5, p25, p50, p75, p95].sort((a, b) => a - b));
+  });
+
+  it('rejects too few runs to estimate a probability', () => {
+    const outcome = runMonteCarlo(createInputs({ runCount: 50 }));
+    expect(outcome.success).toBe(false);
+    if (outcome.success === false) {
+      expect(outcome.errors.map((error) => error.code)).toEqual(['INVALID_SIMULATION_INPUTS']);
+    }
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('yields the same sequence in [0, 1) for the same seed', () => {
+    const first = createSeededRandom(1);
+    const second = createSeededRandom(1);
+    const values = Array.from({ length: 1000 }, () => first());
+    expect(values).toEqual(Array.from({ length: 1000 }, () => second()));
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { CalculationIssue, CalculationOutcome, MonteCarloInputs, MonteCarloResults, Percentiles } from '../types';
+import { MAX_MONTE_CARLO_RUNS, MAX_MONTE_CARLO_TRADES, MONTE_CARLO_FAN_STEPS } from '../constants';
+
+/**
+ * Simulates many random sequences of trades at a fixed fractional risk.
+ * Each trade risks riskPercentage of the current balance and returns its R multiple times that risk:
+ * +averageRR with probability winRate and -1 otherwise, or a value drawn from rDistribution when given.
+ * A run stops trading once it falls to the ruin level.
+ * @param inputs The trading profile and simulation settings.
+ * @returns Drawdown and ruin probabilities, balance percentiles and the fan chart data, or the errors found.
+ */
+export function runMonteCarlo(inputs: MonteCarloInputs): CalculationOutcome<MonteCarloResults> {
+  const errors = validateMonteCarloInputs(inputs);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const { startingBalance, tradeCount, runCount, rDistribution, drawdownLevel } = inputs;
+  const random = createSeededRandom(inputs.seed);
+  const risk = inputs.riskPercentage / 100;
+  const winProbability = inputs.winRate / 100;
+  const ruinBalance = startingBalance * (1 - inputs.ruinLevel / 100);
+  const drawRMultiple = rDistribution.length > 0
+    ? () => rDistribution[Math.floor(random() * rDistribution.length)]
+    : () => (random() < winProbability ? inputs.averageRR : -1);
+
+  // Balances are kept only at the fan chart checkpoints
+  const stepCount = Math.min(MONTE_CARLO_FAN_STEPS, tradeCount);
+  const checkpoints = Array.from({ length: stepCount + 1 }, (_, i) => Math.round((i * tradeCount) / stepCount));
+  const checkpointBalances = checkpoints.map(() => new Float64Array(runCount));
+  const finalBalances = new Float64Array(runCount);
+  const maxDrawdowns = new Float64Array(runCount);
+  let drawdownHits = 0;
+  let ruinHits = 0;
+
+  for (let run = 0; run < runCount; run++) {
+    let balance = startingBalance;
+    let peak = balance;
+    let maxDrawdown = 0;
+    let ruined = false;
+    let nextCheckpoint = 0;
+
+    for (let trade = 0; trade <= tradeCount; trade++) {
+      if (trade > 0 && !ruined) {
+        balance += balance * risk * drawRMultiple();
+        peak = Math.max(peak, balance);
+        maxDrawdown = Math.max(maxDrawdown, ((peak - balance) / peak) * 100);
+        if (balance <= ruinBalance) {
+          ruined = true;
+        }
+      }
+      if (trade === checkpoints[nextCheckpoint]) {
+        checkpointBalances[nextCheckpoint][run] = balance;
+        nextCheckpoint++;
+      }
+    }
+
+    finalBalances[run] = balance;
+    maxDrawdowns[run] = maxDrawdown;
+    if (maxDrawdown >= drawdownLevel) {
+      drawdownHits++;
+    }
+    if (ruined) {
+      ruinHits++;
+    }
+  }
+
+  return {
+    success: true,
+    warnings: [],
+    results: {
+      runCount,
+      tradeCount,
+      riskPercentage: inputs.riskPercentage,
+      drawdownLevel,
+      ruinLevel: inputs.ruinLevel,
+      drawdownProbability: (drawdownHits / runCount) * 100,
+      ruinProbability: (ruinHits / runCount) * 100,
+      finalBalance: getPercentiles(finalBalances),
+      maxDrawdown: getPercentiles(maxDrawdowns),
+      fan: checkpoints.map((trade, i) => ({ trade, balance: getPercentiles(checkpointBalances[i]) })),
+    },
+  };
+}
+
+/**
+ * Creates a deterministic random number generator (mulberry32).
+ * @param seed Any integer; the same seed always yields the same sequence.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Checks the simulation inputs.
+ * @param inputs The trading profile and simulation settings.
+ * @returns The errors found, empty if the inputs are usable.
+ */
+function validateMonteCarloInputs(inputs: MonteCarloInputs): CalculationIssue[] {
+  const errors: CalculationIssue[] = [];
+  const addError = (message: string) => {
+    errors.push({ code: 'INVALID_SIMULATION_INPUTS', severity: 'error', field: 'simulation', message });
+  };
+
+  if (!(inputs.startingBalance > 0)) {
+    addError('Account Size must be a positive number to simulate from.');
+  }
+  if (!(inputs.riskPercentage > 0) || inputs.riskPercentage > 100) {
+    addError('Risk per Trade must be greater than 0% and at most 100%.');
+  }
+  if (!Number.isInteger(inputs.tradeCount) || inputs.tradeCount < 1 || inputs.tradeCount > MAX_MONTE_CARLO_TRADES) {
+    addError(`Trades per Run must be a whole number from 1 to ${MAX_MONTE_CARLO_TRADES}.`);
+  }
+  if (!Number.isInteger(inputs.runCount) || inputs.runCount < 100 || inputs.runCount > MAX_MONTE_CARLO_RUNS) {
+    addError(`Runs must be a whole number from 100 to ${MAX_MONTE_CARLO_RUNS}.`);
+  }
+  if (!Number.isInteger(inputs.seed)) {
+    addError('Seed must be a whole number.');
+  }
+  if (inputs.rDistribution.length === 0) {
+    if (!(inputs.winRate >= 0) || inputs.winRate > 100) {
+      addError('Win Rate must be between 0% and 100%.');
+    }
+    if (!(inputs.averageRR > 0)) {
+      addError('Average R:R must be a positive number.');
+    }
+  } else if (inputs.rDistribution.some((r) => r * (inputs.riskPercentage / 100) <= -1)) {
+    addError('A journaled loss larger than the whole balance at this risk cannot be simulated; lower the risk per trade.');
+  }
+  if (!(inputs.drawdownLevel > 0) || inputs.drawdownLevel >= 100) {
+    addError('Drawdown Level must be between 0% and 100%.');
+  }
+  if (!(inputs.ruinLevel > 0) || inputs.ruinLevel > 100) {
+    addError('Ruin Level must be greater than 0% and at most 100%.');
+  }
+  return errors;
+}
+
+/**
+ * Reads the 5th, 25th, 50th, 75th and 95th percentiles of a sample.
+ * @param values The sample; it is sorted in place.
+ * @returns The percentiles, using the nearest rank.
+ */
+function getPercentiles(values: Float64Array): Percentiles {
+  values.sort();
+  const at = (percentile: number) => values[Math.min(values.length - 1, Math.floor((percentile / 100) * values.length))];
+  return { p5: at(5), p25: at(25), p50: at(50), p75: at(75), p95: at(95) };
+}
@@ -0,0 +1,189 @@
+import { AtrResult, AtrTimeframe, Candle } from '../types';
+import { ATR_TIMEFRAME_MINUTES, MAX_STORED_CANDLES } from '../constants';
+
+const MINUTE_MS = 60 * 1000;
+// Epoch day 0 was a Thursday; weekly candles open on Monday
+const WEEK_OFFSET_MS = 4 * 1440 * MINUTE_MS;
+
+/**
+ * Reads OHLC candles from a CSV export. Recognized layouts:
+ * - MT4 History Center: "2024.01.02,13:00,open,high,low,close,volume" with no header
+ * - MT5 export: tab separated with a "<DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> ..." header
+ *   (the TIME column is absent on daily bars)
+ * - TradingView export: "time,open,high,low,close,..." with Unix seconds or ISO timestamps
+ * Timestamps without a time zone are read as UTC. Rows that do not parse are skipped.
+ * @param text The CSV file contents.
+ * @returns The candles, oldest first, one per timestamp.
+ */
+export function importOhlcCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('The CSV file is empty.');
+  }
+  const delimiter = lines[0].includes('\t') ? '\t' : lines[0].includes(';') ? ';' : ',';
+  const rows = lines.map((line) => line.split(delimiter).map((cell) => cell.trim()));
+
+  const header = rows[0].map((cell) => cell.replace(/[<>"]/g, '').toLowerCase());
+  const hasHeader = header.some((cell) => cell === 'open' || cell === 'close');
+  let columns: { date: number; time: number; open: number; high: number; low: number; close: number };
+  if (hasHeader) {
+    const find = (...names: string[]) => header.findIndex((cell) => names.includes(cell));
+    const date = find('date', 'time', 'datetime', 'timestamp');
+    const time = header.indexOf('time') !== date ? header.indexOf('time') : -1;
+    columns = { date, time, open: find('open'), high: find('high'), low: find('low'), close: find('close') };
+    if (Object.entries(columns).some(([key, index]) => key !== 'time' && index === -1)) {
+      throw new Error('The CSV header needs date/time, open, high, low and close columns.');
+    }
+  } else {
+    // MT4 writes date and time as separate columns; some exports merge them
+    const time = rows[0][1]?.includes(':') ? 1 : -1;
+    const first = time === -1 ? 1 : 2;
+    columns = { date: 0, time, open: first, high: first + 1, low: first + 2, close: first + 3 };
+  }
+
+  const byTime = new Map<number, Candle>();
+  rows.slice(hasHeader ? 1 : 0).forEach((cells) => {
+    const candle: Candle = {
+      time: parseCandleTime(cells[columns.date], columns.time === -1 ? undefined : cells[columns.time]),
+      open: parseFloat(cells[columns.open]),
+      high: parseFloat(cells[columns.high]),
+      low: parseFloat(cells[columns.low]),
+      close: parseFloat(cells[columns.close]),
+    };
+    const isValid = !isNaN(candle.time)
+      && [candle.open, candle.high, candle.low, candle.close].every((value) => value > 0)
+      && candle.high >= candle.low;
+    if (isValid) {
+      byTime.set(candle.time, candle);
+    }
+  });
+
+  if (byTime.size === 0) {
+    throw new Error('No candles were found in the CSV file.');
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Merges newly imported candles into the stored ones for an instrument.
+ * @param existing The stored candles, oldest first.
+ * @param imported The new candles, oldest first; they replace stored candles with the same time.
+ * @returns The combined candles, oldest first, trimmed to the most recent MAX_STORED_CANDLES.
+ */
+export function mergeCandles(existing: Candle[], imported: Candle[]): Candle[] {
+  const byTime = new Map<number, Candle>();
+  existing.forEach((candle) => byTime.set(candle.time, candle));
+  imported.forEach((candle) => byTime.set(candle.time, candle));
+  return Array.from(byTime.values())
+    .sort((a, b) => a.time - b.time)
+    .slice(-MAX_STORED_CANDLES);
+}
+
+/**
+ * Guesses the timeframe of a candle series from the most common gap between candles.
+ * @param candles The candles, oldest first.
+ * @returns The matching timeframe, or null when the gap is not a standard one.
+ */
+export function detectTimeframe(candles: Candle[]): AtrTimeframe | null {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < candles.length; i++) {
+    const gap = Math.round((candles[i].time - candles[i - 1].time) / MINUTE_MS);
+    counts.set(gap, (counts.get(gap) ?? 0) + 1);
+  }
+  let commonGap = 0;
+  let commonCount = 0;
+  counts.forEach((count, gap) => {
+    if (count > commonCount) {
+      commonGap = gap;
+      commonCount = count;
+    }
+  });
+  const match = (Object.keys(ATR_TIMEFRAME_MINUTES) as AtrTimeframe[])
+    .find((timeframe) => ATR_TIMEFRAME_MINUTES[timeframe] === commonGap);
+  return match ?? null;
+}
+
+/**
+ * Combines candles into a higher timeframe. Buckets are aligned to UTC, with weeks opening on Monday.
+ * @param candles The candles, oldest first.
+ * @param timeframe The timeframe to build.
+ * @returns The combined candles, oldest first.
+ */
+export function resampleCandles(candles: Candle[], timeframe: AtrTimeframe): Candle[] {
+  const bucketMs = ATR_TIMEFRAME_MINUTES[timeframe] * MINUTE_MS;
+  const offset = timeframe === 'W1' ? WEEK_OFFSET_MS : 0;
+  const resampled: Candle[] = [];
+  candles.forEach((candle) => {
+    const bucketTime = Math.floor((candle.time - offset) / bucketMs) * bucketMs + offset;
+    const current = resampled[resampled.length - 1];
+    if (current && current.time === bucketTime) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+    } else {
+      resampled.push({ ...candle, time: bucketTime });
+    }
+  });
+  return resampled;
+}
+
+/**
+ * Computes the Average True Range with Wilder's smoothing at the chosen timeframe.
+ * @param candles The imported candles, oldest first.
+ * @param period The number of candles averaged (e.g., 14).
+ * @param timeframe The timeframe to measure on; must not be finer than the imported candles.
+ * @param pipSize The instrument's pip size, to express the ATR in pips.
+ * @returns The ATR of the most recent candle.
+ */
+export function calculateAtr(candles: Candle[], period: number, timeframe: AtrTimeframe, pipSize: number): AtrResult {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error('ATR period must be a whole number of at least 1.');
+  }
+  const sourceTimeframe = detectTimeframe(candles);
+  if (sourceTimeframe && ATR_TIMEFRAME_MINUTES[sourceTimeframe] > ATR_TIMEFRAME_MINUTES[timeframe]) {
+    throw new Error(`The imported candles are ${sourceTimeframe}; choose ${sourceTimeframe} or a higher timeframe.`);
+  }
+
+  const bars = resampleCandles(candles, timeframe);
+  if (bars.length < period + 1) {
+    throw new Error(`ATR(${period}) on ${timeframe} needs at least ${period + 1} candles; the imported data has ${bars.length}.`);
+  }
+
+  const trueRanges = bars.slice(1).map((bar, index) => {
+    const previousClose = bars[index].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+  let atr = trueRanges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  trueRanges.slice(period).forEach((range) => {
+    atr = (atr * (period - 1) + range) / period;
+  });
+
+  return {
+    atr,
+    atrPips: pipSize > 0 ? atr / pipSize : 0,
+    candleCount: bars.length,
+    lastCandleTime: bars[bars.length - 1].time,
+  };
+}
+
+/**
+ * Reads a candle timestamp.
+ * @param date The date cell: Unix seconds or milliseconds, an ISO timestamp, or an MT4/MT5 date ("2024.01.02").
+ * @param time The separate time cell ("13:00" or "13:00:00"), when the layout has one.
+ * @returns Epoch milliseconds, or NaN when the cell cannot be read.
+ */
+function parseCandleTime(date: string | undefined, time?: string): number {
+  if (!date) {
+    return NaN;
+  }
+  if (/^\d+(\.\d+)?$/.test(date)) {
+    const value = parseFloat(date);
+    return value > 1e12 ? value : value * 1000;
+  }
+  const isoDate = date.replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3');
+  const combined = time ? `${isoDate}T${time}` : isoDate.replace(' ', 'T');
+  // Date-only and naive date-times are treated as UTC
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(combined);
+  const withTime = combined.includes('T') ? combined : `${combined}T00:00`;
+  return Date.parse(hasZone ? withTime : `${withTime}Z`);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { SizingInputs } from '../types';
+import { calculateSizingRisk, parseTradeResults } from './positionSizingService';
+
+const createInputs = (overrides: Partial<SizingInputs>): SizingInputs => ({
+  model: 'kelly',
+  accountSize: 10000,
+  winRate: 0,
+  averageWinR: 0,
+  fraction: 100,
+  startingBalance: 0,
+  delta: 0,
+  riskPerUnit: 0,
+  tradeResults: [],
+  ...overrides,
+});
+
+const size = (overrides: Partial<SizingInputs>) => {
+  const outcome = calculateSizingRisk(createInputs(overrides));
+  if (outcome.success === false) {
+    throw new Error(outcome.errors.map((error) => error.message).join('; '));
+  }
+  return outcome.results;
+};
+
+describe('calculateSizingRisk', () => {
+  describe('Kelly', () => {
+    it('risks the Kelly fraction scaled by the chosen fraction', () => {
+      // f* = 0.6 - 0.4 / 1.5 = 1/3; half Kelly risks 1/6 of the account
+      const results = size({ winRate: 60, averageWinR: 1.5, fraction: 50 });
+      expect(results.fullFraction).toBeCloseTo(1 / 3);
+      expect(results.appliedFraction).toBeCloseTo(1 / 6);
+      expect(results.riskAmount).toBeCloseTo(10000 / 6);
+      expect(results.riskPercentage).toBeCloseTo(100 / 6);
+    });
+
+    it('refuses to size a trade without an edge', () => {
+      const outcome = calculateSizingRisk(createInputs({ winRate: 40, averageWinR: 1 }));
+      expect(outcome.success).toBe(false);
+    });
+  });
+
+  describe('fixed ratio', () => {
+    const fixedRatio = { model: 'fixedRatio', startingBalance: 10000, delta: 1000, riskPerUnit: 50 } as const;
+
+    it('adds unit N after delta × N(N - 1) / 2 of profit', () => {
+      // 3,000 of profit reaches the third unit; the fourth needs 6,000
+      const results = size({ ...fixedRatio, accountSize: 13000 });
+      expect(results.units).toBe(3);
+      expect(results.nextUnitBalance).toBe(16000);
+      expect(results.riskAmount).toBe(150);
+    });
+
+    it('stays on the current unit until the next threshold is reached', () => {
+      expect(size({ ...fixedRatio, accountSize: 12999 }).units).toBe(2);
+    });
+
+    it('trades one unit at or below the starting balance', () => {
+      expect(size({ ...fixedRatio, accountSize: 9000 }).units).toBe(1);
+    });
+  });
+
+  describe('optimal f', () => {
+    // Ralph Vince's example series, whose optimal f is about 0.24
+    const tradeResults = [9, 18, 7, 1, 10, -5, -3, -17, -7];
+
+    it('finds the fraction of the biggest loss that maximizes TWR', () => {
+      const results = size({ model: 'optimalF', tradeResults });
+      expect(results.biggestLoss).toBe(17);
+      expect(results.tradeCount).toBe(9);
+      expect(results.fullFraction).toBeCloseTo(0.24, 2);
+    });
+
+    it('scales optimal f by the chosen fraction', () => {
+      const results = size({ model: 'optimalF', tradeResults, fraction: 25 });
+      expect(results.appliedFraction).toBeCloseTo(results.fullFraction * 0.25);
+      expect(results.riskAmount).toBeCloseTo(10000 * results.appliedFraction);
+    });
+
+    it('needs a losing trade among the results', () => {
+      const outcome = calculateSizingRisk(createInputs({ model: 'optimalF', tradeResults: [10, 20] }));
+      expect(outcome.success).toBe(false);
+    });
+  });
+});
+
+describe('parseTradeResults', () => {
+  it('reads amounts separated by commas, semicolons, spaces and new lines', () => {
+    expect(parseTradeResults('120, -80;45\n-12.5  30')).toEqual([120, -80, 45, -12.5, 30]);
+  });
+
+  it('skips entries that are not numbers', () => {
+    expect(parseTradeResults('120, n/a, -80')).toEqual([120, -80]);
+  });
+});
@@ -0,0 +1,160 @@
+import { CalculationIssue, CalculationOutcome, SizingInputs, SizingResult } from '../types';
+
+/**
+ * Derives the risk amount for a trade from a position sizing model.
+ * - Kelly: f* = W - (1 - W) / R from the win rate W and average win R (in multiples of the average loss).
+ * - Fixed ratio: units N grow so that unit N is added after delta × N(N - 1) / 2 of profit; risk is N × risk per unit.
+ * - Optimal f: the fraction of the biggest loss that maximizes the terminal wealth relative (TWR) of past trades.
+ * Kelly and optimal f are scaled by the fraction, then applied to the account size.
+ * @param inputs The model and its parameters.
+ * @returns The risk amount to feed the lot size calculation, or the errors that prevented it.
+ */
+export function calculateSizingRisk(inputs: SizingInputs): CalculationOutcome<SizingResult> {
+  const errors = validateSizingInputs(inputs);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const { model, accountSize } = inputs;
+  const result: SizingResult = {
+    model,
+    inputs,
+    riskAmount: 0,
+    riskPercentage: 0,
+    fullFraction: null,
+    appliedFraction: null,
+    units: null,
+    nextUnitBalance: null,
+    biggestLoss: null,
+    tradeCount: null,
+  };
+
+  if (model === 'fixedRatio') {
+    const { startingBalance, delta, riskPerUnit } = inputs;
+    const profit = Math.max(0, accountSize - startingBalance);
+    const units = Math.floor((1 + Math.sqrt(1 + (8 * profit) / delta)) / 2);
+    result.units = units;
+    result.nextUnitBalance = startingBalance + (delta * units * (units + 1)) / 2;
+    result.riskAmount = units * riskPerUnit;
+  } else {
+    let fullFraction: number;
+    if (model === 'kelly') {
+      const winProbability = inputs.winRate / 100;
+      fullFraction = winProbability - (1 - winProbability) / inputs.averageWinR;
+    } else {
+      const biggestLoss = Math.abs(Math.min(...inputs.tradeResults));
+      fullFraction = findOptimalF(inputs.tradeResults, biggestLoss);
+      result.biggestLoss = biggestLoss;
+      result.tradeCount = inputs.tradeResults.length;
+    }
+    if (!(fullFraction > 0)) {
+      return {
+        success: false,
+        errors: [{
+          code: 'INVALID_SIZING_INPUTS',
+          severity: 'error',
+          field: 'sizing',
+          message: model === 'kelly'
+            ? 'The win rate and average win show no edge: Kelly recommends not trading.'
+            : 'The trade results show no edge: optimal f is zero.',
+        }],
+      };
+    }
+    result.fullFraction = fullFraction;
+    result.appliedFraction = fullFraction * (inputs.fraction / 100);
+    result.riskAmount = accountSize * result.appliedFraction;
+  }
+
+  result.riskPercentage = (result.riskAmount / accountSize) * 100;
+  return { success: true, results: result, warnings: [] };
+}
+
+/**
+ * Reads a list of trade results typed or pasted as text.
+ * @param text Amounts separated by commas, semicolons, spaces or new lines (e.g., "120, -80, 45").
+ * @returns The amounts; entries that are not numbers are skipped.
+ */
+export function parseTradeResults(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((value) => parseFloat(value))
+    .filter((value) => !isNaN(value));
+}
+
+/**
+ * Checks the parameters the selected model needs.
+ * @param inputs The model and its parameters.
+ * @returns The errors found, empty if the inputs are usable.
+ */
+function validateSizingInputs(inputs: SizingInputs): CalculationIssue[] {
+  const errors: CalculationIssue[] = [];
+  const addError = (message: string) => {
+    errors.push({ code: 'INVALID_SIZING_INPUTS', severity: 'error', field: 'sizing', message });
+  };
+
+  if (!(inputs.accountSize > 0)) {
+    addError('Account Size must be a positive number.');
+  }
+  if (inputs.model === 'kelly' || inputs.model === 'optimalF') {
+    if (!(inputs.fraction > 0) || inputs.fraction > 100) {
+      addError('Fraction must be greater than 0% and at most 100%.');
+    }
+  }
+  if (inputs.model === 'kelly') {
+    if (!(inputs.winRate > 0) || inputs.winRate >= 100) {
+      addError('Win Rate must be between 0% and 100%.');
+    }
+    if (!(inputs.averageWinR > 0)) {
+      addError('Average Win must be a positive multiple of the average loss.');
+    }
+  } else if (inputs.model === 'fixedRatio') {
+    if (!(inputs.startingBalance > 0)) {
+      addError('Starting Balance must be a positive number.');
+    }
+    if (!(inputs.delta > 0)) {
+      addError('Delta must be a positive amount.');
+    }
+    if (!(inputs.riskPerUnit > 0)) {
+      addError('Risk per Unit must be a positive amount.');
+    }
+  } else if (inputs.model === 'optimalF') {
+    if (inputs.tradeResults.length < 2) {
+      addError('Enter at least two trade results for optimal f.');
+    } else if (!inputs.tradeResults.some((value) => value < 0)) {
+      addError('Optimal f needs at least one losing trade in the results.');
+    }
+  }
+  return errors;
+}
+
+/**
+ * Searches for the fraction f that maximizes TWR = Π (1 + f × (trade / biggestLoss)).
+ * A coarse pass in steps of 0.01 is refined in steps of 0.0001 around the best value.
+ * @param tradeResults Historical trade profits and losses; at least one is negative.
+ * @param biggestLoss The largest loss, as a positive amount.
+ * @returns The optimal f in [0, 1), or 0 when no positive fraction grows the account.
+ */
+function findOptimalF(tradeResults: number[], biggestLoss: number): number {
+  // Log TWR avoids overflow on long histories
+  const logTwr = (f: number) => tradeResults.reduce((sum, trade) => sum + Math.log(1 + f * (trade / biggestLoss)), 0);
+
+  let best = 0;
+  let bestLogTwr = 0; // TWR of 1 at f = 0
+  const search = (from: number, to: number, step: number) => {
+    for (let f = from; f < to; f += step) {
+      if (f <= 0) {
+        continue;
+      }
+      const value = logTwr(f);
+      if (value > bestLogTwr) {
+        best = f;
+        bestLogTwr = value;
+      }
+    }
+  };
+  search(0.01, 1, 0.01);
+  if (best > 0) {
+    search(best - 0.01, Math.min(best + 0.01, 1), 0.0001);
+  }
+  return best;
+}
@@ -0,0 +1,82 @@
+import { PropFirmCheck, PropFirmRules, PropFirmStatus, RiskLimit } from '../types';
+
+/**
+ * Measures how much room the account has left under a prop-firm rule profile.
+ * - Daily loss: today's realized plus open loss against a percentage of the initial or day start balance.
+ * - Overall drawdown: equity against a floor set below the initial balance, or below the highest balance when trailing.
+ * Empty status fields fall back sensibly: the day start balance to the initial balance,
+ * the highest balance to the larger of the two, and the P/L figures to zero.
+ * @param rules The rule profile.
+ * @param status The account figures entered by the user.
+ * @returns The remaining allowances, or null when there is no initial balance to measure from.
+ */
+export function evaluatePropFirmRules(rules: PropFirmRules, status: PropFirmStatus): PropFirmCheck | null {
+  const initialBalance = toNumber(status.initialBalance);
+  if (!(initialBalance > 0)) {
+    return null;
+  }
+  const dayStartBalance = toNumber(status.dayStartBalance) || initialBalance;
+  const highestBalance = Math.max(toNumber(status.highestBalance), initialBalance, dayStartBalance);
+  const todayPnl = toNumber(status.realizedToday) + toNumber(status.openPnl);
+  const equity = dayStartBalance + todayPnl;
+  const dailyLoss = Math.max(0, -todayPnl);
+
+  let dailyLimit: number | null = null;
+  let dailyRemaining: number | null = null;
+  if (typeof rules.dailyLossPercent === 'number' && rules.dailyLossPercent > 0) {
+    const basis = rules.dailyLossBasis === 'initial' ? initialBalance : dayStartBalance;
+    dailyLimit = (basis * rules.dailyLossPercent) / 100;
+    dailyRemaining = dailyLimit - dailyLoss;
+  }
+
+  let drawdownFloor: number | null = null;
+  let overallRemaining: number | null = null;
+  if (typeof rules.maxDrawdownPercent === 'number' && rules.maxDrawdownPercent > 0) {
+    const basis = rules.drawdownBasis === 'trailing' ? highestBalance : initialBalance;
+    drawdownFloor = basis * (1 - rules.maxDrawdownPercent / 100);
+    overallRemaining = equity - drawdownFloor;
+  }
+
+  // The tighter of the two limits is the one a new trade must respect
+  let allowance: number | null = null;
+  let bindingRule: PropFirmCheck['bindingRule'] = null;
+  if (dailyRemaining !== null && (overallRemaining === null || dailyRemaining <= overallRemaining)) {
+    allowance = dailyRemaining;
+    bindingRule = 'daily';
+  } else if (overallRemaining !== null) {
+    allowance = overallRemaining;
+    bindingRule = 'overall';
+  }
+
+  return {
+    equity,
+    dailyLimit,
+    dailyLoss,
+    dailyRemaining,
+    drawdownFloor,
+    overallRemaining,
+    allowance,
+    bindingRule,
+    maxLotsPerTrade: typeof rules.maxLotsPerTrade === 'number' && rules.maxLotsPerTrade > 0 ? rules.maxLotsPerTrade : null,
+  };
+}
+
+/**
+ * Turns a rule check into the caps applied by the lot size calculation.
+ * @param check The result of `evaluatePropFirmRules`.
+ * @returns The risk limit, or undefined when the profile sets no limits.
+ */
+export function toRiskLimit(check: PropFirmCheck | null): RiskLimit | undefined {
+  if (!check || (check.allowance === null && check.maxLotsPerTrade === null)) {
+    return undefined;
+  }
+  return {
+    maxRiskAmount: check.allowance === null ? null : Math.max(0, check.allowance),
+    maxLotSize: check.maxLotsPerTrade,
+    label: check.bindingRule === 'daily' ? 'daily loss limit' : check.bindingRule === 'overall' ? 'overall drawdown limit' : 'lot size limit',
+  };
+}
+
+function toNumber(value: number | ''): number {
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+}
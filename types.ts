@@ -3,59 +3,716 @@ export interface CurrencyPair {
   base: string;
   quote: string;
   contractSize: number; // Units per standard lot (e.g., 100,000 for FX, 100 for XAUUSD, 1 for BTCUSDT)
+  pipSize: number; // Price change of one pip (e.g., 0.0001 for EUR/USD, 0.01 for USD/JPY)
+  tickSize: number; // Smallest quoted price increment (e.g., 0.00001 for EUR/USD)
+  digits: number; // Decimal places in the quoted price
+  minLot: number; // Smallest volume accepted by the broker
+  maxLot: number; // Largest volume accepted in a single order
+  lotStep: number; // Volume increment (e.g., 0.01, 0.1, 1)
 }
 
-export type AccountCurrency = 'USD' | 'INR' | 'GBP' | 'EUR';
-export type Leverage = '1:30' | '1:50' | '1:100' | '1:200' | '1:500' | '1:1000';
+export type AccountCurrency = string; // Any currency the rate provider can price: ISO codes (e.g., 'JPY') or crypto tickers (e.g., 'USDT', 'BTC')
+export type Leverage = `1:${number}`; // Any ratio, e.g. '1:30' or '1:400'
+// Leverage caps keyed by CURRENCY_PAIRS category name (e.g., { 'Crypto Pairs': '1:2' })
+export type LeverageSchedule = { [category: string]: Leverage };
 export type RiskType = 'percentage' | 'amount';
 export type TradeType = 'buy' | 'sell'; // NEW: Trade type
+export type LotRoundingPolicy = 'floor' | 'nearest' | 'ceil';
+export type CommissionType = 'perLot' | 'perMillion';
+export type EntryMode = 'single' | 'scaleIn';
+// 'lotSize' is the classic calculation; the others take a lot size and solve for another variable
+export type SolveMode = 'lotSize' | 'stopLoss' | 'risk' | 'accountSize';
+// 'chart': entry and levels are chart (bid) prices and the spread is paid on top.
+// 'executable': entry is the fill price (ask for buys, bid for sells) and SL/TP are the prices that trigger them.
+export type PriceBasis = 'chart' | 'executable';
+export type ExchangeRateProviderId = 'static' | 'local' | 'http';
+
+// The USD value of one unit of a currency, with where and when it was quoted
+export interface ExchangeRate {
+  currency: string;
+  rateToUSD: number; // Value of 1 unit of `currency` in USD (e.g., 1.08 for EUR)
+  timestamp: number; // When the rate was quoted, in epoch milliseconds
+  source: string; // Where the rate came from (e.g., 'Built-in table', an endpoint URL)
+}
+
+export type ExchangeRateTable = { [currency: string]: ExchangeRate };
+
+export interface ExchangeRateProvider {
+  id: ExchangeRateProviderId;
+  label: string;
+  getRates: (signal?: AbortSignal) => Promise<ExchangeRateTable>;
+}
+
+export type MarketDataProviderId = 'mock' | 'remote';
+export type QuoteStatus = 'idle' | 'loading' | 'live' | 'error';
+
+// A two-sided price for an instrument at a point in time
+export interface MarketQuote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  timestamp: number; // When the quote was made, in epoch milliseconds
+  source: string;
+}
+
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  label: string;
+  getQuote: (symbol: string, signal?: AbortSignal) => Promise<MarketQuote | undefined>;
+  // Streams quotes for a symbol until the returned function is called
+  subscribe: (symbol: string, onQuote: (quote: MarketQuote) => void, onError: (error: Error) => void) => () => void;
+}
+
+// Form state for a single row of the user-editable rate table
+export interface LocalExchangeRateInput {
+  id: string;
+  currency: string;
+  rateToUSD: number | '';
+  updatedAt: number; // Epoch milliseconds of the last edit
+}
+
+// Form fields a calculation issue can point at
+export type CalculationField =
+  | 'accountCurrency'
+  | 'accountSize'
+  | 'leverage'
+  | 'riskValue'
+  | 'currencyPair'
+  | 'entryPrice'
+  | 'stopLoss'
+  | 'takeProfit'
+  | 'scaleInEntries'
+  | 'equity'
+  | 'usedMargin'
+  | 'marginLevels'
+  | 'lotSize'
+  | 'lotRules'
+  | 'sizing'
+  | 'journal'
+  | 'simulation';
+
+export type CalculationErrorCode =
+  | 'INVALID_ACCOUNT_SIZE'
+  | 'INVALID_RISK_VALUE'
+  | 'INVALID_LEVERAGE'
+  | 'INVALID_INSTRUMENT'
+  | 'INVALID_ENTRY_PRICE'
+  | 'INVALID_STOP_LOSS'
+  | 'STOP_TOO_CLOSE'
+  | 'STOP_WRONG_SIDE'
+  | 'TAKE_PROFIT_WRONG_SIDE'
+  | 'INVALID_TAKE_PROFIT_PLAN'
+  | 'ENTRY_WRONG_SIDE'
+  | 'INVALID_SCALE_IN_ENTRIES'
+  | 'MISSING_RATE'
+  | 'INVALID_EQUITY'
+  | 'INVALID_USED_MARGIN'
+  | 'INVALID_MARGIN_LEVELS'
+  | 'INVALID_LOT_SIZE'
+  | 'INVALID_LOT_RULES'
+  | 'INVALID_SIZING_INPUTS'
+  | 'INVALID_TRADE_OUTCOME'
+  | 'INVALID_SIMULATION_INPUTS'
+  | 'RISK_LIMIT_REACHED'
+  | 'CALCULATION_FAILED';
+
+export type CalculationWarningCode = 'TAKE_PROFIT_INSIDE_STOP' | 'RISK_LIMIT_EXCEEDED';
+
+export interface CalculationIssue {
+  code: CalculationErrorCode | CalculationWarningCode;
+  severity: 'error' | 'warning';
+  field: CalculationField;
+  message: string;
+  index?: number; // Row index for take-profit targets and scale-in entries
+}
+
+// Result of a calculation: either results plus any warnings, or the list of errors that prevented it
+export type CalculationOutcome<T> =
+  | { success: true; results: T; warnings: CalculationIssue[] }
+  | { success: false; errors: CalculationIssue[] };
+
+export interface TakeProfitTarget {
+  price: number;
+  closePercent: number; // Share of the position closed at this level (0-100)
+}
+
+// Form state for a single take-profit row
+export interface TakeProfitTargetInput {
+  id: string;
+  priceInput: number | '';
+  pipsInput: number | '';
+  closePercent: number | '';
+  lastEditedField: 'price' | 'pips' | null;
+}
 
 export interface CalculationInputs {
   accountCurrency: AccountCurrency;
   accountSize: number;
   leverage: Leverage;
+  leverageSchedule: LeverageSchedule; // Per-category caps; empty when one leverage applies to everything
   riskType: RiskType;
   riskValue: number; // percentage or amount
   currencyPair: CurrencyPair;
   entryPrice: number;
   stopLossPrice: number;
-  takeProfitPrice?: number;
+  takeProfitTargets: TakeProfitTarget[]; // Empty when no TP is set
   tradeType: TradeType; // NEW: Trade type
+  lotRounding: LotRoundingPolicy; // How the raw lot size is snapped to the volume step
+  spreadPips: number; // Spread paid on entry, in pips
+  commission: number; // Round-turn commission in account currency
+  commissionType: CommissionType; // Per lot, or per 1,000,000 of notional
+  exchangeRates: ExchangeRateTable; // Snapshot from the active rate provider
+  priceBasis: PriceBasis; // How entryPrice relates to bid and ask
+  equity: number; // Current equity in account currency; 0 uses accountSize
+  usedMargin: number; // Margin already held by open positions, in account currency
+  marginCallLevel: number; // Broker margin call level, as margin level % (e.g., 100)
+  stopOutLevel: number; // Broker stop-out level, as margin level % (e.g., 50)
+  riskLimit?: RiskLimit; // Caps from account rules such as a prop-firm challenge
+  lotRules?: BrokerLotRules; // The account's broker volume limits, in place of the instrument's
+}
+
+// Volume limits of the account's broker; empty fields keep the instrument registry's value
+export interface BrokerLotRules {
+  minLot: number | '';
+  maxLot: number | '';
+  lotStep: number | '';
+}
+
+// Caps applied on top of the risk budget; null means no cap of that kind
+export interface RiskLimit {
+  maxRiskAmount: number | null; // Remaining loss allowance, in account currency
+  maxLotSize: number | null;
+  label: string; // Names the binding rule in messages (e.g., 'daily loss limit')
+}
+
+// How the trade fits within the account's margin, and how far price can move against it
+export interface MarginAnalysis {
+  equity: number;
+  totalUsedMargin: number; // Existing margin plus this trade
+  freeMarginBefore: number;
+  freeMarginAfter: number; // Negative when the trade cannot be opened
+  marginLevel: number | null; // Equity / total used margin * 100; null when no margin is used
+  exceedsFreeMargin: boolean; // The trade needs more margin than is free before it
+  maxAffordableLotSize: number; // Largest lot size the free margin supports, on the volume step
+  marginCallPips: number | null; // Adverse move that reaches the margin call level; 0 if already there
+  marginCallPrice: number | null;
+  stopOutPips: number | null; // Adverse move that reaches the stop-out level; 0 if already there
+  stopOutPrice: number | null;
+}
+
+export interface TakeProfitTargetResult {
+  price: number;
+  closePercent: number;
+  lots: number; // Volume closed at this target, rounded to the lot step
+  pips: number; // Chart-price distance from entry
+  executablePips: number; // Distance actually captured after the spread
+  profit: number; // Net of trading costs, in account currency
+  rMultiple: number; // Target distance divided by SL distance
 }
 
 export interface CalculationResults {
   finalLotSize: number;
-  totalRiskAmount: number; // in account currency
+  totalRiskAmount: number; // in account currency, SL loss plus spread and commission
   riskPerPip: number; // in account currency
-  stopLossPips: number;
-  takeProfitPips: number | null; // NEW: Take Profit pips
-  potentialProfitAtTP: number | null; // in account currency
+  stopLossPips: number; // Chart-price distance from entry to SL
+  executableStopLossPips: number; // Distance from the fill to the SL exit, including the spread
+  takeProfitPips: number | null; // Volume-weighted average across TP targets
+  executableTakeProfitPips: number | null; // Volume-weighted average distance actually captured
+  potentialProfitAtTP: number | null; // in account currency, total across TP targets
   marginRequired: number; // in account currency
-  riskToRewardRatio: number | null;
+  appliedLeverage: Leverage; // Leverage used for the margin, after any category cap
+  leverageCategory: string | null; // Category whose cap set appliedLeverage, if any
+  marginAnalysis: MarginAnalysis;
+  riskToRewardRatio: number | null; // Blended R:R of the whole exit plan
   lotSizeCategory: 'standard' | 'mini' | 'micro';
   effectiveRiskPercentage: number; // Actual risk percentage based on final lot size
+  unroundedLotSize: number; // Exact lot size before volume step rounding
+  minLotExceedsRisk: boolean; // True when the broker minimum lot pushes risk above the target
+  maxLotCapped: boolean; // True when the lot size was capped at the broker maximum
+  stopLossAmount: number; // Loss from the SL distance alone, in account currency
+  spreadCost: number; // Spread cost for the final lot size, in account currency
+  commissionCost: number; // Round-turn commission for the final lot size, in account currency
+  takeProfitTargets: TakeProfitTargetResult[];
+  exchangeRatesUsed: ExchangeRate[]; // Rates the conversions relied on (empty for USD-only trades)
+  sizing?: SizingResult; // Set when a sizing model chose the risk amount
+  riskLimitApplied?: 'risk' | 'lots' | null; // Which part of inputs.riskLimit reduced the lot size
+}
+
+export interface ScaleInEntry {
+  price: number;
+  weight: number; // Relative share of the total position (e.g., 1, 1, 2)
+}
+
+// Form state for a single scale-in entry row
+export interface ScaleInEntryInput {
+  id: string;
+  price: number | '';
+  weight: number | '';
+}
+
+export interface ScaleInInputs extends Omit<CalculationInputs, 'entryPrice' | 'takeProfitTargets'> {
+  entries: ScaleInEntry[]; // Prices follow priceBasis, like the single entry price
+}
+
+export interface ScaleInEntryResult {
+  price: number;
+  weight: number;
+  lots: number;
+  stopLossPips: number;
+  riskAmount: number; // Loss at SL for this entry, including costs
+  cumulativeRiskAmount: number; // Risk if this entry and every entry that fills before it are open
+  cumulativeRiskPercentage: number;
+}
+
+export interface ScaleInResults {
+  entries: ScaleInEntryResult[]; // Ordered by fill order
+  totalLotSize: number;
+  unroundedTotalLotSize: number;
+  averageEntryPrice: number; // Lot-weighted average entry
+  averageStopLossPips: number; // SL distance from the average entry
+  riskPerPip: number; // in account currency, for the whole position
+  totalRiskAmount: number; // Loss at SL if every entry fills
+  effectiveRiskPercentage: number;
+  marginRequired: number; // Margin if every entry fills
+  appliedLeverage: Leverage;
+  leverageCategory: string | null;
+  marginAnalysis: MarginAnalysis; // Adverse moves are measured from the average entry
+  minLotExceedsRisk: boolean;
+  exchangeRatesUsed: ExchangeRate[];
+  sizing?: SizingResult;
+  riskLimitApplied?: 'risk' | 'lots' | null;
+}
+
+// Inputs for the reverse solve modes; the input matching `solveFor` is ignored
+// (stopLossPrice for 'stopLoss', riskValue for 'risk', accountSize for 'accountSize')
+export interface ReverseInputs extends Omit<CalculationInputs, 'takeProfitTargets' | 'lotRounding'> {
+  solveFor: Exclude<SolveMode, 'lotSize'>;
+  lotSize: number;
+}
+
+export interface ReverseResults {
+  solveFor: Exclude<SolveMode, 'lotSize'>;
+  lotSize: number;
+  accountSize: number; // Solved in 'accountSize' mode, otherwise the input
+  riskAmount: number; // Loss at SL including costs
+  riskPercentage: number;
+  stopLossPrice: number; // Solved in 'stopLoss' mode (widest stop within the risk budget), otherwise the input
+  stopLossPips: number; // Chart distance
+  executableStopLossPips: number;
+  riskPerPip: number;
+  stopLossAmount: number;
+  spreadCost: number;
+  commissionCost: number;
+  marginRequired: number;
+  appliedLeverage: Leverage;
+  leverageCategory: string | null;
+  exchangeRatesUsed: ExchangeRate[];
+}
+
+// A trade already running, as entered in the open positions list
+export interface OpenPositionInput {
+  id: string;
+  currencyPair: CurrencyPair;
+  tradeType: TradeType;
+  lotSize: number | '';
+  entryPrice: number | '';
+  stopLossPrice: number | ''; // Empty when the position has no stop
+}
+
+export interface PortfolioInputs extends Pick<CalculationInputs, 'accountCurrency' | 'accountSize' | 'leverage' | 'leverageSchedule' | 'exchangeRates'> {
+  positions: OpenPositionInput[];
+}
+
+export interface OpenPositionRisk {
+  id: string;
+  riskAmount: number | null; // Loss if the stop is hit; 0 once the stop is at or past entry, null without a stop or rate
+  riskPercentage: number | null;
+  marginRequired: number | null; // Null when the position cannot be valued
+  issue: string | null; // Why the position could not be fully assessed
+}
+
+export interface PortfolioRisk {
+  positions: OpenPositionRisk[]; // In the same order as the inputs
+  openRiskAmount: number; // Risk to stops across open positions
+  openMarginRequired: number;
+  unprotectedCount: number; // Positions without a stop, whose risk is unbounded
+  newTradeRiskAmount: number | null; // The calculated trade, when there is one
+  newTradeMarginRequired: number | null;
+  totalRiskAmount: number; // Open positions plus the new trade
+  totalRiskPercentage: number;
+  totalMarginRequired: number;
+}
+
+export interface ExposureInputs extends Pick<CalculationInputs, 'accountCurrency' | 'accountSize' | 'exchangeRates'> {
+  positions: OpenPositionInput[]; // Open positions, plus the planned trade when there is one
+  limitPercent: number; // Net notional per currency, as % of the account, above which it is flagged
+}
+
+export interface CurrencyExposure {
+  currency: string; // Currency or asset leg (e.g., 'EUR', 'XAU')
+  units: number; // Net units held; positive is long, negative is short
+  notional: number; // Net units valued in account currency, signed like `units`
+  accountPercentage: number; // |notional| as % of the account
+  exceedsLimit: boolean; // Never set for the account currency itself
+}
+
+export interface ExposureBreakdown {
+  currencies: CurrencyExposure[]; // Largest absolute exposure first
+  skippedCount: number; // Positions left out for a missing lot size, price or exchange rate
+}
+
+// Pairwise correlations keyed by symbol; every pair is stored under both symbols
+export interface CorrelationMatrix {
+  [symbol: string]: { [symbol: string]: number };
+}
+
+export type CorrelationImportFormat = 'matrix' | 'prices';
+
+// A trade's risk to its stop, as seen by the correlation check
+export interface CorrelationRiskTrade {
+  id: string;
+  symbol: string;
+  tradeType: TradeType;
+  riskAmount: number;
+}
+
+export interface CorrelationRiskInputs {
+  matrix: CorrelationMatrix;
+  threshold: number; // |correlation| at or above which positions are reported
+  accountSize: number;
+  newTrade: CorrelationRiskTrade;
+  lotSize: number; // Lot size of the new trade
+  currencyPair: CurrencyPair; // Instrument of the new trade, for lot step and minimum
+  positions: CorrelationRiskTrade[]; // Open positions with a known risk
+}
+
+export interface CorrelatedPosition {
+  id: string;
+  symbol: string;
+  correlation: number; // Between the instruments
+  effectiveCorrelation: number; // Adjusted for direction: positive means the trades lose together
+}
+
+export interface CorrelationRisk {
+  correlatedPositions: CorrelatedPosition[]; // Strongest first
+  simpleRiskAmount: number; // Plain sum of the risks to stops
+  combinedRiskAmount: number; // Risk treating correlated trades as partly the same bet
+  combinedRiskPercentage: number;
+  suggestedLotSize: number | null; // Lot size that adds as much combined risk as an uncorrelated trade would; null when no reduction is needed
+}
+
+// 'fixed' uses the risk type and value as entered; the others derive the risk amount
+export type SizingModel = 'fixed' | 'kelly' | 'fixedRatio' | 'optimalF';
+
+export interface SizingInputs {
+  model: Exclude<SizingModel, 'fixed'>;
+  accountSize: number;
+  winRate: number; // Kelly: percentage of trades that win
+  averageWinR: number; // Kelly: average win as a multiple of the average loss
+  fraction: number; // Kelly and optimal f: percentage of the full fraction to use (e.g., 50 for half Kelly)
+  startingBalance: number; // Fixed ratio: balance at which the first unit was traded
+  delta: number; // Fixed ratio: profit per unit needed to add the next unit
+  riskPerUnit: number; // Fixed ratio: risk amount carried by each unit
+  tradeResults: number[]; // Optimal f: historical trade profits and losses in account currency
+}
+
+// Form state for the sizing model parameters
+export interface SizingFormInputs {
+  model: SizingModel;
+  winRate: number | '';
+  averageWinR: number | '';
+  fraction: number | '';
+  startingBalance: number | '';
+  delta: number | '';
+  riskPerUnit: number | '';
+  tradeResults: string; // Amounts as typed, parsed when calculating
+}
+
+export interface SizingResult {
+  model: Exclude<SizingModel, 'fixed'>;
+  inputs: SizingInputs; // Parameters the risk was derived from
+  riskAmount: number; // In account currency; fed to the lot size calculation
+  riskPercentage: number;
+  fullFraction: number | null; // Kelly f* or optimal f before the fraction is applied, 0-1
+  appliedFraction: number | null; // fullFraction after the fraction is applied
+  units: number | null; // Fixed ratio: units traded at the current balance
+  nextUnitBalance: number | null; // Fixed ratio: balance at which the next unit is added
+  biggestLoss: number | null; // Optimal f: largest historical loss, as a positive amount
+  tradeCount: number | null; // Optimal f: number of trade results used
+}
+
+export interface MonteCarloInputs {
+  startingBalance: number;
+  riskPercentage: number; // Of the current balance, risked on every trade
+  tradeCount: number; // Trades per simulated sequence
+  runCount: number; // Number of sequences
+  seed: number; // Same seed, same sequences
+  winRate: number; // Percentage of winning trades
+  averageRR: number; // Reward of a win, in multiples of the risk
+  rDistribution: number[]; // When not empty, each trade's R multiple is drawn from these instead
+  drawdownLevel: number; // Percentage drawdown whose probability is reported
+  ruinLevel: number; // Percentage loss of the starting balance counted as ruin; trading stops there
+}
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResults {
+  runCount: number;
+  tradeCount: number;
+  riskPercentage: number;
+  drawdownLevel: number;
+  ruinLevel: number;
+  drawdownProbability: number; // Percentage of runs whose drawdown reached drawdownLevel
+  ruinProbability: number; // Percentage of runs that fell to the ruin level
+  finalBalance: Percentiles;
+  maxDrawdown: Percentiles; // Largest peak-to-trough fall of each run, in percent
+  fan: { trade: number; balance: Percentiles }[]; // Balance percentiles at evenly spaced trades, from trade 0
+}
+
+// Form state for the simulator; the starting balance is the account size
+export interface MonteCarloFormInputs {
+  riskPercentage: number | '';
+  tradeCount: number | '';
+  runCount: number | '';
+  seed: number | '';
+  winRate: number | '';
+  averageRR: number | '';
+  useJournalR: boolean; // Draw R multiples from the journal's closed trades
+  drawdownLevel: number | '';
+  ruinLevel: number | '';
+}
+
+export type DailyLossBasis = 'initial' | 'dayStart';
+export type DrawdownBasis = 'initial' | 'trailing';
+
+// A funded-account rule set, e.g. 5% daily loss and 10% overall drawdown
+export interface PropFirmRules {
+  id: string;
+  name: string;
+  dailyLossPercent: number | ''; // Empty when there is no daily limit
+  dailyLossBasis: DailyLossBasis; // Percentage of the initial balance or of today's starting balance
+  maxDrawdownPercent: number | ''; // Empty when there is no overall limit
+  drawdownBasis: DrawdownBasis; // Measured from the initial balance or from the highest balance reached
+  maxLotsPerTrade: number | '';
+}
+
+// Account figures entered by the user to track the rules
+export interface PropFirmStatus {
+  initialBalance: number | '';
+  highestBalance: number | ''; // Used by trailing drawdown
+  dayStartBalance: number | '';
+  realizedToday: number | ''; // Closed P/L today; negative for a loss
+  openPnl: number | ''; // Floating P/L of open positions
+}
+
+export interface PropFirmCheck {
+  equity: number; // Day start balance plus today's realized and open P/L
+  dailyLimit: number | null; // Loss allowed today, in account currency
+  dailyLoss: number; // Loss so far today, as a positive amount
+  dailyRemaining: number | null;
+  drawdownFloor: number | null; // Equity below which the account fails
+  overallRemaining: number | null;
+  allowance: number | null; // The smaller remaining allowance
+  bindingRule: 'daily' | 'overall' | null; // Which limit sets the allowance
+  maxLotsPerTrade: number | null;
+}
+
+// One OHLC candle; time is the candle's open in epoch milliseconds (UTC)
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Imported candles keyed by instrument symbol, oldest first
+export interface OhlcData {
+  [symbol: string]: Candle[];
+}
+
+export type AtrTimeframe = 'M1' | 'M5' | 'M15' | 'M30' | 'H1' | 'H4' | 'D1' | 'W1';
+export type StopLossMode = 'manual' | 'atr';
+
+export interface AtrResult {
+  atr: number; // Average true range in price units
+  atrPips: number;
+  candleCount: number; // Candles at the chosen timeframe that fed the average
+  lastCandleTime: number; // Open time of the most recent candle used
+}
+
+// Realized result of a journaled trade, measured against the stored calculation
+export interface TradeOutcome {
+  realizedPips: number; // From fill to exit, averaged over the lots closed; negative for a loss
+  grossProfit: number; // In account currency, before fees
+  fees: number;
+  netProfit: number; // grossProfit minus fees
+  rMultiple: number | null; // netProfit divided by the planned total risk
+  entrySlippagePips: number; // Fill versus planned entry; positive when the fill was worse
+}
+
+// Part of the position closed before the final exit, such as at an earlier take-profit target
+export interface PartialExit {
+  price: number | '';
+  lots: number | '';
+}
+
+// What happened to a planned trade, as recorded in the journal
+export interface TradeJournal {
+  taken: boolean;
+  fillPrice: number | '';
+  partialExits?: PartialExit[]; // Absent on entries journaled before partial exits
+  exitPrice: number | ''; // Closes whatever the partial exits left open
+  exitTime: string; // From a datetime-local input; '' while the trade is open
+  fees: number | ''; // Commission, swap and other charges, in account currency
+  notes: string;
+  tags?: string[]; // Free-form labels such as a setup name; absent on entries journaled before tags
+  outcome: TradeOutcome | null; // Set once fill and exit prices are recorded
+}
+
+// Narrows the journal statistics; empty values match everything
+export interface JournalFilter {
+  symbol: string;
+  tradeType: TradeType | 'all';
+  from: string; // yyyy-mm-dd, compared with the exit date
+  to: string;
+  tag: string;
+}
+
+export interface EquityPoint {
+  time: number; // Epoch milliseconds of the exit
+  equity: number; // Account balance after the trade
+  drawdown: number; // Distance below the running peak, in account currency
+}
+
+export interface JournalStats {
+  tradeCount: number; // Trades with a recorded outcome
+  winCount: number;
+  lossCount: number;
+  winRate: number; // Percentage of trades with a positive net P/L
+  averageWin: number; // In account currency, 0 without wins
+  averageLoss: number; // As a positive amount, 0 without losses
+  averageWinR: number | null;
+  averageLossR: number | null; // As a positive multiple
+  expectancy: number; // Average net P/L per trade
+  expectancyR: number | null;
+  profitFactor: number | null; // Gross wins over gross losses; null without losses
+  netProfit: number;
+  longestLosingStreak: number;
+  maxDrawdown: number; // Largest peak-to-trough fall of the equity curve
+  maxDrawdownPercentage: number; // Relative to the peak it fell from
+  equityCurve: EquityPoint[]; // Starts at the balance before the first trade
+}
+
+// Account-level form values that an account profile restores
+export interface AccountSettings {
+  accountCurrency: AccountCurrency;
+  accountSize: number | '';
+  leverage: string; // As typed, e.g. '1:500' or '400'
+  leverageSchedule: { [category: string]: string } | null; // Per-category leverage as typed; null when one leverage applies
+  riskType: RiskType;
+  riskValue: number | '';
+  lotRounding: LotRoundingPolicy;
+  lotRules: BrokerLotRules;
+  commission: number | '';
+  commissionType: CommissionType;
+  marginCallLevel: number | '';
+  stopOutLevel: number | '';
+}
+
+// A named live, demo or prop account
+export interface AccountProfile extends AccountSettings {
+  id: string;
+  name: string;
 }
 
 export interface HistoryEntry {
   id: string; // Unique ID for each entry
-  timestamp: string; // Date/time of calculation
+  timestamp: string; // Date/time of calculation, ISO 8601
   inputs: {
     accountCurrency: AccountCurrency;
     accountSize: number | '';
     leverage: Leverage;
+    leverageSchedule?: LeverageSchedule; // Only saved when a schedule was in use
     riskType: RiskType;
     riskValue: number | '';
     currencyPair: CurrencyPair;
     tradeType: TradeType;
+    lotRounding: LotRoundingPolicy;
+    lotRules?: BrokerLotRules; // Older entries used the instrument's volumes
+    spreadPips: number | '';
+    commission: number | '';
+    commissionType: CommissionType;
+    priceBasis: PriceBasis;
+    equity: number | '';
+    usedMargin: number | '';
+    marginCallLevel: number | '';
+    stopOutLevel: number | '';
     entryPrice: number | '';
     stopLossPriceInput: number | '';
     stopLossPipsInput: number | '';
-    takeProfitPriceInput: number | '';
-    takeProfitPipsInput: number | '';
+    takeProfitTargets: TakeProfitTargetInput[];
     lastEditedSLField: 'price' | 'pips' | null;
-    lastEditedTPField: 'price' | 'pips' | null;
+    stopLossMode?: StopLossMode; // Absent on entries saved before ATR stops
+    atrMultiplier?: number | '';
+    atrPeriod?: number | '';
+    atrTimeframe?: AtrTimeframe;
+    sizing?: SizingFormInputs; // Absent on entries saved before sizing models
+    entryMode?: EntryMode; // Absent on single-entry calculations saved before scale-in plans were recorded
+    scaleInEntries?: ScaleInEntryInput[]; // Only saved for a scale-in plan
+    solveMode?: SolveMode; // Absent on lot size calculations
+    fixedLotSize?: number | ''; // The lot size a reverse solve started from
+    // Single TP fields from entries saved before multiple targets were supported
+    takeProfitPriceInput?: number | '';
+    takeProfitPipsInput?: number | '';
+    lastEditedTPField?: 'price' | 'pips' | null;
   };
-  results: CalculationResults | null; // Store the calculated results
+  results: CalculationResults | null; // Store the calculated results; null for a scale-in plan or reverse solve
+  scaleInResults?: ScaleInResults; // The plan's per-entry lots and average entry, in place of results
+  reverseResults?: ReverseResults; // The solve mode and solved value, in place of results
+  profile?: { id: string; name: string }; // Account profile active at calculation time; absent when none was
+  journal?: TradeJournal; // Absent until the entry is opened in the journal
+  pinned?: boolean; // Pinned entries are listed first and survive Clear History
+  notes?: string;
+}
+
+// The position a history entry planned, whichever calculation produced it
+export interface PlannedPosition {
+  lotSize: number;
+  entryPrice: number | ''; // The lot-weighted average entry for a scale-in plan
+  riskPerPip: number; // in account currency
+  riskAmount: number; // Loss at SL including costs
+}
+
+// Persistent storage for calculation history
+export interface HistoryStore {
+  getAll: () => Promise<HistoryEntry[]>;
+  list: (filter: HistoryFilter, offset: number, limit: number) => Promise<HistoryPage>; // Matching entries, pinned first, then newest first
+  save: (entries: HistoryEntry[]) => Promise<void>; // Adds or replaces entries by ID
+  remove: (ids: string[]) => Promise<void>;
+}
+
+export interface HistoryFilter {
+  search: string; // Matched against the pair, notes, journal notes and tags, and profile name
+  symbol: string;
+  tradeType: TradeType | 'all';
+  from: string; // yyyy-mm-dd, compared with the calculation date
+  to: string;
+  profileId: string; // Empty for all profiles
+  tag: string; // Matched against the trade journal's tags; entries without a journal have none
+  pinnedOnly: boolean;
+}
+
+// One page of the history listing
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  hasMore: boolean; // Whether more matching entries follow this page
 }
 
 export enum RiskLevel {